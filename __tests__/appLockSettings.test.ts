@@ -0,0 +1,40 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  DEFAULT_APP_LOCK_SETTINGS,
+  weakenedAppLockSettings,
+} from '../src/lock/appLockSettings';
+
+// Pulled in by the private store, which these tests never reach
+jest.mock('react-native-fs', () => ({LibraryDirectoryPath: '/library'}));
+
+const current = {...DEFAULT_APP_LOCK_SETTINGS, mode: 'launch' as const};
+
+describe('weakenedAppLockSettings', () => {
+  it('names every setting that loosens the gate', () => {
+    expect(
+      weakenedAppLockSettings(
+        {...current, mode: 'resume', allowDeviceCredentials: false},
+        {
+          mode: 'launch',
+          graceSeconds: current.graceSeconds + 1,
+          allowDeviceCredentials: true,
+          maxAttempts: current.maxAttempts + 1,
+          lockoutSeconds: current.lockoutSeconds - 1,
+        },
+      ),
+    ).toEqual(['mode', 'grace', 'credentials', 'attempts', 'lockout']);
+  });
+
+  it('lets changes that tighten or keep the gate through', () => {
+    expect(weakenedAppLockSettings(current, current)).toEqual([]);
+    expect(
+      weakenedAppLockSettings(current, {
+        mode: 'resume',
+        graceSeconds: 0,
+        allowDeviceCredentials: false,
+        maxAttempts: 1,
+        lockoutSeconds: 600,
+      }),
+    ).toEqual([]);
+  });
+});
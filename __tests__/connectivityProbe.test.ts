@@ -0,0 +1,54 @@
+import {afterEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  createLatencyProbe,
+  ProbeSample,
+} from '../src/network/connectivityProbe';
+
+const originalFetch = global.fetch;
+
+// Fetches that stay pending until the test answers them, oldest first
+const pendingFetches: (() => void)[] = [];
+const answerNextFetch = async () => {
+  pendingFetches.shift()?.();
+  // Lets the probe loop run past its await
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  pendingFetches.length = 0;
+  jest.useRealTimers();
+});
+
+describe('createLatencyProbe', () => {
+  it('runs a single loop after a stop and start during a probe', async () => {
+    jest.useFakeTimers();
+    global.fetch = jest.fn(
+      () =>
+        new Promise<Response>(resolve =>
+          pendingFetches.push(() => resolve({status: 204} as Response)),
+        ),
+    );
+    const samples: ProbeSample[] = [];
+    const probe = createLatencyProbe(
+      {url: 'https://probe.test/204', intervalMs: 1000, timeoutMs: 5000},
+      sample => samples.push(sample),
+    );
+
+    probe.start();
+    probe.stop();
+    probe.start();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    // The probe from the first run is dropped and schedules nothing
+    await answerNextFetch();
+    expect(samples).toHaveLength(0);
+    await answerNextFetch();
+    expect(samples).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    probe.stop();
+  });
+});
@@ -0,0 +1,161 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  DATA_FORMATS,
+  DataConfig,
+  DataParseError,
+  DEFAULT_DATA_SCHEMA,
+  generateRows,
+  InvalidDataSchemaError,
+  parseCsv,
+  parseData,
+  parseDataSchema,
+  serializeData,
+  validateDataConfig,
+  verifyRoundTrip,
+} from '../src/files/dataGenerator';
+
+const config: DataConfig = {
+  rows: 200,
+  columns: parseDataSchema(DEFAULT_DATA_SCHEMA),
+  seed: 42,
+};
+
+describe('parseDataSchema', () => {
+  it('reads name:type pairs and defaults to string', () => {
+    expect(parseDataSchema(' id:int, name ,ok:bool ')).toEqual([
+      {name: 'id', type: 'int'},
+      {name: 'name', type: 'string'},
+      {name: 'ok', type: 'bool'},
+    ]);
+  });
+
+  it('rejects empty, unnamed, unknown and duplicate columns', () => {
+    ['', ' , ', ':int', 'id:long', 'id:int,id:string'].forEach(schema =>
+      expect(() => parseDataSchema(schema)).toThrow(InvalidDataSchemaError),
+    );
+  });
+});
+
+describe('validateDataConfig', () => {
+  it('rejects row counts out of range and fractional seeds', () => {
+    [
+      {...config, rows: 0},
+      {...config, rows: 100001},
+      {...config, rows: 1.5},
+      {...config, seed: 0.5},
+    ].forEach(invalid =>
+      expect(() => validateDataConfig(invalid)).toThrow(InvalidDataSchemaError),
+    );
+  });
+});
+
+describe('generateRows', () => {
+  it('produces the same rows for the same seed', () => {
+    expect(generateRows(config)).toEqual(generateRows(config));
+    expect(generateRows({...config, seed: 43})).not.toEqual(
+      generateRows(config),
+    );
+  });
+
+  // Saved files are checked against a fresh generation, so the sequence
+  // must not change between app versions
+  it('keeps the output of a fixed seed stable', () => {
+    expect(
+      generateRows({
+        rows: 2,
+        columns: parseDataSchema(
+          'id:int,name:string,value:float,timestamp:date,active:bool',
+        ),
+        seed: 42,
+      }),
+    ).toEqual([
+      {
+        id: 434237308,
+        name: '0PkGqM1',
+        value: -55365.8898,
+        timestamp: '2007-07-01T15:56:33.762Z',
+        active: false,
+      },
+      {
+        id: 1055434805,
+        name: 'mFQLaD',
+        value: 674674.8518,
+        timestamp: '2001-07-15T03:37:38.503Z',
+        active: false,
+      },
+    ]);
+  });
+
+  it('generates values of each column type', () => {
+    generateRows(config).forEach(row => {
+      expect(Number.isInteger(row.id)).toBe(true);
+      expect(typeof row.value).toBe('number');
+      expect(new Date(row.timestamp as string).toISOString()).toBe(
+        row.timestamp,
+      );
+      expect(typeof row.active).toBe('boolean');
+      expect(typeof row.note).toBe('string');
+    });
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('a,"b,c","say ""hi""","x\r\ny"\r\n1,2,3,4\r\n')).toEqual([
+      ['a', 'b,c', 'say "hi"', 'x\r\ny'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('accepts LF separators and empty trailing fields', () => {
+    expect(parseCsv('a,b\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ]);
+    expect(parseCsv('a,')).toEqual([['a', '']]);
+  });
+
+  it('rejects malformed quoting', () => {
+    expect(() => parseCsv('"open')).toThrow(DataParseError);
+    expect(() => parseCsv('"a"b')).toThrow(DataParseError);
+  });
+});
+
+describe('round trip', () => {
+  it.each(DATA_FORMATS)('reads back %s unchanged', format => {
+    const rows = generateRows(config);
+    const text = serializeData(format, config.columns, rows);
+    expect(parseData(format, text, config.columns)).toEqual(rows);
+    expect(verifyRoundTrip(format, text, config)).toMatchObject({
+      ok: true,
+      expectedRows: 200,
+      actualRows: 200,
+      mismatchCount: 0,
+    });
+  });
+
+  it('reports changed cells and missing rows', () => {
+    const rows = generateRows(config);
+    const text = serializeData('ndjson', config.columns, [
+      {...rows[0], id: -1},
+      ...rows.slice(1, 199),
+    ]);
+    const result = verifyRoundTrip('ndjson', text, config);
+    expect(result.ok).toBe(false);
+    expect(result.actualRows).toBe(199);
+    expect(result.mismatchCount).toBe(1 + config.columns.length);
+    expect(result.mismatches[0]).toEqual({
+      row: 0,
+      column: 'id',
+      expected: rows[0].id,
+      actual: -1,
+    });
+  });
+
+  it('reports a wrong CSV header instead of comparing rows', () => {
+    const text = serializeData('csv', config.columns, generateRows(config));
+    const result = verifyRoundTrip('csv', text.replace('id,', 'ID,'), config);
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/CSV header/);
+  });
+});
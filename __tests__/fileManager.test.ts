@@ -0,0 +1,74 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  deleteEntry,
+  isStorageRoot,
+  moveEntry,
+  resolveStoragePath,
+  UnsafePathError,
+} from '../src/files/fileManager';
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/data/user/0/com.nativebridge.io/files',
+  CachesDirectoryPath: '/data/user/0/com.nativebridge.io/cache',
+  DownloadDirectoryPath: '/storage/emulated/0/Download',
+  ExternalStorageDirectoryPath: '/storage/emulated/0',
+  unlink: jest.fn(async () => {}),
+  moveFile: jest.fn(async () => {}),
+  exists: jest.fn(async () => false),
+}));
+
+const DOCUMENTS = '/data/user/0/com.nativebridge.io/files';
+
+describe('resolveStoragePath', () => {
+  it('resolves paths relative to a storage root', () => {
+    expect(resolveStoragePath('documents:/notes/a.txt')).toBe(
+      `${DOCUMENTS}/notes/a.txt`,
+    );
+    expect(resolveStoragePath('documents:notes//a.txt')).toBe(
+      `${DOCUMENTS}/notes/a.txt`,
+    );
+    expect(resolveStoragePath('downloads:')).toBe(
+      '/storage/emulated/0/Download',
+    );
+  });
+
+  it('rejects "." and ".." segments', () => {
+    expect(() => resolveStoragePath('documents:/../cache')).toThrow(
+      UnsafePathError,
+    );
+    expect(() => resolveStoragePath('documents:/notes/./a.txt')).toThrow(
+      UnsafePathError,
+    );
+    expect(() => resolveStoragePath(`${DOCUMENTS}/../../shared_prefs`)).toThrow(
+      UnsafePathError,
+    );
+  });
+
+  it('accepts absolute paths only inside a storage root', () => {
+    expect(resolveStoragePath(`${DOCUMENTS}/a.txt`)).toBe(`${DOCUMENTS}/a.txt`);
+    expect(() => resolveStoragePath('/data/user/0')).toThrow(UnsafePathError);
+    expect(() => resolveStoragePath('notes/a.txt')).toThrow(UnsafePathError);
+  });
+
+  it('rejects unknown roots', () => {
+    expect(() => resolveStoragePath('system:/etc')).toThrow(/Unknown storage/);
+  });
+});
+
+describe('storage roots', () => {
+  it('are recognised with or without a trailing slash', () => {
+    expect(isStorageRoot(DOCUMENTS)).toBe(true);
+    expect(isStorageRoot(`${DOCUMENTS}/`)).toBe(true);
+    expect(isStorageRoot(`${DOCUMENTS}/a.txt`)).toBe(false);
+  });
+
+  it('cannot be deleted or moved', async () => {
+    await expect(
+      deleteEntry(resolveStoragePath('documents:')),
+    ).rejects.toBeInstanceOf(UnsafePathError);
+    await expect(
+      moveEntry(DOCUMENTS, '/storage/emulated/0/Download'),
+    ).rejects.toBeInstanceOf(UnsafePathError);
+    await expect(deleteEntry(`${DOCUMENTS}/a.txt`)).resolves.toBeUndefined();
+  });
+});
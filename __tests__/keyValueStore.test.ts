@@ -0,0 +1,129 @@
+import {afterEach, describe, expect, it, jest} from '@jest/globals';
+import RNFS from 'react-native-fs';
+import {
+  clearAll,
+  getItem,
+  listEntries,
+  removeItem,
+  setItem,
+} from '../src/storage/keyValueStore';
+
+// In-memory stand-in for the few react-native-fs calls the store makes
+jest.mock('react-native-fs', () => {
+  const files = new Map<string, string>();
+  const missing = (path: string) => new Error(`ENOENT: ${path}`);
+  return {
+    DocumentDirectoryPath: '/docs',
+    mkdir: async () => {},
+    exists: async (path: string) =>
+      files.has(path) ||
+      Array.from(files.keys()).some(file => file.startsWith(`${path}/`)),
+    readFile: async (path: string) => {
+      const content = files.get(path);
+      if (content === undefined) {
+        throw missing(path);
+      }
+      return content;
+    },
+    writeFile: async (path: string, content: string) => {
+      files.set(path, content);
+    },
+    moveFile: async (from: string, to: string) => {
+      const content = files.get(from);
+      if (content === undefined) {
+        throw missing(from);
+      }
+      files.delete(from);
+      files.set(to, content);
+    },
+    unlink: async (path: string) => {
+      Array.from(files.keys())
+        .filter(file => file === path || file.startsWith(`${path}/`))
+        .forEach(file => files.delete(file));
+    },
+  };
+});
+
+const NAMESPACE_PATH = '/docs/kv/test.json';
+
+afterEach(() => clearAll());
+
+describe('keys that collide with Object.prototype', () => {
+  it('are stored and read like any other key', async () => {
+    await setItem('test', '__proto__', 'polluted?');
+    await setItem('test', 'constructor', 'c');
+    expect(await getItem('test', '__proto__')).toBe('polluted?');
+    expect(await getItem('test', 'constructor')).toBe('c');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('do not read as existing entries', async () => {
+    expect(await getItem('test', 'toString')).toBeNull();
+    expect(await getItem('test', 'hasOwnProperty')).toBeNull();
+    expect(await removeItem('test', 'toString')).toBe(false);
+    expect(await listEntries('test')).toEqual([]);
+  });
+
+  it('survive a reload from disk', async () => {
+    await setItem('test', '__proto__', 'kept');
+    const saved = await RNFS.readFile(NAMESPACE_PATH, 'utf8');
+    await clearAll();
+    await RNFS.writeFile(NAMESPACE_PATH, saved, 'utf8');
+    expect(await getItem('test', '__proto__')).toBe('kept');
+  });
+});
+
+describe('concurrent first loads', () => {
+  it('share one namespace, so no write is lost', async () => {
+    await Promise.all([
+      setItem('test', 'a', '1'),
+      setItem('test', 'b', '2'),
+      setItem('test', 'c', '3'),
+    ]);
+    expect((await listEntries('test')).map(entry => entry.key)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(
+      Object.keys(JSON.parse(await RNFS.readFile(NAMESPACE_PATH, 'utf8'))),
+    ).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('interrupted writes', () => {
+  const entry = {
+    key: 'k',
+    value: 'from temp',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('recover a complete temp file when the namespace file is gone', async () => {
+    await RNFS.writeFile(
+      `${NAMESPACE_PATH}.tmp`,
+      JSON.stringify({k: entry}),
+      'utf8',
+    );
+    expect(await getItem('test', 'k')).toBe('from temp');
+    expect(await RNFS.exists(`${NAMESPACE_PATH}.tmp`)).toBe(false);
+    expect(await RNFS.exists(NAMESPACE_PATH)).toBe(true);
+  });
+
+  it('drop a truncated temp file next to the namespace file', async () => {
+    await RNFS.writeFile(
+      NAMESPACE_PATH,
+      JSON.stringify({k: {...entry, value: 'intact'}}),
+      'utf8',
+    );
+    await RNFS.writeFile(`${NAMESPACE_PATH}.tmp`, '{"k": {"ke', 'utf8');
+    expect(await getItem('test', 'k')).toBe('intact');
+    expect(await RNFS.exists(`${NAMESPACE_PATH}.tmp`)).toBe(false);
+  });
+
+  it('drop a truncated temp file with no namespace file', async () => {
+    await RNFS.writeFile(`${NAMESPACE_PATH}.tmp`, '{"k": {"ke', 'utf8');
+    expect(await getItem('test', 'k')).toBeNull();
+    expect(await RNFS.exists(`${NAMESPACE_PATH}.tmp`)).toBe(false);
+  });
+});
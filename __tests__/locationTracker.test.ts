@@ -0,0 +1,60 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  checkExpectedCoordinate,
+  InvalidCoordinateError,
+  parseCoordinate,
+} from '../src/location/locationTracker';
+
+// Native modules the tracker imports; parsing never reaches them
+jest.mock('@react-native-community/geolocation', () => ({}));
+jest.mock('react-native-fs', () => ({DownloadDirectoryPath: '/downloads'}));
+
+describe('parseCoordinate', () => {
+  it('accepts comma, semicolon and space separators', () => {
+    const berlin = {latitude: 52.5163, longitude: 13.3777};
+    expect(parseCoordinate('52.5163,13.3777')).toEqual(berlin);
+    expect(parseCoordinate(' 52.5163 ; 13.3777 ')).toEqual(berlin);
+    expect(parseCoordinate('52.5163 13.3777')).toEqual(berlin);
+    expect(parseCoordinate('-33.8688, +151.2093')).toEqual({
+      latitude: -33.8688,
+      longitude: 151.2093,
+    });
+  });
+
+  it('rejects empty or non-numeric parts', () => {
+    [
+      '',
+      ',',
+      '52.5,',
+      '52.5 ,',
+      ',13.4',
+      '52.5',
+      '52.5,13.4,7',
+      'abc,13.4',
+      '0x10,13.4',
+      '1e1,13.4',
+      'Infinity,13.4',
+    ].forEach(text =>
+      expect(() => parseCoordinate(text)).toThrow(InvalidCoordinateError),
+    );
+  });
+
+  it('rejects coordinates out of range', () => {
+    expect(() => parseCoordinate('90.1,0')).toThrow(/out of range/);
+    expect(() => parseCoordinate('0,-180.5')).toThrow(/out of range/);
+    expect(parseCoordinate('-90,180')).toEqual({
+      latitude: -90,
+      longitude: 180,
+    });
+  });
+});
+
+describe('checkExpectedCoordinate', () => {
+  it('passes fixes within the tolerance', () => {
+    const expected = parseCoordinate('52.5163,13.3777');
+    // About 11 m north
+    const fix = {latitude: 52.5164, longitude: 13.3777};
+    expect(checkExpectedCoordinate(fix, expected, 25).pass).toBe(true);
+    expect(checkExpectedCoordinate(fix, expected, 5).pass).toBe(false);
+  });
+});
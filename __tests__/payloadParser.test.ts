@@ -0,0 +1,252 @@
+import {describe, expect, it} from '@jest/globals';
+import {ParsedQrPayload, parseQrPayload} from '../src/qr/payloadParser';
+
+// Field values by key, for assertions that ignore labels and order
+const values = ({fields}: ParsedQrPayload) =>
+  Object.fromEntries(fields.map(field => [field.key, field.value]));
+
+describe('URLs', () => {
+  it('split into scheme, host, path, query and fragment', () => {
+    const parsed = parseQrPayload('HTTPS://Example.COM/a/b?x=1&y=2#top');
+    expect(parsed.kind).toBe('url');
+    expect(values(parsed)).toEqual({
+      url: 'HTTPS://Example.COM/a/b?x=1&y=2#top',
+      scheme: 'https',
+      host: 'example.com',
+      path: '/a/b',
+      query: 'x=1&y=2',
+      fragment: 'top',
+    });
+  });
+
+  it('fall back to text without a host', () => {
+    expect(parseQrPayload('https://').kind).toBe('text');
+  });
+});
+
+describe('Wi-Fi', () => {
+  it('honours escaped delimiters in the SSID and password', () => {
+    const parsed = parseQrPayload(
+      'WIFI:T:WPA;S:my\\;net\\:work;P:pa\\\\ss\\,word;H:true;;',
+    );
+    expect(parsed.kind).toBe('wifi');
+    expect(values(parsed)).toEqual({
+      ssid: 'my;net:work',
+      security: 'WPA/WPA2',
+      password: 'pa\\ss,word',
+      hidden: 'true',
+    });
+  });
+
+  it('reports open networks and unknown security types', () => {
+    expect(values(parseQrPayload('WIFI:S:guest;;'))).toEqual({
+      ssid: 'guest',
+      security: 'None',
+    });
+    expect(values(parseQrPayload('WIFI:T:WAPI;S:x;;')).security).toBe('WAPI');
+  });
+});
+
+describe('contacts', () => {
+  it('read MECARD names as Last,First and number repeated fields', () => {
+    const parsed = parseQrPayload(
+      'MECARD:N:Doe,Jane;TEL:+1555;TEL:+1666;EMAIL:jane@example.com;;',
+    );
+    expect(parsed.kind).toBe('contact');
+    expect(values(parsed)).toEqual({
+      name: 'Jane Doe',
+      tel: '+1555',
+      'tel-2': '+1666',
+      email: 'jane@example.com',
+    });
+  });
+
+  it('unfold vCard lines and drop parameters and groups', () => {
+    const parsed = parseQrPayload(
+      [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:Doe;Jane;;;',
+        'TEL;TYPE=CELL:+1555',
+        'item1.EMAIL:jane@exam',
+        ' ple.com',
+        'ADR:;;1 Main St;Springfield;;12345;',
+        'NOTE:line one\\nline two\\, ok',
+        'END:VCARD',
+      ].join('\r\n'),
+    );
+    expect(parsed.fields[0].key).toBe('name');
+    expect(values(parsed)).toEqual({
+      name: 'Jane Doe',
+      tel: '+1555',
+      email: 'jane@example.com',
+      address: '1 Main St, Springfield, 12345',
+      note: 'line one\nline two, ok',
+    });
+  });
+
+  it('prefer the vCard FN over the structured name', () => {
+    expect(
+      values(
+        parseQrPayload('BEGIN:VCARD\nN:Doe;Jane\nFN:Dr. J. Doe\nEND:VCARD'),
+      ).name,
+    ).toBe('Dr. J. Doe');
+  });
+});
+
+describe('OTP enrolment', () => {
+  it('takes the issuer from the label when the parameter is missing', () => {
+    const parsed = parseQrPayload(
+      'otpauth://totp/ACME%20Co:john%40example.com?secret=JBSWY3DPEHPK3PXP',
+    );
+    expect(parsed.kind).toBe('otp');
+    expect(values(parsed)).toEqual({
+      type: 'TOTP',
+      issuer: 'ACME Co',
+      account: 'john@example.com',
+      secret: 'JBSWY3DPEHPK3PXP',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+
+  it('reports the counter of HOTP codes', () => {
+    expect(
+      values(
+        parseQrPayload(
+          'otpauth://hotp/x?secret=ABC&issuer=Corp&counter=7&digits=8&algorithm=sha256',
+        ),
+      ),
+    ).toMatchObject({
+      type: 'HOTP',
+      issuer: 'Corp',
+      counter: '7',
+      digits: '8',
+      algorithm: 'SHA256',
+    });
+  });
+
+  it('falls back to text without a label path', () => {
+    expect(parseQrPayload('otpauth://totp').kind).toBe('text');
+  });
+});
+
+describe('geo', () => {
+  it('reads coordinates, altitude, uncertainty and query', () => {
+    const parsed = parseQrPayload('geo:48.2082,-16.3738,171;u=35?q=Vienna+Hbf');
+    expect(parsed.kind).toBe('geo');
+    expect(values(parsed)).toEqual({
+      latitude: '48.2082',
+      longitude: '-16.3738',
+      altitude: '171',
+      uncertainty: '35',
+      query: 'Vienna Hbf',
+    });
+  });
+
+  it('rejects empty or non-numeric coordinates', () => {
+    [
+      'geo:',
+      'geo:,',
+      'geo: , ',
+      'geo:48.2,',
+      'geo:,16.3',
+      'geo:abc,16.3',
+      'geo:0x10,16.3',
+      'geo:1e1,16.3',
+      'geo:Infinity,16.3',
+    ].forEach(raw => expect(parseQrPayload(raw).kind).toBe('text'));
+  });
+
+  it('rejects coordinates out of range', () => {
+    expect(parseQrPayload('geo:90.1,0').kind).toBe('text');
+    expect(parseQrPayload('geo:0,-180.5').kind).toBe('text');
+    expect(parseQrPayload('geo:-90,180').kind).toBe('geo');
+  });
+
+  it('ignores an empty altitude', () => {
+    expect(values(parseQrPayload('geo:1,2,'))).toEqual({
+      latitude: '1',
+      longitude: '2',
+    });
+  });
+});
+
+describe('email, phone and SMS', () => {
+  it('reads mailto recipients and query fields', () => {
+    expect(
+      values(
+        parseQrPayload(
+          'mailto:a%40example.com?cc=b@example.com&subject=Hi+there&body=a%26b',
+        ),
+      ),
+    ).toEqual({
+      to: 'a@example.com',
+      cc: 'b@example.com',
+      subject: 'Hi there',
+      body: 'a&b',
+    });
+  });
+
+  it('reads MATMSG bodies', () => {
+    const parsed = parseQrPayload('MATMSG:TO:a@example.com;SUB:Hi;BODY:x;;');
+    expect(parsed.kind).toBe('email');
+    expect(values(parsed)).toEqual({
+      to: 'a@example.com',
+      subject: 'Hi',
+      body: 'x',
+    });
+  });
+
+  it('keeps the plus of international numbers', () => {
+    expect(parseQrPayload('tel:+43%201%20234')).toEqual({
+      kind: 'phone',
+      fields: [{key: 'number', label: 'Number', value: '+43 1 234'}],
+    });
+  });
+
+  it('reads both SMS notations', () => {
+    expect(values(parseQrPayload('SMSTO:+1555:Hello: world'))).toEqual({
+      number: '+1555',
+      body: 'Hello: world',
+    });
+    expect(values(parseQrPayload('sms:+1555?body=Hello+world'))).toEqual({
+      number: '+1555',
+      body: 'Hello world',
+    });
+  });
+});
+
+describe('JSON', () => {
+  it('flattens object members and stringifies nested values', () => {
+    const parsed = parseQrPayload('{"id": 7, "name": "x", "tags": ["a"]}');
+    expect(parsed.kind).toBe('json');
+    expect(values(parsed)).toEqual({
+      'json.id': '7',
+      'json.name': 'x',
+      'json.tags': '["a"]',
+    });
+  });
+
+  it('summarises arrays', () => {
+    expect(values(parseQrPayload('[1, 2, 3]'))).toEqual({
+      type: 'array',
+      length: '3',
+    });
+  });
+
+  it('falls back to text when malformed', () => {
+    expect(parseQrPayload('{"id": ').kind).toBe('text');
+  });
+});
+
+describe('plain text', () => {
+  it('is reported without fields', () => {
+    expect(parseQrPayload('  just some words ')).toEqual({
+      kind: 'text',
+      fields: [],
+    });
+    expect(parseQrPayload('')).toEqual({kind: 'text', fields: []});
+  });
+});
@@ -0,0 +1,133 @@
+/* eslint-disable no-bitwise */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  adler32,
+  crc32,
+  encodeMonochromePng,
+  zlibStore,
+} from '../src/encoding/png';
+import {utf8Encode} from '../src/encoding/utf8';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  crc: number;
+  // Offset of the type field, where the CRC starts
+  crcStart: number;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]) >>>
+  0;
+
+const readChunks = (png: Uint8Array) => {
+  const chunks: Chunk[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = readUint32(png, offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crc: readUint32(png, offset + 8 + length),
+      crcStart: offset + 4,
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+// Concatenates the payloads of the stored deflate blocks
+const inflateStored = (stream: number[]) => {
+  const output: number[] = [];
+  let offset = 2;
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = (stream[offset] & 1) === 1;
+    const length = stream[offset + 1] | (stream[offset + 2] << 8);
+    const inverse = stream[offset + 3] | (stream[offset + 4] << 8);
+    expect(inverse).toBe(~length & 0xffff);
+    output.push(...stream.slice(offset + 5, offset + 5 + length));
+    offset += 5 + length;
+  }
+  expect(offset + 4).toBe(stream.length);
+  return output;
+};
+
+describe('checksums', () => {
+  it('match the standard check values', () => {
+    expect(crc32(utf8Encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32([])).toBe(0);
+    expect(adler32(utf8Encode('Wikipedia'))).toBe(0x11e60398);
+    expect(adler32([])).toBe(1);
+  });
+
+  it('checksums a slice of the input', () => {
+    const bytes = utf8Encode('xx123456789yy');
+    expect(crc32(bytes, 2, 11)).toBe(0xcbf43926);
+  });
+});
+
+describe('zlibStore', () => {
+  it('round-trips data across several stored blocks', () => {
+    const data = Array.from({length: 70000}, (_, i) => (i * 7) & 0xff);
+    const stream = zlibStore(data);
+    expect(stream.slice(0, 2)).toEqual([0x78, 0x01]);
+    // The header is a multiple of 31, as RFC 1950 requires
+    expect(((stream[0] << 8) | stream[1]) % 31).toBe(0);
+    expect(inflateStored(stream)).toEqual(data);
+    expect(readUint32(Uint8Array.from(stream), stream.length - 4)).toBe(
+      adler32(data),
+    );
+  });
+
+  it('writes one final empty block for empty input', () => {
+    expect(zlibStore([])).toEqual([
+      0x78, 0x01, 1, 0, 0, 0xff, 0xff, 0, 0, 0, 1,
+    ]);
+  });
+});
+
+describe('encodeMonochromePng', () => {
+  // 10 x 3 checkerboard, so rows need two bytes and a padded tail
+  const png = encodeMonochromePng(10, 3, (x, y) => (x + y) % 2 === 0);
+  const chunks = readChunks(png);
+
+  it('starts with the PNG signature', () => {
+    expect([...png.subarray(0, 8)]).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+  });
+
+  it('writes IHDR, IDAT and IEND in order', () => {
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+  });
+
+  it('describes a 1-bit greyscale image', () => {
+    const header = chunks[0].data;
+    expect(header).toHaveLength(13);
+    expect(readUint32(header, 0)).toBe(10);
+    expect(readUint32(header, 4)).toBe(3);
+    expect([...header.subarray(8)]).toEqual([1, 0, 0, 0, 0]);
+  });
+
+  it('stores a valid CRC for every chunk', () => {
+    chunks.forEach(chunk => {
+      expect(
+        crc32(png, chunk.crcStart, chunk.crcStart + 4 + chunk.data.length),
+      ).toBe(chunk.crc);
+    });
+    expect(chunks[2].crc).toBe(0xae426082);
+  });
+
+  it('packs rows with filter byte and white as 1', () => {
+    expect(inflateStored([...chunks[1].data])).toEqual([
+      0, 0b01010101, 0b01000000, 0, 0b10101010, 0b10000000, 0, 0b01010101,
+      0b01000000,
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import RNFS from 'react-native-fs';
+import {resolveStoragePath, UnsafePathError} from '../src/files/fileManager';
+import {
+  getPrivateItem,
+  privateItemPath,
+  removePrivateItem,
+  setPrivateItem,
+} from '../src/storage/privateStore';
+
+// In-memory stand-in for the few react-native-fs calls the store makes
+jest.mock('react-native-fs', () => {
+  const files = new Map<string, string>();
+  return {
+    DocumentDirectoryPath: '/app/Documents',
+    CachesDirectoryPath: '/app/Library/Caches',
+    LibraryDirectoryPath: '/app/Library',
+    mkdir: async () => {},
+    exists: async (path: string) => files.has(path),
+    readFile: async (path: string) => files.get(path),
+    writeFile: async (path: string, content: string) => {
+      files.set(path, content);
+    },
+    moveFile: async (from: string, to: string) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    unlink: async (path: string) => {
+      files.delete(path);
+    },
+  };
+});
+
+describe('private store', () => {
+  it('keeps items outside every storage root of the FS tab', () => {
+    expect(() => resolveStoragePath(privateItemPath('item'))).toThrow(
+      UnsafePathError,
+    );
+  });
+
+  it('reads back the latest write', async () => {
+    setPrivateItem('item', 'first');
+    setPrivateItem('item', 'second');
+    expect(await getPrivateItem('item')).toBe('second');
+    await removePrivateItem('item');
+    expect(await getPrivateItem('item')).toBeNull();
+  });
+
+  it('reads a write killed before the rename', async () => {
+    await RNFS.writeFile(`${privateItemPath('item')}.tmp`, 'pending', 'utf8');
+    expect(await getPrivateItem('item')).toBe('pending');
+  });
+});
@@ -0,0 +1,155 @@
+/* eslint-disable no-bitwise */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  addErrorCorrection,
+  encodeQrCode,
+  formatBits,
+  MAX_VERSION,
+  QrCapacityError,
+  QrCode,
+  selectMode,
+  versionBits,
+} from '../src/qr/qrEncoder';
+
+// Reads the format information copy around the top-left finder
+const readFormatBits = ({modules}: QrCode) => {
+  const positions: [number, number][] = [
+    [8, 0],
+    [8, 1],
+    [8, 2],
+    [8, 3],
+    [8, 4],
+    [8, 5],
+    [8, 7],
+    [8, 8],
+    [7, 8],
+    [5, 8],
+    [4, 8],
+    [3, 8],
+    [2, 8],
+    [1, 8],
+    [0, 8],
+  ];
+  return positions.reduce(
+    (bits, [x, y], i) => (modules[y][x] ? bits | (1 << i) : bits),
+    0,
+  );
+};
+
+// Reads the version information block left of the top-right finder
+const readVersionBits = ({modules, size}: QrCode) => {
+  let bits = 0;
+  for (let i = 0; i < 18; i++) {
+    if (modules[Math.floor(i / 3)][size - 11 + (i % 3)]) {
+      bits |= 1 << i;
+    }
+  }
+  return bits;
+};
+
+describe('encodeQrCode', () => {
+  it('picks version and mask for a fixed payload', () => {
+    const code = encodeQrCode('HELLO WORLD', 'Q');
+    expect(code).toMatchObject({
+      version: 1,
+      size: 21,
+      level: 'Q',
+      mode: 'alphanumeric',
+      mask: 6,
+    });
+    expect(code.modules).toHaveLength(21);
+    expect(code.modules.every(row => row.length === 21)).toBe(true);
+  });
+
+  it('grows the version with the payload', () => {
+    expect(encodeQrCode('https://example.com', 'M')).toMatchObject({
+      version: 2,
+      size: 25,
+      mode: 'byte',
+    });
+  });
+
+  it('uses a forced mask', () => {
+    expect(encodeQrCode('HELLO WORLD', 'Q', {mask: 3}).mask).toBe(3);
+  });
+
+  it('writes the format bits of the chosen level and mask', () => {
+    const code = encodeQrCode('HELLO WORLD', 'Q');
+    expect(readFormatBits(code)).toBe(formatBits('Q', code.mask));
+  });
+
+  it('writes version information from version 7 on', () => {
+    const code = encodeQrCode('A'.repeat(200), 'L');
+    expect(code.version).toBe(7);
+    expect(readVersionBits(code)).toBe(versionBits(7));
+  });
+
+  it('draws the three finder patterns', () => {
+    const {modules, size} = encodeQrCode('HELLO WORLD', 'Q');
+    [
+      [0, 0],
+      [size - 7, 0],
+      [0, size - 7],
+    ].forEach(([left, top]) => {
+      expect(modules[top][left]).toBe(true);
+      expect(modules[top + 1][left + 1]).toBe(false);
+      expect(modules[top + 3][left + 3]).toBe(true);
+    });
+  });
+});
+
+describe('formatBits and versionBits', () => {
+  it('match the ISO/IEC 18004 tables', () => {
+    expect(formatBits('L', 0)).toBe(0b111011111000100);
+    expect(formatBits('M', 0)).toBe(0b101010000010010);
+    expect(formatBits('Q', 0)).toBe(0b011010101011111);
+    expect(formatBits('H', 0)).toBe(0b001011010001001);
+    expect(formatBits('M', 5)).toBe(0b100000011001110);
+    expect(versionBits(7)).toBe(0x07c94);
+    expect(versionBits(8)).toBe(0x085bc);
+    expect(versionBits(40)).toBe(0x28c69);
+  });
+});
+
+describe('selectMode', () => {
+  it('prefers the most compact mode', () => {
+    expect(selectMode('0123456789')).toBe('numeric');
+    expect(selectMode('')).toBe('numeric');
+    expect(selectMode('HELLO WORLD $%*+-./:')).toBe('alphanumeric');
+    expect(selectMode('Hello world')).toBe('byte');
+    expect(selectMode('ÄÖÜ')).toBe('byte');
+  });
+
+  it('is reported by the encoder', () => {
+    expect(encodeQrCode('01234567').mode).toBe('numeric');
+    expect(encodeQrCode('AC-42').mode).toBe('alphanumeric');
+    expect(encodeQrCode('ac-42').mode).toBe('byte');
+  });
+});
+
+describe('addErrorCorrection', () => {
+  it('appends the Reed-Solomon codewords of a 1-M block', () => {
+    const data = [
+      32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17,
+    ];
+    const ecc = [196, 35, 39, 119, 235, 215, 231, 226, 93, 23];
+    expect(addErrorCorrection(data, 1, 'M')).toEqual([...data, ...ecc]);
+  });
+});
+
+describe('capacity', () => {
+  it('fits exactly the version 40 capacity', () => {
+    expect(encodeQrCode('1'.repeat(7089), 'L').version).toBe(MAX_VERSION);
+    expect(encodeQrCode('A'.repeat(4296), 'L').version).toBe(MAX_VERSION);
+    expect(encodeQrCode('a'.repeat(2953), 'L').version).toBe(MAX_VERSION);
+    expect(encodeQrCode('a'.repeat(1273), 'H').version).toBe(MAX_VERSION);
+  });
+
+  it('throws QrCapacityError one character beyond it', () => {
+    expect(() => encodeQrCode('1'.repeat(7090), 'L')).toThrow(QrCapacityError);
+    expect(() => encodeQrCode('A'.repeat(4297), 'L')).toThrow(QrCapacityError);
+    expect(() => encodeQrCode('a'.repeat(2954), 'L')).toThrow(QrCapacityError);
+    expect(() => encodeQrCode('a'.repeat(1274), 'H')).toThrow(QrCapacityError);
+  });
+});
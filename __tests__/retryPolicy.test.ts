@@ -0,0 +1,171 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {HttpStatusError, HttpTimeoutError} from '../src/network/httpRequest';
+import {
+  backoffDelay,
+  DEFAULT_RETRY_POLICY,
+  InvalidRetryPolicyError,
+  isRetryableError,
+  policyForMethod,
+  RetriesExhaustedError,
+  RetryAttempt,
+  RetryPolicy,
+  validateRetryPolicy,
+  withRetry,
+} from '../src/network/retryPolicy';
+
+// Pulled in by the request transport, which these tests never reach
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+const policy: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 3000,
+  jitter: false,
+  retryNonIdempotent: false,
+};
+
+// No waiting between attempts
+const immediate: RetryPolicy = {...policy, baseDelayMs: 0, maxDelayMs: 0};
+
+describe('backoffDelay', () => {
+  it('doubles per retry up to the cap', () => {
+    expect([1, 2, 3, 4, 5].map(retry => backoffDelay(policy, retry))).toEqual([
+      500, 1000, 2000, 3000, 3000,
+    ]);
+  });
+
+  it('keeps jittered delays between zero and the ceiling', () => {
+    const jittered = {...policy, jitter: true};
+    expect(backoffDelay(jittered, 3, () => 0)).toBe(0);
+    expect(backoffDelay(jittered, 3, () => 0.5)).toBe(1000);
+    expect(backoffDelay(jittered, 3, () => 0.9999)).toBe(2000);
+    for (let retry = 1; retry <= 10; retry++) {
+      const ceiling = Math.min(500 * 2 ** (retry - 1), 3000);
+      for (let i = 0; i < 50; i++) {
+        const delay = backoffDelay(jittered, retry);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(ceiling);
+      }
+    }
+  });
+});
+
+describe('validateRetryPolicy', () => {
+  it('accepts the default policy', () => {
+    expect(validateRetryPolicy(DEFAULT_RETRY_POLICY)).toBe(
+      DEFAULT_RETRY_POLICY,
+    );
+  });
+
+  it('rejects out-of-range values', () => {
+    [
+      {...policy, maxAttempts: 0},
+      {...policy, maxAttempts: 11},
+      {...policy, maxAttempts: 2.5},
+      {...policy, baseDelayMs: -1},
+      {...policy, maxDelayMs: 100},
+      {...policy, maxDelayMs: NaN},
+    ].forEach(invalid =>
+      expect(() => validateRetryPolicy(invalid)).toThrow(
+        InvalidRetryPolicyError,
+      ),
+    );
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries timeouts, network failures, 5xx, 408 and 429', () => {
+    expect(isRetryableError(new HttpTimeoutError(1000))).toBe(true);
+    expect(isRetryableError(new TypeError('Network request failed'))).toBe(
+      true,
+    );
+    expect(isRetryableError(new HttpStatusError(503, ''))).toBe(true);
+    expect(isRetryableError(new HttpStatusError(408, ''))).toBe(true);
+    expect(isRetryableError(new HttpStatusError(429, ''))).toBe(true);
+  });
+
+  it('does not retry other client errors', () => {
+    expect(isRetryableError(new HttpStatusError(404, 'Not Found'))).toBe(false);
+    expect(isRetryableError(new Error('bad input'))).toBe(false);
+  });
+});
+
+describe('policyForMethod', () => {
+  it('retries idempotent methods only by default', () => {
+    ['GET', 'head', 'PUT', 'DELETE'].forEach(method =>
+      expect(policyForMethod(policy, method)).toBe(policy),
+    );
+    ['POST', 'PATCH'].forEach(method =>
+      expect(policyForMethod(policy, method).enabled).toBe(false),
+    );
+  });
+
+  it('retries POST once the policy opts in', () => {
+    const optedIn = {...policy, retryNonIdempotent: true};
+    expect(policyForMethod(optedIn, 'POST')).toBe(optedIn);
+  });
+
+  it('sends a failing POST once', async () => {
+    let attempts = 0;
+    await expect(
+      withRetry(policyForMethod(immediate, 'POST'), async () => {
+        attempts++;
+        throw new HttpTimeoutError(1000);
+      }),
+    ).rejects.toBeInstanceOf(HttpTimeoutError);
+    expect(attempts).toBe(1);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the operation succeeds', async () => {
+    const retries: RetryAttempt[] = [];
+    const result = await withRetry(
+      immediate,
+      async attempt => {
+        if (attempt < 3) {
+          throw new HttpStatusError(502, 'Bad Gateway');
+        }
+        return `attempt ${attempt}`;
+      },
+      retry => retries.push(retry),
+    );
+    expect(result).toBe('attempt 3');
+    expect(retries.map(retry => retry.attempt)).toEqual([1, 2]);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    let attempts = 0;
+    const failure = withRetry(immediate, async () => {
+      attempts++;
+      throw new HttpTimeoutError(1000);
+    });
+    await expect(failure).rejects.toBeInstanceOf(RetriesExhaustedError);
+    await expect(failure).rejects.toMatchObject({attempts: 4});
+    expect(attempts).toBe(4);
+  });
+
+  it('throws non-retryable errors straight away', async () => {
+    let attempts = 0;
+    const error = new HttpStatusError(400, 'Bad Request');
+    await expect(
+      withRetry(immediate, async () => {
+        attempts++;
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(attempts).toBe(1);
+  });
+
+  it('makes a single attempt when disabled', async () => {
+    let attempts = 0;
+    await expect(
+      withRetry({...immediate, enabled: false}, async () => {
+        attempts++;
+        throw new HttpTimeoutError(1000);
+      }),
+    ).rejects.toBeInstanceOf(HttpTimeoutError);
+    expect(attempts).toBe(1);
+  });
+});
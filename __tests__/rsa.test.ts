@@ -0,0 +1,158 @@
+import {describe, expect, it} from '@jest/globals';
+import {decodeBase64} from '../src/encoding/base64';
+import {toHex} from '../src/encoding/hex';
+import {utf8Encode} from '../src/encoding/utf8';
+import {DerParseError, parseRsaPublicKeyDer} from '../src/crypto/der';
+import {verifyBiometricSignature, verifyRsaSha256} from '../src/crypto/rsa';
+import {sha256} from '../src/crypto/sha256';
+
+const PAYLOAD = 'nativebridge-challenge-1700000000';
+
+// RSA-2048 public key as X.509 SubjectPublicKeyInfo
+const SPKI_KEY = [
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAsVxCZqFpExOgVIufmB4m',
+  'oT9ke9RKRv01zwzV7ywQS7yIq48pRLhsxoHGkQeYZnchHdVmZkWILggCzZdIIf7+',
+  'BKxhaBJF/HCeEVOU+/93UqXg1zipiYmdKOZVRVhB7k/9apo+KQDGrN5jLBqHHwPA',
+  'mpheuxCSJt7nQtJEUtduNydSoRXVdatL9bC/L5DSuopS4QQcb56cdtz5zokQQ4D6',
+  'o1HJe5U0oFHMLlvqYzivhUW8GncoziTcmDdZhH03XoN/Aea9n8DERfVAFUL3ahf7',
+  'GAeKJlsapPNP6tSnrqvob1PxbEL1S7vhBYvQS87mi3GcisylLvIkrJW/zYbPWond',
+  'GQIDAQAB',
+].join('');
+
+// The same key as bare PKCS#1 RSAPublicKey
+const PKCS1_KEY = [
+  'MIIBCgKCAQEAsVxCZqFpExOgVIufmB4moT9ke9RKRv01zwzV7ywQS7yIq48pRLhs',
+  'xoHGkQeYZnchHdVmZkWILggCzZdIIf7+BKxhaBJF/HCeEVOU+/93UqXg1zipiYmd',
+  'KOZVRVhB7k/9apo+KQDGrN5jLBqHHwPAmpheuxCSJt7nQtJEUtduNydSoRXVdatL',
+  '9bC/L5DSuopS4QQcb56cdtz5zokQQ4D6o1HJe5U0oFHMLlvqYzivhUW8GncoziTc',
+  'mDdZhH03XoN/Aea9n8DERfVAFUL3ahf7GAeKJlsapPNP6tSnrqvob1PxbEL1S7vh',
+  'BYvQS87mi3GcisylLvIkrJW/zYbPWondGQIDAQAB',
+].join('');
+
+// SHA256withRSA signature of PAYLOAD with that key
+const SIGNATURE = [
+  'aX6mko/1mWSYVbNo5Ju70rZFOky1GT5fQ1Q1ORhjSJbN0bdKK/JcrwFzJH8RfEmw',
+  'dQJa/3Qi8Y2+XFsgtdQbKFvFWCSsglYQwoafc6vXyc315Z8+AgPtp9t69/cgA15q',
+  'ujOkGbKRNKL2DkH5wu1QJYlq45yJatHcylDgmOgNsDqoSNJoAUXaYEntmjfqIJvq',
+  'WsQWgKXIl77Uup3TpACp/btGyM1p0qESNLewOm2GkvXuS0Hv6FE0bdle6hSvXsgn',
+  '6FWWxCQCLgNUEBuUIs2O+xKsitLcIhL84dsmFNRtHeTbLwQlIIqX44vzB80kA5Xj',
+  '2X0wcirN5KUCIfN6IC1ZMw==',
+].join('');
+
+// An unrelated RSA-2048 key
+const OTHER_KEY = [
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAil3vgEYx7FxoLi63DsVy',
+  'H8BwIVW97eDL/k3naM3tUwkA/Xkj750kxzjXo93HPlML66sDvxJ0vvNhnLPYgOY1',
+  'neaW1x3GZzeO530OE3HHyURB410dlW/5vfBX4ZqAii2r/VeJ7R/ZnPO4S8p9S9Lf',
+  'ahjAnYoGC/ukXrNtHEn1JlgyIwrjbkWOQi5YkfzHgPdk2/1GzkaxdorwDMHPgcJo',
+  '1lai4kdsEin/EXOGXKgelsge3IsYetE2DeqwY5SfM3xwUraBslaFCgPL0WVYl1tw',
+  't3z6PDqhhgxko+f+o57Vj114SyRRyaWHAI/59EUkxAn1mMyLhMM3EYusd/suSQNi',
+  'xQIDAQAB',
+].join('');
+
+const hash = (text: string) => toHex(sha256(utf8Encode(text)));
+
+describe('sha256', () => {
+  it('matches the FIPS 180-4 examples', () => {
+    expect(hash('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+    expect(
+      hash('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'),
+    ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    expect(
+      hash(
+        'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmn' +
+          'hijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+      ),
+    ).toBe('cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1');
+  });
+
+  it('hashes the empty message and one million "a"', () => {
+    expect(hash('')).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    );
+    expect(hash('a'.repeat(1000000))).toBe(
+      'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0',
+    );
+  });
+});
+
+describe('parseRsaPublicKeyDer', () => {
+  it('reads SubjectPublicKeyInfo and PKCS#1 keys alike', () => {
+    const spki = parseRsaPublicKeyDer(decodeBase64(SPKI_KEY));
+    const pkcs1 = parseRsaPublicKeyDer(decodeBase64(PKCS1_KEY));
+    expect(spki.bits).toBe(2048);
+    expect(spki.exponent).toBe(BigInt(65537));
+    expect(pkcs1).toEqual(spki);
+  });
+
+  it('rejects an element that overruns the input', () => {
+    expect(() =>
+      parseRsaPublicKeyDer(Uint8Array.from([0x30, 0x05, 0x02, 0x01, 0x01])),
+    ).toThrow(DerParseError);
+    expect(() =>
+      parseRsaPublicKeyDer(Uint8Array.from([0x30, 0x82, 0xff, 0xff, 0x02])),
+    ).toThrow(/overruns the input/);
+  });
+
+  it('rejects a truncated key', () => {
+    const der = decodeBase64(SPKI_KEY);
+    expect(() => parseRsaPublicKeyDer(der.subarray(0, der.length - 1))).toThrow(
+      DerParseError,
+    );
+  });
+
+  it('rejects trailing data', () => {
+    const der = decodeBase64(PKCS1_KEY);
+    expect(() =>
+      parseRsaPublicKeyDer(Uint8Array.from([...der, 0x05, 0x00])),
+    ).toThrow(DerParseError);
+  });
+});
+
+describe('verifyRsaSha256', () => {
+  it('accepts a valid signature with either key format', () => {
+    expect(
+      verifyBiometricSignature(SPKI_KEY, PAYLOAD, SIGNATURE),
+    ).toMatchObject({
+      valid: true,
+      digest: hash(PAYLOAD),
+    });
+    expect(verifyBiometricSignature(PKCS1_KEY, PAYLOAD, SIGNATURE).valid).toBe(
+      true,
+    );
+  });
+
+  it('rejects a tampered message', () => {
+    const result = verifyBiometricSignature(SPKI_KEY, `${PAYLOAD}!`, SIGNATURE);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe(
+      `Digest mismatch: signature covers ${hash(PAYLOAD)}`,
+    );
+  });
+
+  it('rejects a tampered signature', () => {
+    const key = parseRsaPublicKeyDer(decodeBase64(SPKI_KEY));
+    const signature = decodeBase64(SIGNATURE);
+    signature[100] = signature[100] === 0 ? 1 : 0;
+    const result = verifyRsaSha256(key, utf8Encode(PAYLOAD), signature);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/Invalid PKCS#1 v1.5 padding/);
+  });
+
+  it('rejects a signature from another key', () => {
+    expect(verifyBiometricSignature(OTHER_KEY, PAYLOAD, SIGNATURE).valid).toBe(
+      false,
+    );
+  });
+
+  it('rejects a signature of the wrong length', () => {
+    const key = parseRsaPublicKeyDer(decodeBase64(SPKI_KEY));
+    const signature = decodeBase64(SIGNATURE).subarray(1);
+    expect(verifyRsaSha256(key, utf8Encode(PAYLOAD), signature)).toMatchObject({
+      valid: false,
+      reason: 'Signature is 255 bytes, expected 256 for RSA-2048',
+    });
+  });
+});
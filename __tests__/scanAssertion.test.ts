@@ -0,0 +1,57 @@
+import {describe, expect, it} from '@jest/globals';
+import {assertQrPayload} from '../src/qr/scanAssertion';
+
+describe('assertQrPayload', () => {
+  it('passes an exact match', () => {
+    expect(assertQrPayload('HELLO', 'HELLO')).toEqual({
+      expected: 'HELLO',
+      pass: true,
+      reason: 'Exact match (5 chars)',
+    });
+    expect(assertQrPayload('', '').pass).toBe(true);
+  });
+
+  it('fails whitespace and case differences with their own reason', () => {
+    expect(assertQrPayload('HELLO', 'HELLO\n')).toEqual({
+      expected: 'HELLO',
+      pass: false,
+      reason: 'Differs only in leading/trailing whitespace',
+    });
+    expect(assertQrPayload('HELLO', 'Hello').reason).toBe(
+      'Differs only in letter case',
+    );
+  });
+
+  it('reports extra chars after the expected value', () => {
+    expect(assertQrPayload('abc', 'abcdef').reason).toBe(
+      'Scanned 3 extra chars after the expected value: "abcdef"',
+    );
+  });
+
+  it('reports a value that ends early', () => {
+    expect(assertQrPayload('abcdef', 'abc').reason).toBe(
+      'Scanned value ends after 3 of 6 expected chars',
+    );
+  });
+
+  it('shows the first difference with escaped excerpts', () => {
+    expect(assertQrPayload('a\tb', 'a b').reason).toBe(
+      'First difference at char 1: expected "a\\tb", got "a b"',
+    );
+  });
+
+  it('trims long excerpts around the difference', () => {
+    const prefix = 'x'.repeat(20);
+    const suffix = 'y'.repeat(20);
+    expect(
+      assertQrPayload(`${prefix}A${suffix}`, `${prefix}B${suffix}`),
+    ).toEqual({
+      expected: `${prefix}A${suffix}`,
+      pass: false,
+      reason:
+        'First difference at char 20: ' +
+        `expected …"${'x'.repeat(12)}A${'y'.repeat(11)}"…, ` +
+        `got …"${'x'.repeat(12)}B${'y'.repeat(11)}"…`,
+    });
+  });
+});
@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+/**
+ * NativeBridge WebSocket Echo Stand-in Server
+ *
+ * Minimal RFC 6455 server for the Network tab's WebSocket panel. Sends every
+ * text and binary frame back unchanged and answers pings. Optionally drops a
+ * share of the frames and delays the rest, so the panel's round-trip and
+ * drop counters can be checked against known conditions.
+ *
+ *   node scripts/echo-server.js [port] [drop percent] [delay ms]
+ *
+ * From the Android emulator the host is reachable as 10.0.2.2; on a real
+ * device use `adb reverse tcp:8090 tcp:8090` and ws://127.0.0.1:8090.
+ */
+
+/* eslint-disable no-bitwise */
+
+const {Buffer} = require('buffer');
+const crypto = require('crypto');
+const http = require('http');
+
+const port = Number(process.argv[2]) || 8090;
+const dropPercent = Number(process.argv[3]) || 0;
+const delayMs = Number(process.argv[4]) || 0;
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE = {
+  continuation: 0,
+  text: 1,
+  binary: 2,
+  close: 8,
+  ping: 9,
+  pong: 10,
+};
+
+// Server frames are never masked
+const encodeFrame = (finAndOpcode, payload) => {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([finAndOpcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt16BE(payload.length, 2);
+    header[1] = 126;
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt32BE(Math.floor(payload.length / 2 ** 32), 2);
+    header.writeUInt32BE(payload.length % 2 ** 32, 6);
+    header[1] = 127;
+  }
+  header[0] = finAndOpcode;
+  return Buffer.concat([header, payload]);
+};
+
+// Returns the first complete frame in the buffer and its length, or null
+const decodeFrame = buffer => {
+  if (buffer.length < 2) {
+    return null;
+  }
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return null;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return null;
+    }
+    length = buffer.readUInt32BE(2) * 2 ** 32 + buffer.readUInt32BE(6);
+    offset = 10;
+  }
+  const masked = (buffer[1] & 0x80) !== 0;
+  const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+  offset += masked ? 4 : 0;
+  if (buffer.length < offset + length) {
+    return null;
+  }
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (mask) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+  }
+  return {
+    finAndOpcode: buffer[0] & 0x8f,
+    opcode: buffer[0] & 0x0f,
+    payload,
+    size: offset + length,
+  };
+};
+
+const server = http.createServer((request, response) => {
+  response.writeHead(426, {'Content-Type': 'text/plain'});
+  response.end('WebSocket upgrade required\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key || (request.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto
+    .createHash('sha1')
+    .update(key + HANDSHAKE_GUID)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+  const stats = {received: 0, echoed: 0, dropped: 0};
+  let buffer = Buffer.alloc(0);
+  console.log(`${peer} connected (${request.url})`);
+
+  const send = (finAndOpcode, payload) => {
+    if (!socket.destroyed) {
+      socket.write(encodeFrame(finAndOpcode, payload));
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let frame;
+    while ((frame = decodeFrame(buffer))) {
+      buffer = buffer.subarray(frame.size);
+      const {finAndOpcode, opcode, payload} = frame;
+      if (opcode === OPCODE.close) {
+        // Echo the status code back and hang up
+        send(0x80 | OPCODE.close, payload.subarray(0, 2));
+        socket.end();
+        return;
+      }
+      if (opcode === OPCODE.ping) {
+        send(0x80 | OPCODE.pong, payload);
+        continue;
+      }
+      if (opcode === OPCODE.pong) {
+        continue;
+      }
+      stats.received++;
+      // Only whole messages are dropped; a lost fragment would corrupt one
+      const unfragmented =
+        (finAndOpcode & 0x80) !== 0 && opcode !== OPCODE.continuation;
+      if (unfragmented && Math.random() * 100 < dropPercent) {
+        stats.dropped++;
+        continue;
+      }
+      stats.echoed++;
+      if (delayMs > 0) {
+        setTimeout(() => send(finAndOpcode, payload), delayMs);
+      } else {
+        send(finAndOpcode, payload);
+      }
+    }
+  });
+  socket.on('error', () => {});
+  socket.on('close', () => {
+    console.log(`${peer} disconnected ${JSON.stringify(stats)}`);
+  });
+});
+
+server.listen(port, () => {
+  console.log(
+    `Echo stand-in server listening on port ${port}` +
+      ` (drop ${dropPercent}%, delay ${delayMs}ms)`,
+  );
+});
@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+/**
+ * NativeBridge Upload Stand-in Server
+ *
+ * Minimal multipart/form-data receiver for the Files tab upload. Answers
+ * every POST/PUT with the parts it received, including the size and SHA-256
+ * of each file, so a test can compare them with the device-side checksums.
+ *
+ *   node scripts/upload-server.js [port]
+ *
+ * From the Android emulator the host is reachable as 10.0.2.2; on a real
+ * device use `adb reverse tcp:8080 tcp:8080` and http://127.0.0.1:8080.
+ */
+
+const {Buffer} = require('buffer');
+const crypto = require('crypto');
+const http = require('http');
+
+const port = Number(process.argv[2]) || 8080;
+
+const parseMultipart = (body, boundary) => {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) {
+      break;
+    }
+    // Each part: CRLF, headers, blank line, content, CRLF before the delimiter
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const content = part.subarray(headerEnd + 4);
+      const name = /name="([^"]*)"/i.exec(headers);
+      const filename = /filename="([^"]*)"/i.exec(headers);
+      const type = /content-type:\s*(.+)/i.exec(headers);
+      parts.push(
+        filename
+          ? {
+              field: name && name[1],
+              filename: filename[1],
+              type: type ? type[1].trim() : null,
+              bytes: content.length,
+              sha256: crypto.createHash('sha256').update(content).digest('hex'),
+            }
+          : {field: name && name[1], value: content.toString('utf8')},
+      );
+    }
+    start = next;
+  }
+  return parts;
+};
+
+http
+  .createServer((request, response) => {
+    const startTime = Date.now();
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(
+        request.headers['content-type'] || '',
+      );
+      const parts = boundary
+        ? parseMultipart(body, boundary[1] || boundary[2])
+        : [];
+      const result = {
+        method: request.method,
+        url: request.url,
+        receivedBytes: body.length,
+        durationMs: Date.now() - startTime,
+        parts,
+      };
+      console.log(JSON.stringify(result));
+
+      const ok = ['POST', 'PUT'].includes(request.method);
+      response.writeHead(ok ? 200 : 405, {'Content-Type': 'application/json'});
+      response.end(JSON.stringify(ok ? result : {error: 'Use POST or PUT'}));
+    });
+  })
+  .listen(port, () => {
+    console.log(`Upload stand-in server listening on port ${port}`);
+  });
@@ -0,0 +1,239 @@
+/**
+ * NativeBridge Clipboard Monitor
+ *
+ * Records every clipboard change seen while the app is in the foreground,
+ * classified by content type and fingerprinted (length, code points, UTF-8
+ * size, SHA-256), so host-to-device clipboard sync can be checked for timing
+ * and fidelity. Android 10+ only lets the focused app read the clipboard, so
+ * changes made while backgrounded are picked up when the app resumes.
+ */
+
+import {AppState} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import {sha256} from '../crypto/sha256';
+import {toHex} from '../encoding/hex';
+import {utf8Encode} from '../encoding/utf8';
+
+export type ClipboardContentType =
+  | 'empty'
+  | 'url'
+  | 'email'
+  | 'phone'
+  | 'json'
+  | 'multiline'
+  | 'text';
+
+// How the change was noticed
+export type ClipboardChangeSource = 'listener' | 'resume' | 'read' | 'app';
+
+export interface ClipboardFingerprint {
+  type: ClipboardContentType;
+  // UTF-16 code units, as String.length counts them
+  length: number;
+  codePoints: number;
+  utf8Bytes: number;
+  sha256: string;
+}
+
+export interface ClipboardEntry extends ClipboardFingerprint {
+  id: number;
+  text: string;
+  // Epoch milliseconds
+  at: number;
+  source: ClipboardChangeSource;
+  // For the app's own copies: time from setString to the change event
+  latencyMs?: number;
+}
+
+export interface ClipboardPreset {
+  id: string;
+  label: string;
+  text: () => string;
+}
+
+export const CLIPBOARD_TYPE_LABELS: Record<ClipboardContentType, string> = {
+  empty: 'Empty',
+  url: 'URL',
+  email: 'Email',
+  phone: 'Phone',
+  json: 'JSON',
+  multiline: 'Multiline',
+  text: 'Text',
+};
+
+export const MAX_CLIPBOARD_HISTORY = 100;
+
+// Android reports resume before the window regains focus, and reads
+// without focus come back empty
+const RESUME_READ_DELAY_MS = 300;
+
+// Own copies whose change event arrives later are no longer matched
+const APP_COPY_MATCH_MS = 5000;
+
+const repeatToLength = (unit: string, length: number) =>
+  unit.repeat(Math.ceil(length / unit.length)).slice(0, length);
+
+export const CLIPBOARD_PRESETS: ClipboardPreset[] = [
+  {
+    id: 'url',
+    label: 'URL',
+    text: () => 'https://example.com/path?query=1&lang=en#section',
+  },
+  {id: 'email', label: 'Email', text: () => 'qa.tester+clip@example.com'},
+  {id: 'phone', label: 'Phone', text: () => '+1 (555) 010-4477'},
+  {
+    id: 'json',
+    label: 'JSON',
+    text: () =>
+      JSON.stringify({id: 42, name: 'NativeBridge', tags: ['a', 'b']}, null, 2),
+  },
+  {
+    id: 'multiline',
+    label: 'Multiline',
+    text: () => 'first line\nsecond line\r\nthird line\n\ttabbed',
+  },
+  {
+    id: 'emoji',
+    label: 'Emoji',
+    text: () => 'Emoji 😀 👍🏽 👩‍👩‍👧‍👦 🇩🇪 ❤️ 𝄞',
+  },
+  {
+    id: 'rtl',
+    label: 'RTL',
+    text: () => 'مرحبا بالعالم — שלום עולם — mixed English עברית 123',
+  },
+  {
+    id: 'long-10k',
+    label: '10K chars',
+    text: () => repeatToLength('0123456789abcdef', 10 * 1024),
+  },
+  // Close to the binder transaction limit once encoded
+  {
+    id: 'long-200k',
+    label: '200K chars',
+    text: () => repeatToLength('NativeBridge clipboard ✓ ', 200 * 1024),
+  },
+];
+
+const EMAIL_PATTERN = /^(mailto:)?[^\s@]+@[^\s@]+\.[^\s@]+$/i;
+const URL_PATTERN = /^[a-z][a-z\d+.-]*:\/\/\S+$/i;
+const PHONE_PATTERN = /^(tel:)?\+?[\d\s().-]+$/i;
+
+const looksLikeJson = (text: string) => {
+  if (!/^[[{]/.test(text)) {
+    return false;
+  }
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectClipboardContentType = (
+  text: string,
+): ClipboardContentType => {
+  const trimmed = text.trim();
+  if (trimmed === '') {
+    return text === '' ? 'empty' : 'text';
+  }
+  if (looksLikeJson(trimmed)) {
+    return 'json';
+  }
+  if (URL_PATTERN.test(trimmed)) {
+    return 'url';
+  }
+  if (EMAIL_PATTERN.test(trimmed)) {
+    return 'email';
+  }
+  if (PHONE_PATTERN.test(trimmed) && trimmed.replace(/\D/g, '').length >= 7) {
+    return 'phone';
+  }
+  if (/[\r\n]/.test(trimmed)) {
+    return 'multiline';
+  }
+  return 'text';
+};
+
+export const fingerprintClipboardText = (
+  text: string,
+): ClipboardFingerprint => {
+  const bytes = utf8Encode(text);
+  return {
+    type: detectClipboardContentType(text),
+    length: text.length,
+    codePoints: Array.from(text).length,
+    utf8Bytes: bytes.length,
+    sha256: toHex(sha256(bytes)),
+  };
+};
+
+// Starts listening at once; stop() removes the listeners
+export const createClipboardMonitor = (
+  onEntry: (entry: ClipboardEntry) => void,
+) => {
+  let nextId = 1;
+  let lastText: string | null = null;
+  let appCopy: {text: string; at: number} | null = null;
+  let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Records the current content when it differs from the last seen one;
+  // forced reads are recorded regardless
+  const check = async (source: ClipboardChangeSource, force = false) => {
+    const text = await Clipboard.getString();
+    const at = Date.now();
+    const ownCopy =
+      appCopy !== null &&
+      appCopy.text === text &&
+      at - appCopy.at <= APP_COPY_MATCH_MS
+        ? appCopy
+        : null;
+    // Copying the current content again still counts as a change
+    if (text === lastText && !force && !ownCopy) {
+      return null;
+    }
+    lastText = text;
+    if (ownCopy) {
+      appCopy = null;
+    }
+
+    const entry: ClipboardEntry = {
+      id: nextId++,
+      text,
+      at,
+      source: ownCopy ? 'app' : source,
+      latencyMs: ownCopy ? at - ownCopy.at : undefined,
+      ...fingerprintClipboardText(text),
+    };
+    onEntry(entry);
+    return entry;
+  };
+
+  const changeSubscription = Clipboard.addListener(() => {
+    check('listener').catch(() => {});
+  });
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      resumeTimer = setTimeout(() => {
+        check('resume').catch(() => {});
+      }, RESUME_READ_DELAY_MS);
+    }
+  });
+
+  return {
+    check,
+    // The change event that follows is attributed to the app, with latency
+    copy: (text: string) => {
+      appCopy = {text, at: Date.now()};
+      Clipboard.setString(text);
+    },
+    stop: () => {
+      changeSubscription.remove();
+      appStateSubscription.remove();
+      if (resumeTimer) {
+        clearTimeout(resumeTimer);
+      }
+    },
+  };
+};
@@ -0,0 +1,150 @@
+/**
+ * NativeBridge DER Reader
+ *
+ * Just enough ASN.1 DER parsing to read the RSA public keys returned by
+ * react-native-biometrics: X.509 SubjectPublicKeyInfo on both platforms,
+ * with bare PKCS#1 RSAPublicKey accepted as well.
+ */
+
+import {toHex} from '../encoding/hex';
+
+export interface RsaPublicKey {
+  modulus: bigint;
+  exponent: bigint;
+  // Modulus length in bits, e.g. 2048
+  bits: number;
+}
+
+export class DerParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DerParseError';
+  }
+}
+
+const TAG_INTEGER = 0x02;
+const TAG_BIT_STRING = 0x03;
+const TAG_NULL = 0x05;
+const TAG_OBJECT_IDENTIFIER = 0x06;
+const TAG_SEQUENCE = 0x30;
+
+// 1.2.840.113549.1.1.1
+const RSA_ENCRYPTION_OID = '2a864886f70d010101';
+
+interface DerElement {
+  tag: number;
+  // Content bytes, without tag and length
+  content: Uint8Array;
+}
+
+// Splits a byte range into its consecutive top-level elements
+const readElements = (bytes: Uint8Array): DerElement[] => {
+  const elements: DerElement[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    if (offset + 2 > bytes.length) {
+      throw new DerParseError(`Truncated element header at byte ${offset}`);
+    }
+    const tag = bytes[offset];
+    let length = bytes[offset + 1];
+    offset += 2;
+    if (length > 0x80) {
+      const lengthBytes = length - 0x80;
+      if (lengthBytes > 4 || offset + lengthBytes > bytes.length) {
+        throw new DerParseError(`Unsupported length at byte ${offset}`);
+      }
+      length = 0;
+      for (let i = 0; i < lengthBytes; i++) {
+        length = length * 256 + bytes[offset + i];
+      }
+      offset += lengthBytes;
+    } else if (length === 0x80) {
+      throw new DerParseError('Indefinite lengths are not allowed in DER');
+    }
+    if (offset + length > bytes.length) {
+      throw new DerParseError(
+        `Element at byte ${offset} overruns the input (${length} bytes)`,
+      );
+    }
+    elements.push({tag, content: bytes.subarray(offset, offset + length)});
+    offset += length;
+  }
+  return elements;
+};
+
+const expectTag = (element: DerElement | undefined, tag: number) => {
+  if (!element || element.tag !== tag) {
+    throw new DerParseError(
+      `Expected tag 0x${tag.toString(16)}, found ${
+        element ? `0x${element.tag.toString(16)}` : 'end of input'
+      }`,
+    );
+  }
+  return element.content;
+};
+
+const readSingle = (bytes: Uint8Array, tag: number) => {
+  const elements = readElements(bytes);
+  if (elements.length !== 1) {
+    throw new DerParseError(
+      `Expected one element, found ${elements.length} (trailing data?)`,
+    );
+  }
+  return expectTag(elements[0], tag);
+};
+
+// Unsigned big-endian integer, as used for RSA modulus and exponent
+export const bytesToBigInt = (bytes: ArrayLike<number>) => {
+  let value = BigInt(0);
+  for (let i = 0; i < bytes.length; i++) {
+    value = value * BigInt(256) + BigInt(bytes[i]);
+  }
+  return value;
+};
+
+// RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+const parseRsaPublicKey = (bytes: Uint8Array): RsaPublicKey => {
+  const [modulusElement, exponentElement] = readElements(
+    readSingle(bytes, TAG_SEQUENCE),
+  );
+  let modulusBytes = expectTag(modulusElement, TAG_INTEGER);
+  const exponentBytes = expectTag(exponentElement, TAG_INTEGER);
+
+  // Drop the sign byte DER adds when the top bit is set
+  while (modulusBytes.length > 1 && modulusBytes[0] === 0) {
+    modulusBytes = modulusBytes.subarray(1);
+  }
+  const modulus = bytesToBigInt(modulusBytes);
+  return {
+    modulus,
+    exponent: bytesToBigInt(exponentBytes),
+    bits: modulus.toString(2).length,
+  };
+};
+
+// SubjectPublicKeyInfo ::= SEQUENCE {
+//   algorithm SEQUENCE { OID, parameters },
+//   subjectPublicKey BIT STRING }
+export const parseRsaPublicKeyDer = (der: Uint8Array): RsaPublicKey => {
+  const [first, second] = readElements(readSingle(der, TAG_SEQUENCE));
+
+  // PKCS#1 key: the outer sequence starts with the modulus
+  if (first?.tag === TAG_INTEGER) {
+    return parseRsaPublicKey(der);
+  }
+
+  const [oidElement, parameters] = readElements(expectTag(first, TAG_SEQUENCE));
+  const oid = toHex(expectTag(oidElement, TAG_OBJECT_IDENTIFIER));
+  if (oid !== RSA_ENCRYPTION_OID) {
+    throw new DerParseError(`Not an RSA key (algorithm OID ${oid})`);
+  }
+  if (parameters && parameters.tag !== TAG_NULL) {
+    throw new DerParseError('Unexpected RSA algorithm parameters');
+  }
+
+  const bitString = expectTag(second, TAG_BIT_STRING);
+  if (bitString[0] !== 0) {
+    throw new DerParseError(`Key bit string has ${bitString[0]} unused bits`);
+  }
+  return parseRsaPublicKey(bitString.subarray(1));
+};
@@ -0,0 +1,139 @@
+/**
+ * NativeBridge RSA Verification
+ *
+ * Verifies RSASSA-PKCS1-v1_5 SHA-256 signatures (RFC 8017), the scheme
+ * react-native-biometrics signs with on Android (SHA256withRSA) and iOS
+ * (RSASignatureMessagePKCS1v15SHA256). Uses BigInt, which Hermes supports.
+ */
+
+import {decodeBase64} from '../encoding/base64';
+import {toHex} from '../encoding/hex';
+import {utf8Encode} from '../encoding/utf8';
+import {bytesToBigInt, parseRsaPublicKeyDer, RsaPublicKey} from './der';
+import {sha256} from './sha256';
+
+export interface SignatureVerification {
+  valid: boolean;
+  reason: string;
+  // Hex SHA-256 of the signed payload
+  digest: string;
+}
+
+// DER DigestInfo prefix for SHA-256, followed by the 32-byte digest
+const SHA256_DIGEST_INFO = [
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04,
+  0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+];
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+export const modPow = (base: bigint, exponent: bigint, modulus: bigint) => {
+  let result = ONE;
+  let power = base % modulus;
+  let remaining = exponent;
+  while (remaining > ZERO) {
+    if (remaining % TWO === ONE) {
+      result = (result * power) % modulus;
+    }
+    power = (power * power) % modulus;
+    remaining /= TWO;
+  }
+  return result;
+};
+
+const bigIntToBytes = (value: bigint, length: number) => {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining % BigInt(256));
+    remaining /= BigInt(256);
+  }
+  return bytes;
+};
+
+// EMSA-PKCS1-v1_5: 00 01 FF..FF 00 DigestInfo digest
+const encodeMessage = (digest: Uint8Array, length: number) => {
+  const padding = length - 3 - SHA256_DIGEST_INFO.length - digest.length;
+  return [
+    0x00,
+    0x01,
+    ...new Array<number>(padding).fill(0xff),
+    0x00,
+    ...SHA256_DIGEST_INFO,
+    ...digest,
+  ];
+};
+
+// Says which part of the recovered block is wrong, for the FAIL reason
+const describeMismatch = (recovered: Uint8Array) => {
+  const separator = recovered.indexOf(0x00, 2);
+  const paddingValid =
+    recovered[0] === 0x00 &&
+    recovered[1] === 0x01 &&
+    separator >= 10 &&
+    recovered.subarray(2, separator).every(byte => byte === 0xff);
+  if (!paddingValid) {
+    return 'Invalid PKCS#1 v1.5 padding (wrong key or corrupted signature)';
+  }
+
+  const digestInfo = recovered.subarray(separator + 1);
+  if (
+    digestInfo.length !== SHA256_DIGEST_INFO.length + 32 ||
+    SHA256_DIGEST_INFO.some((byte, i) => digestInfo[i] !== byte)
+  ) {
+    return 'Signature was not made with SHA-256';
+  }
+  return `Digest mismatch: signature covers ${toHex(
+    digestInfo.subarray(SHA256_DIGEST_INFO.length),
+  )}`;
+};
+
+export const verifyRsaSha256 = (
+  key: RsaPublicKey,
+  message: ArrayLike<number>,
+  signature: Uint8Array,
+): SignatureVerification => {
+  const digestBytes = sha256(message);
+  const digest = toHex(digestBytes);
+  const length = Math.ceil(key.bits / 8);
+  const fail = (reason: string) => ({valid: false, reason, digest});
+
+  if (length < SHA256_DIGEST_INFO.length + digestBytes.length + 11) {
+    return fail(`RSA-${key.bits} key is too short for SHA-256`);
+  }
+  if (signature.length !== length) {
+    return fail(
+      `Signature is ${signature.length} bytes, expected ${length} for RSA-${key.bits}`,
+    );
+  }
+  const s = bytesToBigInt(signature);
+  if (s >= key.modulus) {
+    return fail('Signature value is out of range for the key modulus');
+  }
+
+  const recovered = bigIntToBytes(modPow(s, key.exponent, key.modulus), length);
+  const expected = encodeMessage(digestBytes, length);
+  if (expected.every((byte, i) => recovered[i] === byte)) {
+    return {
+      valid: true,
+      reason: `Valid RSA-${key.bits} PKCS#1 v1.5 SHA-256 signature`,
+      digest,
+    };
+  }
+  return fail(describeMismatch(recovered));
+};
+
+// Verifies a base64 signature over a UTF-8 payload with a base64 DER key,
+// the formats react-native-biometrics works in
+export const verifyBiometricSignature = (
+  publicKeyBase64: string,
+  payload: string,
+  signatureBase64: string,
+) =>
+  verifyRsaSha256(
+    parseRsaPublicKeyDer(decodeBase64(publicKeyBase64)),
+    utf8Encode(payload),
+    decodeBase64(signatureBase64),
+  );
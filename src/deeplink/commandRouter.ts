@@ -0,0 +1,130 @@
+/**
+ * NativeBridge Deep-Link Command Router
+ *
+ * Lets automation drive the app with a single intent instead of long tap
+ * sequences:
+ *
+ *   adb shell am start -W -a android.intent.action.VIEW \
+ *     -d "nativebridge://tab/network" com.nativebridge.io
+ *
+ * URLs have the form `nativebridge://<command>[/<value>][?key=value&...]`.
+ * The optional path segment is shorthand for the command's primary argument,
+ * so `nativebridge://tab/network` equals `nativebridge://tab?id=network`.
+ * Every dispatch result is reported through the event log (DEEPLINK).
+ */
+
+import {logEvent} from '../logging/eventLog';
+
+export const DEEP_LINK_SCHEME = 'nativebridge';
+
+export type CommandArgs = Record<string, string>;
+
+export interface DeepLinkCommand {
+  name: string;
+  args: CommandArgs;
+}
+
+export interface CommandDefinition {
+  // Argument filled from the URL path segment, if any
+  primaryArg?: string;
+  // Arguments that must be present for the command to run
+  requiredArgs?: string[];
+  // Returns a short human-readable result for the event log
+  run: (args: CommandArgs) => Promise<string | void> | string | void;
+}
+
+export type CommandTable = Record<string, CommandDefinition>;
+
+export class DeepLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeepLinkError';
+  }
+}
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+// Parses the URL by hand: the URL polyfill shipped with React Native does
+// not implement searchParams
+export const parseDeepLink = (url: string): DeepLinkCommand => {
+  const prefix = `${DEEP_LINK_SCHEME}://`;
+  if (!url.toLowerCase().startsWith(prefix)) {
+    throw new DeepLinkError(`Not a ${prefix} URL: ${url}`);
+  }
+
+  const withoutScheme = url.slice(prefix.length).split('#')[0];
+  const queryStart = withoutScheme.indexOf('?');
+  const path =
+    queryStart === -1 ? withoutScheme : withoutScheme.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : withoutScheme.slice(queryStart + 1);
+
+  const [name, ...rest] = path.split('/');
+  if (!name) {
+    throw new DeepLinkError(`Missing command in ${url}`);
+  }
+
+  const args: CommandArgs = {};
+  const pathValue = rest.map(decode).join('/');
+  if (pathValue) {
+    args._ = pathValue;
+  }
+  query
+    .split('&')
+    .filter(pair => pair.length > 0)
+    .forEach(pair => {
+      const separator = pair.indexOf('=');
+      const key = decode(separator === -1 ? pair : pair.slice(0, separator));
+      args[key] = separator === -1 ? '' : decode(pair.slice(separator + 1));
+    });
+
+  return {name: decode(name).toLowerCase(), args};
+};
+
+// Parses, validates and runs one URL against the command table. Never
+// throws: failures are logged and returned.
+export const dispatchDeepLink = async (url: string, commands: CommandTable) => {
+  let command: DeepLinkCommand | null = null;
+  try {
+    command = parseDeepLink(url);
+    const definition = commands[command.name];
+    if (!definition) {
+      throw new DeepLinkError(
+        `Unknown command "${command.name}". Available: ${Object.keys(
+          commands,
+        ).join(', ')}`,
+      );
+    }
+
+    const {_: pathValue, ...args} = command.args;
+    if (pathValue !== undefined && definition.primaryArg) {
+      args[definition.primaryArg] = pathValue;
+    }
+    const missing = (definition.requiredArgs ?? []).filter(
+      arg => args[arg] === undefined,
+    );
+    if (missing.length > 0) {
+      throw new DeepLinkError(
+        `Command "${command.name}" is missing: ${missing.join(', ')}`,
+      );
+    }
+
+    const result = (await definition.run(args)) || 'ok';
+    logEvent('DEEPLINK', `✓ ${command.name}: ${result}`, {
+      payload: {url, command: command.name, args, ok: true, result},
+    });
+    return {ok: true, result};
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    logEvent('DEEPLINK', `✗ ${command?.name ?? url}: ${errorMsg}`, {
+      level: 'error',
+      payload: {url, command: command?.name, ok: false, error: errorMsg},
+    });
+    return {ok: false, error: errorMsg};
+  }
+};
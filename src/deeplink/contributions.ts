@@ -0,0 +1,47 @@
+/**
+ * NativeBridge Deep-Link Contributions
+ *
+ * Tab screens contribute their own deep-link commands and
+ * `nativebridge://trigger/<action>` handlers, so the router in App reaches
+ * handlers that live in the tab modules. Contributions are held while the
+ * screen is mounted and always call the latest render's closures.
+ */
+
+import {useEffect, useRef} from 'react';
+import {CommandTable} from './commandRouter';
+
+export type TriggerAction = () => unknown;
+
+export interface DeepLinkContribution {
+  commands?: CommandTable;
+  actions?: Record<string, TriggerAction>;
+}
+
+const contributions = new Map<string, {current: DeepLinkContribution}>();
+
+export const useDeepLinkContribution = (
+  id: string,
+  contribution: DeepLinkContribution,
+) => {
+  const contributionRef = useRef(contribution);
+  contributionRef.current = contribution;
+
+  useEffect(() => {
+    contributions.set(id, contributionRef);
+    return () => {
+      contributions.delete(id);
+    };
+  }, [id]);
+};
+
+export const getContributedCommands = (): CommandTable =>
+  Object.assign(
+    {},
+    ...Array.from(contributions.values(), ref => ref.current.commands),
+  );
+
+export const getTriggerActions = (): Record<string, TriggerAction> =>
+  Object.assign(
+    {},
+    ...Array.from(contributions.values(), ref => ref.current.actions),
+  );
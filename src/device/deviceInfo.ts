@@ -0,0 +1,142 @@
+/**
+ * NativeBridge Device Info
+ *
+ * Snapshot of the device and environment a run executes on: OS and API
+ * level, the Android build constants, display metrics, locale, time zone,
+ * app version and whether it looks like an emulator. Exported as JSON so
+ * every bug report from a cloud run carries the same context.
+ */
+
+import {
+  Appearance,
+  Dimensions,
+  I18nManager,
+  PixelRatio,
+  Platform,
+} from 'react-native';
+import RNFS from 'react-native-fs';
+import packageJson from '../../package.json';
+
+export interface DisplayMetrics {
+  width: number;
+  height: number;
+  scale: number;
+  fontScale: number;
+}
+
+export interface DeviceSnapshot {
+  capturedAt: string;
+  os: string;
+  osVersion: string;
+  // Android API level; null elsewhere
+  apiLevel: number | null;
+  model: string | null;
+  manufacturer: string | null;
+  brand: string | null;
+  fingerprint: string | null;
+  uiMode: string | null;
+  window: DisplayMetrics;
+  screen: DisplayMetrics;
+  pixelRatio: number;
+  fontScale: number;
+  colorScheme: string;
+  locale: string;
+  isRTL: boolean;
+  timeZone: string;
+  // Minutes east of UTC, e.g. 60 for CET
+  utcOffsetMinutes: number;
+  appName: string;
+  appVersion: string;
+  buildType: 'debug' | 'release';
+  jsEngine: 'hermes' | 'jsc';
+  reactNativeVersion: string;
+  isTesting: boolean;
+  // Null when the platform gives no hint either way
+  isEmulator: boolean | null;
+  emulatorHints: string[];
+}
+
+// Android build constants as reported by PlatformConstants
+interface AndroidConstants {
+  Release?: string;
+  Model?: string;
+  Manufacturer?: string;
+  Brand?: string;
+  Fingerprint?: string;
+  uiMode?: string;
+}
+
+// Substrings of Build fields that stock emulators, Genymotion and the
+// Google SDK images report
+const EMULATOR_HINTS: [keyof AndroidConstants, RegExp][] = [
+  ['Fingerprint', /generic|unknown|emulator|sdk_gphone/i],
+  ['Model', /emulator|android sdk built for|sdk_gphone|google_sdk/i],
+  ['Manufacturer', /genymotion/i],
+  ['Brand', /^generic/i],
+];
+
+export const detectEmulator = (constants: AndroidConstants) => {
+  const hints = EMULATOR_HINTS.filter(([field, pattern]) =>
+    pattern.test(constants[field] ?? ''),
+  ).map(([field]) => `${field}: ${constants[field]}`);
+  return {isEmulator: hints.length > 0, hints};
+};
+
+const toMetrics = ({width, height, scale, fontScale}: DisplayMetrics) => ({
+  width,
+  height,
+  scale,
+  fontScale,
+});
+
+export const collectDeviceSnapshot = (): DeviceSnapshot => {
+  const android: AndroidConstants =
+    Platform.OS === 'android' ? Platform.constants : {};
+  const {reactNativeVersion} = Platform.constants;
+  const emulator =
+    Platform.OS === 'android'
+      ? detectEmulator(android)
+      : {isEmulator: null, hints: []};
+  const {locale, timeZone} = Intl.DateTimeFormat().resolvedOptions();
+
+  return {
+    capturedAt: new Date().toISOString(),
+    os: Platform.OS,
+    osVersion: android.Release ?? String(Platform.Version),
+    apiLevel: Platform.OS === 'android' ? Platform.Version : null,
+    model: android.Model ?? null,
+    manufacturer: android.Manufacturer ?? null,
+    brand: android.Brand ?? null,
+    fingerprint: android.Fingerprint ?? null,
+    uiMode: android.uiMode ?? null,
+    window: toMetrics(Dimensions.get('window')),
+    screen: toMetrics(Dimensions.get('screen')),
+    pixelRatio: PixelRatio.get(),
+    fontScale: PixelRatio.getFontScale(),
+    colorScheme: Appearance.getColorScheme() ?? 'unknown',
+    locale: I18nManager.getConstants().localeIdentifier ?? locale,
+    isRTL: I18nManager.isRTL,
+    timeZone,
+    utcOffsetMinutes: -new Date().getTimezoneOffset(),
+    appName: packageJson.name,
+    // release.sh keeps this in step with Android's versionName
+    appVersion: packageJson.version,
+    buildType: __DEV__ ? 'debug' : 'release',
+    jsEngine: 'HermesInternal' in global ? 'hermes' : 'jsc',
+    reactNativeVersion: [
+      reactNativeVersion.major,
+      reactNativeVersion.minor,
+      reactNativeVersion.patch,
+    ].join('.'),
+    isTesting: Platform.isTesting,
+    isEmulator: emulator.isEmulator,
+    emulatorHints: emulator.hints,
+  };
+};
+
+export const exportDeviceSnapshot = async (snapshot: DeviceSnapshot) => {
+  const filename = `nativebridge_device_${Date.now()}.json`;
+  const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+  await RNFS.writeFile(path, JSON.stringify(snapshot, null, 2), 'utf8');
+  return path;
+};
@@ -0,0 +1,46 @@
+/**
+ * NativeBridge Base64
+ *
+ * Byte-array base64 conversion for binary files written through
+ * react-native-fs, which only accepts strings. Hermes has no Buffer.
+ */
+
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/* eslint-disable no-bitwise */
+
+export const encodeBase64 = (bytes: ArrayLike<number>) => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i] << 16) |
+      ((i + 1 < bytes.length ? bytes[i + 1] : 0) << 8) |
+      (i + 2 < bytes.length ? bytes[i + 2] : 0);
+    result +=
+      ALPHABET[(chunk >>> 18) & 63] +
+      ALPHABET[(chunk >>> 12) & 63] +
+      (i + 1 < bytes.length ? ALPHABET[(chunk >>> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? ALPHABET[chunk & 63] : '=');
+  }
+  return result;
+};
+
+export const decodeBase64 = (text: string) => {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of clean) {
+    buffer = (buffer << 6) | ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >>> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, index);
+};
+
+/* eslint-enable no-bitwise */
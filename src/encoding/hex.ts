@@ -0,0 +1,8 @@
+/**
+ * NativeBridge Hex
+ *
+ * Lower-case hex rendering of byte arrays for digests and key material.
+ */
+
+export const toHex = (bytes: ArrayLike<number>) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
@@ -0,0 +1,143 @@
+/**
+ * NativeBridge PNG Writer
+ *
+ * Minimal PNG encoder for black-and-white images such as generated QR
+ * codes: 1-bit greyscale, one IDAT chunk, zlib stream of stored (not
+ * compressed) deflate blocks. Small enough to need no native module.
+ */
+
+/* eslint-disable no-bitwise */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Largest payload of a stored deflate block
+const MAX_STORED_BLOCK = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+export const crc32 = (
+  bytes: ArrayLike<number>,
+  start = 0,
+  end = bytes.length,
+) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const adler32 = (bytes: ArrayLike<number>) => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+class ByteWriter {
+  readonly bytes: number[] = [];
+
+  uint8(...values: number[]) {
+    this.bytes.push(...values);
+  }
+
+  uint16LE(value: number) {
+    this.bytes.push(value & 0xff, (value >>> 8) & 0xff);
+  }
+
+  uint32BE(value: number) {
+    this.bytes.push(
+      (value >>> 24) & 0xff,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    );
+  }
+
+  append(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) {
+      this.bytes.push(values[i]);
+    }
+  }
+}
+
+// zlib stream (RFC 1950) wrapping stored deflate blocks (RFC 1951)
+export const zlibStore = (data: ArrayLike<number>) => {
+  const writer = new ByteWriter();
+  // CMF/FLG: deflate with a 32K window, no preset dictionary, check bits
+  writer.uint8(0x78, 0x01);
+  let offset = 0;
+  do {
+    const length = Math.min(MAX_STORED_BLOCK, data.length - offset);
+    const isFinal = offset + length >= data.length;
+    writer.uint8(isFinal ? 1 : 0);
+    writer.uint16LE(length);
+    writer.uint16LE(~length & 0xffff);
+    for (let i = offset; i < offset + length; i++) {
+      writer.bytes.push(data[i]);
+    }
+    offset += length;
+  } while (offset < data.length);
+  writer.uint32BE(adler32(data));
+  return writer.bytes;
+};
+
+const writeChunk = (
+  writer: ByteWriter,
+  type: string,
+  data: ArrayLike<number>,
+) => {
+  writer.uint32BE(data.length);
+  const typeStart = writer.bytes.length;
+  writer.uint8(...[...type].map(char => char.charCodeAt(0)));
+  writer.append(data);
+  writer.uint32BE(crc32(writer.bytes, typeStart, writer.bytes.length));
+};
+
+// Encodes a width x height image where isDark(x, y) selects black pixels
+export const encodeMonochromePng = (
+  width: number,
+  height: number,
+  isDark: (x: number, y: number) => boolean,
+) => {
+  const rowBytes = Math.ceil(width / 8);
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowBytes + 1);
+    // Filter type 0 (None); bits are 1 for white in 1-bit greyscale
+    raw[rowStart] = 0;
+    for (let x = 0; x < width; x++) {
+      if (!isDark(x, y)) {
+        raw[rowStart + 1 + (x >>> 3)] |= 0x80 >>> (x & 7);
+      }
+    }
+  }
+
+  const header = new ByteWriter();
+  header.uint32BE(width);
+  header.uint32BE(height);
+  // Bit depth 1, greyscale, deflate, adaptive filtering, no interlace
+  header.uint8(1, 0, 0, 0, 0);
+
+  const writer = new ByteWriter();
+  writer.uint8(...PNG_SIGNATURE);
+  writeChunk(writer, 'IHDR', header.bytes);
+  writeChunk(writer, 'IDAT', zlibStore(raw));
+  writeChunk(writer, 'IEND', []);
+  return Uint8Array.from(writer.bytes);
+};
+
+/* eslint-enable no-bitwise */
@@ -0,0 +1,89 @@
+/**
+ * NativeBridge UTF-8
+ *
+ * String and UTF-8 byte conversion for code that hashes, signs, encodes or
+ * previews text byte-wise. Hermes has no TextEncoder or TextDecoder.
+ */
+
+/* eslint-disable no-bitwise */
+
+export const utf8Encode = (text: string) => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    }
+  }
+  return bytes;
+};
+
+const REPLACEMENT_CHAR = 0xfffd;
+
+// Length of the sequence a lead byte starts, or 0 for an invalid lead byte
+const sequenceLength = (lead: number) => {
+  if (lead < 0x80) {
+    return 1;
+  }
+  if (lead >= 0xc2 && lead < 0xe0) {
+    return 2;
+  }
+  if (lead >= 0xe0 && lead < 0xf0) {
+    return 3;
+  }
+  if (lead >= 0xf0 && lead < 0xf5) {
+    return 4;
+  }
+  return 0;
+};
+
+// Decodes leniently: malformed or truncated sequences (e.g. a preview cut
+// mid-character) become U+FFFD instead of throwing
+export const utf8Decode = (bytes: ArrayLike<number>) => {
+  const codePoints: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const length = sequenceLength(bytes[i]);
+    let codePoint = length === 1 ? bytes[i] : bytes[i] & (0xff >> (length + 1));
+    let valid = length > 0 && i + length <= bytes.length;
+    for (let k = 1; valid && k < length; k++) {
+      const next = bytes[i + k];
+      valid = (next & 0xc0) === 0x80;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+    // Overlong forms, surrogates and values past U+10FFFF
+    if (
+      valid &&
+      ((length === 3 &&
+        (codePoint < 0x800 || (codePoint >= 0xd800 && codePoint < 0xe000))) ||
+        (length === 4 && (codePoint < 0x10000 || codePoint > 0x10ffff)))
+    ) {
+      valid = false;
+    }
+    codePoints.push(valid ? codePoint : REPLACEMENT_CHAR);
+    i += valid ? length : 1;
+  }
+
+  let text = '';
+  for (let start = 0; start < codePoints.length; start += 4096) {
+    text += String.fromCodePoint(...codePoints.slice(start, start + 4096));
+  }
+  return text;
+};
+
+/* eslint-enable no-bitwise */
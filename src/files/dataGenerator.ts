@@ -0,0 +1,449 @@
+/**
+ * NativeBridge Test Data Generator
+ *
+ * Seeded, reproducible tables for file-pull tests. A schema is a list of
+ * `name:type` columns; the same schema, row count and seed always produce
+ * the same rows, so a saved file can be checked against a fresh generation
+ * instead of a copy kept in memory. Serializes to RFC 4180 CSV, JSON or
+ * NDJSON and parses all three back for round-trip checks.
+ */
+
+export type ColumnType =
+  | 'string'
+  | 'int'
+  | 'float'
+  | 'date'
+  | 'bool'
+  | 'unicode'
+  | 'commas-quotes';
+
+export type DataFormat = 'csv' | 'json' | 'ndjson';
+
+export type DataValue = string | number | boolean;
+
+export type DataRow = Record<string, DataValue>;
+
+export interface ColumnSpec {
+  name: string;
+  type: ColumnType;
+}
+
+export interface DataConfig {
+  rows: number;
+  columns: ColumnSpec[];
+  seed: number;
+}
+
+export interface RoundTripMismatch {
+  // Zero-based data row, not counting the CSV header
+  row: number;
+  column: string;
+  expected: DataValue | undefined;
+  actual: DataValue | undefined;
+}
+
+export interface RoundTripResult {
+  ok: boolean;
+  expectedRows: number;
+  actualRows: number;
+  // First MAX_REPORTED_MISMATCHES differences only
+  mismatches: RoundTripMismatch[];
+  mismatchCount: number;
+  // Header or structure problems that stop the row comparison
+  error?: string;
+}
+
+export const COLUMN_TYPES: ColumnType[] = [
+  'string',
+  'int',
+  'float',
+  'date',
+  'bool',
+  'unicode',
+  'commas-quotes',
+];
+
+export const DATA_FORMATS: DataFormat[] = ['csv', 'json', 'ndjson'];
+
+export const DATA_MIME_TYPES: Record<DataFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+export const DEFAULT_DATA_SCHEMA =
+  'id:int,name:string,value:float,timestamp:date,active:bool,label:unicode,note:commas-quotes';
+
+export const MAX_DATA_ROWS = 100000;
+
+const MAX_REPORTED_MISMATCHES = 10;
+
+const WORD_CHARS =
+  'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+// Accents, CJK, RTL, a combining mark, astral emoji, a ZWJ sequence and
+// invisible spaces
+const UNICODE_FRAGMENTS = [
+  'café',
+  'naïve',
+  'Straße',
+  '東京',
+  '데이터',
+  'مرحبا',
+  'שלום',
+  'Ελληνικά',
+  'e\u0301',
+  '😀',
+  '👩‍💻',
+  '𝄞',
+  'no\u00a0break',
+  'zero\u200bwidth',
+  '™',
+];
+
+// Everything a naive CSV writer or reader gets wrong
+const CSV_HOSTILE_FRAGMENTS = [
+  'a,b',
+  'say "hi"',
+  '"quoted"',
+  'line1\nline2',
+  'crlf\r\nend',
+  ' padded ',
+  ',',
+  '""',
+  "it's",
+  'tab\there',
+  ',leading',
+  'trailing,',
+  '',
+];
+
+// 2000-01-01 to 2030-01-01
+const DATE_START_MS = Date.UTC(2000, 0, 1);
+const DATE_SPAN_MS = Date.UTC(2030, 0, 1) - DATE_START_MS;
+
+export class InvalidDataSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDataSchemaError';
+  }
+}
+
+export class DataParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataParseError';
+  }
+}
+
+// mulberry32: small, fast and identical on every JS engine
+/* eslint-disable no-bitwise */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+/* eslint-enable no-bitwise */
+
+type Random = () => number;
+
+const pick = <T>(random: Random, items: T[]) =>
+  items[Math.floor(random() * items.length)];
+
+const randomInt = (random: Random, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+const joinFragments = (random: Random, fragments: string[]) =>
+  Array.from({length: randomInt(random, 1, 3)}, () =>
+    pick(random, fragments),
+  ).join(' ');
+
+const generateValue = (random: Random, type: ColumnType): DataValue => {
+  switch (type) {
+    case 'string':
+      return Array.from({length: randomInt(random, 3, 12)}, () =>
+        pick(random, WORD_CHARS.split('')),
+      ).join('');
+    case 'int':
+      return randomInt(random, -2147483648, 2147483647);
+    case 'float':
+      return Math.round((random() * 2 - 1) * 1e10) / 1e4;
+    case 'date':
+      return new Date(
+        DATE_START_MS + Math.floor(random() * DATE_SPAN_MS),
+      ).toISOString();
+    case 'bool':
+      return random() < 0.5;
+    case 'unicode':
+      return joinFragments(random, UNICODE_FRAGMENTS);
+    case 'commas-quotes':
+      return joinFragments(random, CSV_HOSTILE_FRAGMENTS);
+  }
+};
+
+// "id:int,name:string" -> columns; a missing type means string
+export const parseDataSchema = (schema: string): ColumnSpec[] => {
+  const columns = schema
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [name, type = 'string'] = entry.split(':').map(part => part.trim());
+      if (!name) {
+        throw new InvalidDataSchemaError(`Column without a name: "${entry}"`);
+      }
+      if (!COLUMN_TYPES.includes(type as ColumnType)) {
+        throw new InvalidDataSchemaError(
+          `Unknown column type "${type}". Available: ${COLUMN_TYPES.join(
+            ', ',
+          )}`,
+        );
+      }
+      return {name, type: type as ColumnType};
+    });
+
+  if (columns.length === 0) {
+    throw new InvalidDataSchemaError('Schema has no columns');
+  }
+  const names = columns.map(column => column.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new InvalidDataSchemaError(`Duplicate column "${duplicate}"`);
+  }
+  return columns;
+};
+
+export const validateDataConfig = (config: DataConfig) => {
+  if (
+    !Number.isInteger(config.rows) ||
+    config.rows < 1 ||
+    config.rows > MAX_DATA_ROWS
+  ) {
+    throw new InvalidDataSchemaError(
+      `Row count must be 1-${MAX_DATA_ROWS}, got ${config.rows}`,
+    );
+  }
+  if (!Number.isInteger(config.seed)) {
+    throw new InvalidDataSchemaError(
+      `Seed must be an integer, got ${config.seed}`,
+    );
+  }
+  return config;
+};
+
+export const generateRows = ({rows, columns, seed}: DataConfig) => {
+  const random = createRandom(seed);
+  return Array.from({length: rows}, () => {
+    const row: DataRow = {};
+    for (const column of columns) {
+      row[column.name] = generateValue(random, column.type);
+    }
+    return row;
+  });
+};
+
+// Quotes a field only when it holds a delimiter, quote or line break
+const escapeCsvField = (value: DataValue) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const serializeData = (
+  format: DataFormat,
+  columns: ColumnSpec[],
+  rows: DataRow[],
+) => {
+  switch (format) {
+    case 'csv':
+      return (
+        [
+          columns.map(column => escapeCsvField(column.name)).join(','),
+          ...rows.map(row =>
+            columns.map(column => escapeCsvField(row[column.name])).join(','),
+          ),
+        ].join('\r\n') + '\r\n'
+      );
+    case 'json':
+      return JSON.stringify(rows, null, 2) + '\n';
+    case 'ndjson':
+      return rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+  }
+};
+
+const FIELD_END = /[,\r\n]/g;
+
+// RFC 4180 reader; accepts LF as well as CRLF record separators
+export const parseCsv = (text: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let position = 0;
+
+  const endRecord = () => {
+    records.push(record);
+    record = [];
+  };
+
+  while (position < text.length) {
+    let field: string;
+    if (text[position] === '"') {
+      field = '';
+      let cursor = position + 1;
+      while (true) {
+        const quote = text.indexOf('"', cursor);
+        if (quote === -1) {
+          throw new DataParseError(
+            `Unterminated quoted field at offset ${position}`,
+          );
+        }
+        field += text.slice(cursor, quote);
+        if (text[quote + 1] === '"') {
+          field += '"';
+          cursor = quote + 2;
+        } else {
+          position = quote + 1;
+          break;
+        }
+      }
+    } else {
+      FIELD_END.lastIndex = position;
+      const match = FIELD_END.exec(text);
+      const end = match ? match.index : text.length;
+      field = text.slice(position, end);
+      position = end;
+    }
+    record.push(field);
+
+    if (position >= text.length) {
+      endRecord();
+    } else if (text[position] === ',') {
+      position++;
+      if (position === text.length) {
+        record.push('');
+        endRecord();
+      }
+    } else if (text[position] === '\r' || text[position] === '\n') {
+      position += text.startsWith('\r\n', position) ? 2 : 1;
+      endRecord();
+    } else {
+      throw new DataParseError(
+        `Unexpected character after quoted field at offset ${position}`,
+      );
+    }
+  }
+  return records;
+};
+
+// CSV has no types, so cells are read back by their column's type
+const csvCellValue = (type: ColumnType, cell: string): DataValue => {
+  switch (type) {
+    case 'int':
+    case 'float':
+      return Number(cell);
+    case 'bool':
+      return cell === 'true';
+    default:
+      return cell;
+  }
+};
+
+const parseJsonRows = (value: unknown, where: string) => {
+  if (!Array.isArray(value)) {
+    throw new DataParseError(`${where}: expected an array of rows`);
+  }
+  return value as DataRow[];
+};
+
+export const parseData = (
+  format: DataFormat,
+  text: string,
+  columns: ColumnSpec[],
+): DataRow[] => {
+  switch (format) {
+    case 'csv': {
+      const [header = [], ...records] = parseCsv(text);
+      const expected = columns.map(column => column.name);
+      if (header.join(',') !== expected.join(',')) {
+        throw new DataParseError(
+          `CSV header is "${header.join(',')}", expected "${expected.join(
+            ',',
+          )}"`,
+        );
+      }
+      return records.map((record, index) => {
+        if (record.length !== columns.length) {
+          throw new DataParseError(
+            `CSV row ${index} has ${record.length} fields, expected ${columns.length}`,
+          );
+        }
+        const row: DataRow = {};
+        columns.forEach((column, columnIndex) => {
+          row[column.name] = csvCellValue(column.type, record[columnIndex]);
+        });
+        return row;
+      });
+    }
+    case 'json':
+      return parseJsonRows(JSON.parse(text), 'JSON');
+    case 'ndjson':
+      return text
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => JSON.parse(line) as DataRow);
+  }
+};
+
+// Parses a saved file and compares it cell by cell with a fresh generation
+export const verifyRoundTrip = (
+  format: DataFormat,
+  text: string,
+  config: DataConfig,
+): RoundTripResult => {
+  const expected = generateRows(config);
+  let actual: DataRow[];
+  try {
+    actual = parseData(format, text, config.columns);
+  } catch (error) {
+    return {
+      ok: false,
+      expectedRows: expected.length,
+      actualRows: 0,
+      mismatches: [],
+      mismatchCount: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  const mismatches: RoundTripMismatch[] = [];
+  let mismatchCount = 0;
+  const rowCount = Math.max(expected.length, actual.length);
+  for (let row = 0; row < rowCount; row++) {
+    for (const {name} of config.columns) {
+      const expectedValue = expected[row]?.[name];
+      const actualValue = actual[row]?.[name];
+      if (expectedValue !== actualValue) {
+        mismatchCount++;
+        if (mismatches.length < MAX_REPORTED_MISMATCHES) {
+          mismatches.push({
+            row,
+            column: name,
+            expected: expectedValue,
+            actual: actualValue,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    ok: mismatchCount === 0,
+    expectedRows: expected.length,
+    actualRows: actual.length,
+    mismatches,
+    mismatchCount,
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * NativeBridge File Inspector
+ *
+ * Content preview and checksums for picked files, so a test can prove the
+ * bytes on the device match the bytes pushed to it. Hashing runs natively
+ * through RNFS.hash, which needs a local path: picked files are therefore
+ * copied into the app's caches directory first.
+ */
+
+import RNFS from 'react-native-fs';
+import {decodeBase64} from '../encoding/base64';
+import {utf8Decode} from '../encoding/utf8';
+
+export type PreviewKind = 'text' | 'image' | 'hex';
+
+export interface FileInspection {
+  sha256: string;
+  md5: string;
+  previewKind: PreviewKind;
+  // Text or hex dump; image previews render from the file URI instead
+  preview: string;
+  // True when the preview shows only the start of the file
+  truncated: boolean;
+}
+
+// Bytes read for a text preview and for a hex dump
+export const TEXT_PREVIEW_BYTES = 4096;
+export const HEX_PREVIEW_BYTES = 512;
+
+const HEX_ROW_BYTES = 16;
+
+// Formats the Image component can decode on both platforms
+const IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/bmp',
+];
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|bmp)$/i;
+
+const TEXT_TYPES =
+  /^text\/|^application\/(json|xml|javascript|csv|x-ndjson)|\+(json|xml)$/;
+
+// RNFS takes plain paths; picker copies come back as file:// URIs
+export const uriToPath = (uri: string) =>
+  uri.startsWith('file://') ? decodeURIComponent(uri.slice(7)) : uri;
+
+// Treats data as text when it has no NUL bytes and few control characters
+const looksLikeText = (bytes: Uint8Array) => {
+  let control = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      return false;
+    }
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) {
+      control++;
+    }
+  }
+  return control <= bytes.length * 0.05;
+};
+
+export const detectPreviewKind = (
+  name: string,
+  mimeType: string | null,
+  head: Uint8Array,
+): PreviewKind => {
+  if (
+    (mimeType && IMAGE_TYPES.includes(mimeType)) ||
+    (!mimeType && IMAGE_EXTENSIONS.test(name))
+  ) {
+    return 'image';
+  }
+  if ((mimeType && TEXT_TYPES.test(mimeType)) || looksLikeText(head)) {
+    return 'text';
+  }
+  return 'hex';
+};
+
+// Classic 16-bytes-per-row dump: offset, hex bytes, printable ASCII
+export const hexDump = (bytes: Uint8Array) => {
+  const rows: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += HEX_ROW_BYTES) {
+    const row = Array.from(bytes.subarray(offset, offset + HEX_ROW_BYTES));
+    const hex = row
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join(' ')
+      .padEnd(HEX_ROW_BYTES * 3 - 1);
+    const ascii = row
+      .map(byte =>
+        byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.',
+      )
+      .join('');
+    rows.push(`${offset.toString(16).padStart(8, '0')}  ${hex}  |${ascii}|`);
+  }
+  return rows.join('\n');
+};
+
+const readHead = async (path: string, length: number) =>
+  decodeBase64(await RNFS.read(path, length, 0, 'base64'));
+
+export const inspectFile = async (
+  path: string,
+  name: string,
+  mimeType: string | null,
+  size: number,
+): Promise<FileInspection> => {
+  const [sha256, md5, head] = await Promise.all([
+    RNFS.hash(path, 'sha256'),
+    RNFS.hash(path, 'md5'),
+    size > 0 ? readHead(path, TEXT_PREVIEW_BYTES) : new Uint8Array(0),
+  ]);
+
+  const previewKind = detectPreviewKind(name, mimeType, head);
+  const previewBytes =
+    previewKind === 'hex' ? head.subarray(0, HEX_PREVIEW_BYTES) : head;
+  return {
+    sha256,
+    md5,
+    previewKind,
+    preview:
+      previewKind === 'text'
+        ? utf8Decode(previewBytes)
+        : previewKind === 'hex'
+        ? hexDump(previewBytes)
+        : '',
+    truncated: previewKind !== 'image' && size > previewBytes.length,
+  };
+};
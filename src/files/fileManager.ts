@@ -0,0 +1,287 @@
+/**
+ * NativeBridge File Manager
+ *
+ * Filesystem operations behind the FS tab, scoped to the storage roots the
+ * app can reach: its documents and caches directories, the public Downloads
+ * directory and, on Android, the external storage root. Which of these the
+ * app may read or write depends on the Android version's scoped-storage
+ * rules, which is exactly what the tab is meant to show.
+ */
+
+import {Platform} from 'react-native';
+import RNFS, {ReadDirItem} from 'react-native-fs';
+
+export type StorageRoot = 'documents' | 'caches' | 'downloads' | 'external';
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  // Missing when the platform does not report it
+  mtime: Date | null;
+}
+
+export interface EntryDetails extends FileEntry {
+  ctime: Date | null;
+  // Children of a directory; null for files
+  childCount: number | null;
+}
+
+export interface StorageSpace {
+  freeBytes: number;
+  totalBytes: number;
+  // Android only: the shared external storage volume
+  externalFreeBytes?: number;
+  externalTotalBytes?: number;
+}
+
+// The Android module also reports the external volume, which the typings omit
+interface AndroidFSInfo {
+  freeSpace: number;
+  totalSpace: number;
+  freeSpaceEx?: number;
+  totalSpaceEx?: number;
+}
+
+export const STORAGE_ROOTS: StorageRoot[] = [
+  'documents',
+  'caches',
+  'downloads',
+  'external',
+];
+
+export const STORAGE_ROOT_LABELS: Record<StorageRoot, string> = {
+  documents: 'Documents',
+  caches: 'Caches',
+  downloads: 'Downloads',
+  external: 'External',
+};
+
+export class InvalidFileNameError extends Error {
+  constructor(name: string) {
+    super(`Invalid file name "${name}"`);
+    this.name = 'InvalidFileNameError';
+  }
+}
+
+export class UnsafePathError extends Error {
+  constructor(path: string, reason: string) {
+    super(`Refusing path "${path}": ${reason}`);
+    this.name = 'UnsafePathError';
+  }
+}
+
+export class FileExistsError extends Error {
+  constructor(path: string) {
+    super(`Already exists: ${path}`);
+    this.name = 'FileExistsError';
+  }
+}
+
+// Null where the platform has no such directory (external on iOS)
+export const storageRootPath = (root: StorageRoot): string | null => {
+  switch (root) {
+    case 'documents':
+      return RNFS.DocumentDirectoryPath;
+    case 'caches':
+      return RNFS.CachesDirectoryPath;
+    case 'downloads':
+      return RNFS.DownloadDirectoryPath ?? null;
+    case 'external':
+      return Platform.OS === 'android'
+        ? RNFS.ExternalStorageDirectoryPath
+        : null;
+  }
+};
+
+// The most specific root containing the path; Downloads sits inside the
+// external storage root on Android
+export const storageRootOf = (path: string) =>
+  STORAGE_ROOTS.map(root => ({root, rootPath: storageRootPath(root)}))
+    .filter(
+      ({rootPath}) =>
+        rootPath !== null &&
+        (path === rootPath || path.startsWith(`${rootPath}/`)),
+    )
+    .sort((a, b) => b.rootPath!.length - a.rootPath!.length)[0]?.root ?? null;
+
+export const joinPath = (directory: string, name: string) =>
+  `${directory.replace(/\/+$/, '')}/${name}`;
+
+export const parentPath = (path: string) =>
+  path.replace(/\/+$/, '').replace(/\/[^/]*$/, '') || '/';
+
+export const baseName = (path: string) =>
+  path.replace(/\/+$/, '').split('/').pop() ?? path;
+
+export const isStorageRoot = (path: string) =>
+  STORAGE_ROOTS.some(
+    root => storageRootPath(root) === path.replace(/\/+$/, ''),
+  );
+
+// Path segments without empty ones; "." and ".." could leave the root
+const safeSegments = (path: string) => {
+  const segments = path.split('/').filter(segment => segment.length > 0);
+  if (segments.some(segment => segment === '.' || segment === '..')) {
+    throw new UnsafePathError(path, '"." and ".." segments are not allowed');
+  }
+  return segments;
+};
+
+// "downloads:/reports/a.csv" -> absolute path. Absolute paths are accepted
+// when they lie inside one of the storage roots.
+export const resolveStoragePath = (spec: string) => {
+  const match = /^(\w+):\/?(.*)$/.exec(spec);
+  if (!match) {
+    const path = `/${safeSegments(spec).join('/')}`;
+    if (!spec.startsWith('/') || storageRootOf(path) === null) {
+      throw new UnsafePathError(spec, 'not inside a storage root');
+    }
+    return path;
+  }
+  const [, root, relative] = match;
+  if (!STORAGE_ROOTS.includes(root as StorageRoot)) {
+    throw new Error(
+      `Unknown storage root "${root}". Available: ${STORAGE_ROOTS.join(', ')}`,
+    );
+  }
+  const rootPath = storageRootPath(root as StorageRoot);
+  if (!rootPath) {
+    throw new Error(`Storage root "${root}" is not available on this device`);
+  }
+  const segments = safeSegments(relative);
+  return segments.length > 0
+    ? joinPath(rootPath, segments.join('/'))
+    : rootPath;
+};
+
+export const validateEntryName = (name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed === '.' || trimmed === '..' || /[/\0]/.test(name)) {
+    throw new InvalidFileNameError(name);
+  }
+  return trimmed;
+};
+
+const toEntry = (item: ReadDirItem): FileEntry => ({
+  name: item.name,
+  path: item.path,
+  isDirectory: item.isDirectory(),
+  size: Number(item.size),
+  mtime: item.mtime ?? null,
+});
+
+// Directories first, then by name
+export const listDirectory = async (path: string) => {
+  const items = await RNFS.readDir(path);
+  return items
+    .map(toEntry)
+    .sort((a, b) =>
+      a.isDirectory === b.isDirectory
+        ? a.name.localeCompare(b.name)
+        : a.isDirectory
+        ? -1
+        : 1,
+    );
+};
+
+export const statEntry = async (path: string): Promise<EntryDetails> => {
+  const stat = await RNFS.stat(path);
+  const isDirectory = stat.isDirectory();
+  return {
+    name: baseName(path),
+    path,
+    isDirectory,
+    size: Number(stat.size),
+    mtime: stat.mtime ? new Date(stat.mtime) : null,
+    ctime: stat.ctime ? new Date(stat.ctime) : null,
+    childCount: isDirectory ? (await RNFS.readDir(path)).length : null,
+  };
+};
+
+const ensureAbsent = async (path: string) => {
+  if (await RNFS.exists(path)) {
+    throw new FileExistsError(path);
+  }
+};
+
+export const makeDirectory = async (parent: string, name: string) => {
+  const path = joinPath(parent, validateEntryName(name));
+  await ensureAbsent(path);
+  await RNFS.mkdir(path);
+  return path;
+};
+
+// Deleting or moving a root would take the event log and stores with it
+const ensureNotStorageRoot = (path: string) => {
+  if (isStorageRoot(path)) {
+    throw new UnsafePathError(path, 'a storage root cannot be changed');
+  }
+};
+
+export const renameEntry = async (path: string, newName: string) => {
+  ensureNotStorageRoot(path);
+  const target = joinPath(parentPath(path), validateEntryName(newName));
+  await ensureAbsent(target);
+  await RNFS.moveFile(path, target);
+  return target;
+};
+
+// RNFS.copyFile handles single files only, so directories are walked
+const copyRecursive = async (source: string, target: string) => {
+  const stat = await RNFS.stat(source);
+  if (!stat.isDirectory()) {
+    await RNFS.copyFile(source, target);
+    return;
+  }
+  await RNFS.mkdir(target);
+  for (const item of await RNFS.readDir(source)) {
+    await copyRecursive(item.path, joinPath(target, item.name));
+  }
+};
+
+// Copies into targetDirectory, keeping the entry's name
+export const copyEntry = async (source: string, targetDirectory: string) => {
+  const target = joinPath(targetDirectory, baseName(source));
+  if (`${targetDirectory}/`.startsWith(`${source}/`)) {
+    throw new Error(`Cannot copy ${source} into itself`);
+  }
+  await ensureAbsent(target);
+  await copyRecursive(source, target);
+  return target;
+};
+
+// A rename where possible; across volumes (e.g. app storage to Downloads)
+// the native move fails, so the entry is copied and then deleted
+export const moveEntry = async (source: string, targetDirectory: string) => {
+  ensureNotStorageRoot(source);
+  const target = joinPath(targetDirectory, baseName(source));
+  if (`${targetDirectory}/`.startsWith(`${source}/`)) {
+    throw new Error(`Cannot move ${source} into itself`);
+  }
+  await ensureAbsent(target);
+  try {
+    await RNFS.moveFile(source, target);
+  } catch {
+    await copyRecursive(source, target);
+    await RNFS.unlink(source);
+  }
+  return target;
+};
+
+// Removes files and whole directory trees
+export const deleteEntry = async (path: string) => {
+  ensureNotStorageRoot(path);
+  await RNFS.unlink(path);
+};
+
+export const getStorageSpace = async (): Promise<StorageSpace> => {
+  const info: AndroidFSInfo = await RNFS.getFSInfo();
+  return {
+    freeBytes: info.freeSpace,
+    totalBytes: info.totalSpace,
+    externalFreeBytes: info.freeSpaceEx,
+    externalTotalBytes: info.totalSpaceEx,
+  };
+};
@@ -0,0 +1,274 @@
+/**
+ * NativeBridge Location Tracker
+ *
+ * Position fixes as the app receives them from the geolocation module, for
+ * checking GPS mocking on a device: one-shot and continuous reads, distance
+ * along a series of fixes, a PASS/FAIL check against an expected coordinate
+ * and GPX export of a recorded route. Values are passed through unchanged;
+ * only the display rounds them.
+ */
+
+import Geolocation, {
+  GeolocationError,
+  GeolocationResponse,
+} from '@react-native-community/geolocation';
+import RNFS from 'react-native-fs';
+
+export type LocationProvider = 'auto' | 'playServices' | 'android';
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  // Metres, 68% confidence radius
+  accuracy: number;
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  // Metres per second
+  speed: number | null;
+  // Degrees clockwise from true north
+  heading: number | null;
+  // When the fix was taken, per the provider
+  timestamp: number;
+  // When the app received it
+  receivedAt: number;
+  // Android's isFromMockProvider(); null where it is not reported
+  mocked: boolean | null;
+}
+
+export interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LocationReadOptions {
+  enableHighAccuracy: boolean;
+  timeoutMs: number;
+  maximumAgeMs: number;
+}
+
+export interface WatchOptions extends LocationReadOptions {
+  // Metres the device must move before the next fix
+  distanceFilterM: number;
+  intervalMs: number;
+}
+
+export interface ExpectedCoordinateCheck {
+  expected: Coordinate;
+  toleranceM: number;
+  distanceM: number;
+  pass: boolean;
+}
+
+export const LOCATION_PROVIDERS: LocationProvider[] = [
+  'auto',
+  'playServices',
+  'android',
+];
+
+export const DEFAULT_WATCH_OPTIONS: WatchOptions = {
+  enableHighAccuracy: true,
+  timeoutMs: 20000,
+  maximumAgeMs: 0,
+  distanceFilterM: 0,
+  intervalMs: 1000,
+};
+
+export const DEFAULT_TOLERANCE_M = 25;
+
+// Mean Earth radius (IUGG)
+const EARTH_RADIUS_M = 6371008.8;
+
+// The Android module adds this; the type declarations omit it
+type AndroidGeolocationResponse = GeolocationResponse & {mocked?: boolean};
+
+export class LocationError extends Error {
+  readonly code: number;
+
+  constructor(error: GeolocationError) {
+    const reasons: Record<number, string> = {
+      1: 'Permission denied',
+      2: 'Position unavailable',
+      3: 'Timed out',
+    };
+    super(
+      `${reasons[error.code] ?? `Error ${error.code}`}${
+        error.message ? `: ${error.message}` : ''
+      }`,
+    );
+    this.name = 'LocationError';
+    this.code = error.code;
+  }
+}
+
+export class InvalidCoordinateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCoordinateError';
+  }
+}
+
+// Permissions go through the permission engine, not the module's own prompt
+export const setLocationProvider = (locationProvider: LocationProvider) =>
+  Geolocation.setRNConfiguration({
+    skipPermissionRequests: true,
+    locationProvider,
+  });
+
+const toLocationFix = ({
+  coords,
+  timestamp,
+  mocked,
+}: AndroidGeolocationResponse): LocationFix => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  accuracy: coords.accuracy,
+  altitude: coords.altitude,
+  altitudeAccuracy: coords.altitudeAccuracy,
+  speed: coords.speed,
+  heading: coords.heading,
+  timestamp,
+  receivedAt: Date.now(),
+  mocked: mocked ?? null,
+});
+
+export const getCurrentFix = (options: LocationReadOptions) =>
+  new Promise<LocationFix>((resolve, reject) =>
+    Geolocation.getCurrentPosition(
+      position => resolve(toLocationFix(position)),
+      error => reject(new LocationError(error)),
+      {
+        enableHighAccuracy: options.enableHighAccuracy,
+        timeout: options.timeoutMs,
+        maximumAge: options.maximumAgeMs,
+      },
+    ),
+  );
+
+// Returns a function that stops the watch
+export const watchFixes = (
+  options: WatchOptions,
+  onFix: (fix: LocationFix) => void,
+  onError: (error: LocationError) => void,
+) => {
+  const watchId = Geolocation.watchPosition(
+    position => onFix(toLocationFix(position)),
+    error => onError(new LocationError(error)),
+    {
+      enableHighAccuracy: options.enableHighAccuracy,
+      timeout: options.timeoutMs,
+      maximumAge: options.maximumAgeMs,
+      distanceFilter: options.distanceFilterM,
+      interval: options.intervalMs,
+      fastestInterval: options.intervalMs,
+    },
+  );
+  return () => Geolocation.clearWatch(watchId);
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in metres
+export const haversineDistance = (a: Coordinate, b: Coordinate) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Sum of the straight segments between consecutive fixes
+export const pathDistance = (points: Coordinate[]) =>
+  points.reduce(
+    (total, point, index) =>
+      index > 0 ? total + haversineDistance(points[index - 1], point) : total,
+    0,
+  );
+
+// Plain decimal degrees; Number() alone would read "" as 0 and accept hex
+// or exponents
+const DECIMAL_DEGREES = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+
+// "52.5163,13.3777" or "52.5163 13.3777"
+export const parseCoordinate = (text: string): Coordinate => {
+  const parts = text.trim().split(/\s*[,;\s]\s*/);
+  const [latitude, longitude] = parts.map(Number);
+  if (parts.length !== 2 || !parts.every(part => DECIMAL_DEGREES.test(part))) {
+    throw new InvalidCoordinateError(
+      `Expected "latitude,longitude", got "${text}"`,
+    );
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new InvalidCoordinateError(
+      `Coordinate out of range: ${latitude},${longitude}`,
+    );
+  }
+  return {latitude, longitude};
+};
+
+export const checkExpectedCoordinate = (
+  fix: Coordinate,
+  expected: Coordinate,
+  toleranceM: number,
+): ExpectedCoordinateCheck => {
+  const distanceM = haversineDistance(fix, expected);
+  return {expected, toleranceM, distanceM, pass: distanceM <= toleranceM};
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const compassPoint = (heading: number) =>
+  COMPASS_POINTS[Math.round((((heading % 360) + 360) % 360) / 45) % 8];
+
+const escapeXml = (text: string) =>
+  text.replace(
+    /[<>&'"]/g,
+    char =>
+      ({
+        '<': '&lt;',
+        '>': '&gt;',
+        '&': '&amp;',
+        "'": '&apos;',
+        '"': '&quot;',
+      }[char]!),
+  );
+
+// GPX 1.1 track with one segment; speed and course are not part of 1.1
+export const buildGpx = (fixes: LocationFix[], name: string) => {
+  const points = fixes.map(fix =>
+    [
+      `      <trkpt lat="${fix.latitude}" lon="${fix.longitude}">`,
+      fix.altitude !== null ? `        <ele>${fix.altitude}</ele>` : null,
+      `        <time>${new Date(fix.timestamp).toISOString()}</time>`,
+      '      </trkpt>',
+    ]
+      .filter(line => line !== null)
+      .join('\n'),
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="NativeBridge" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+export const exportRouteGpx = async (fixes: LocationFix[]) => {
+  const startedAt = new Date(fixes[0]?.timestamp ?? Date.now());
+  const filename = `nativebridge_route_${Date.now()}.gpx`;
+  const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+  await RNFS.writeFile(
+    path,
+    buildGpx(fixes, `NativeBridge route ${startedAt.toISOString()}`),
+    'utf8',
+  );
+  return path;
+};
@@ -0,0 +1,335 @@
+/**
+ * NativeBridge App Lock
+ *
+ * Biometric gate in front of the tabs. Depending on the configured mode the
+ * app locks on launch, and additionally when it returns from the background
+ * after the grace period. Locking prompts automatically; repeated failures
+ * lock unlocking out for a while. Settings are changed from the Bio tab or
+ * with `nativebridge://app-lock?mode=resume&grace=10`; any change that
+ * weakens an active gate requires authentication.
+ */
+
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import {AppState} from 'react-native';
+import ReactNativeBiometrics from 'react-native-biometrics';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {
+  AppLockMode,
+  AppLockSettings,
+  DEFAULT_APP_LOCK_SETTINGS,
+  loadAppLockSettings,
+  loadFailedAttempts,
+  loadLockoutUntil,
+  saveAppLockSettings,
+  saveFailedAttempts,
+  saveLockoutUntil,
+  validateAppLockSettings,
+  weakenedAppLockSettings,
+} from './appLockSettings';
+
+export type LockState = 'loading' | 'locked' | 'unlocked';
+
+interface AppLock {
+  settings: AppLockSettings;
+  lockState: LockState;
+  failedAttempts: number;
+  // Epoch milliseconds until which unlocking is refused
+  lockoutUntil: number | null;
+  status: string;
+  authenticate: () => Promise<boolean>;
+  lockNow: (reason: string) => void;
+  updateSettings: (
+    changes: Partial<AppLockSettings>,
+  ) => Promise<AppLockSettings>;
+}
+
+const AppLockContext = createContext<AppLock>({
+  settings: DEFAULT_APP_LOCK_SETTINGS,
+  lockState: 'unlocked',
+  failedAttempts: 0,
+  lockoutUntil: null,
+  status: '',
+  authenticate: async () => true,
+  lockNow: () => {},
+  updateSettings: async () => DEFAULT_APP_LOCK_SETTINGS,
+});
+
+export function AppLockProvider({children}: {children: ReactNode}) {
+  const [settings, setSettings] = useState(DEFAULT_APP_LOCK_SETTINGS);
+  // Locked until the settings are read, so the tabs never flash on launch
+  const [lockState, setLockState] = useState<LockState>('loading');
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockoutUntil, setLockoutUntil] = useState<number | null>(null);
+  const [status, setStatus] = useState('');
+
+  // Read by the AppState listener and the prompt, which outlive renders
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const lockStateRef = useRef(lockState);
+  lockStateRef.current = lockState;
+  const failedAttemptsRef = useRef(0);
+  const lockoutUntilRef = useRef<number | null>(null);
+  lockoutUntilRef.current = lockoutUntil;
+  const promptingRef = useRef(false);
+  const backgroundedAtRef = useRef<number | null>(null);
+
+  const lockNow = (reason: string) => {
+    setLockState('locked');
+    setStatus('');
+    logEvent('APP_LOCK', `Locked: ${reason}`);
+  };
+
+  const startLockout = useCallback((seconds: number) => {
+    const until = Date.now() + seconds * 1000;
+    failedAttemptsRef.current = 0;
+    setFailedAttempts(0);
+    saveFailedAttempts(0);
+    setLockoutUntil(until);
+    saveLockoutUntil(until);
+    setStatus(`Too many failed attempts, locked out for ${seconds}s`);
+    logEvent('APP_LOCK', `Lockout for ${seconds}s after repeated failures`, {
+      level: 'warn',
+    });
+  }, []);
+
+  // Persisted so killing the app does not reset the count
+  const registerFailure = useCallback(
+    (reason: string) => {
+      const {maxAttempts, lockoutSeconds} = settingsRef.current;
+      const attempts = failedAttemptsRef.current + 1;
+      failedAttemptsRef.current = attempts;
+      setFailedAttempts(attempts);
+      saveFailedAttempts(attempts);
+      setStatus(`✗ Unlock failed: ${reason}`);
+      logEvent(
+        'APP_LOCK',
+        `Unlock failed (${attempts}/${maxAttempts}): ${reason}`,
+        {level: 'warn'},
+      );
+      if (attempts >= maxAttempts) {
+        startLockout(lockoutSeconds);
+      }
+    },
+    [startLockout],
+  );
+
+  const authenticate = useCallback(async () => {
+    if (promptingRef.current) {
+      return false;
+    }
+    const until = lockoutUntilRef.current;
+    if (until !== null && until > Date.now()) {
+      setStatus(
+        `Locked out for ${Math.ceil((until - Date.now()) / 1000)}s more`,
+      );
+      return false;
+    }
+
+    promptingRef.current = true;
+    try {
+      setStatus('Waiting for authentication...');
+      const rnBiometrics = new ReactNativeBiometrics({
+        allowDeviceCredentials: settingsRef.current.allowDeviceCredentials,
+      });
+      const {success, error} = await rnBiometrics.simplePrompt({
+        promptMessage: 'Unlock NativeBridge',
+        cancelButtonText: 'Cancel',
+      });
+
+      if (!success) {
+        registerFailure(error ?? 'cancelled');
+        return false;
+      }
+      failedAttemptsRef.current = 0;
+      setFailedAttempts(0);
+      saveFailedAttempts(0);
+      setLockoutUntil(null);
+      setLockState('unlocked');
+      setStatus('');
+      logEvent('APP_LOCK', 'Unlocked');
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      registerFailure(errorMsg);
+      return false;
+    } finally {
+      promptingRef.current = false;
+    }
+  }, [registerFailure]);
+
+  // Weakening the gate needs the same authentication as unlocking, so
+  // neither the Bio tab nor a deep link can loosen it unnoticed. With the
+  // mode off there is no gate to weaken yet.
+  const updateSettings = async (changes: Partial<AppLockSettings>) => {
+    const current = settingsRef.current;
+    const next = validateAppLockSettings({...current, ...changes});
+    const weakened = weakenedAppLockSettings(current, next);
+    if (
+      current.mode !== 'off' &&
+      weakened.length > 0 &&
+      !(await authenticate())
+    ) {
+      logEvent(
+        'APP_LOCK',
+        `Refused to weaken ${weakened.join(', ')}: not authenticated`,
+        {level: 'warn'},
+      );
+      throw new Error(
+        `Authentication is required to weaken the app lock (${weakened.join(
+          ', ',
+        )})`,
+      );
+    }
+    await saveAppLockSettings(next);
+    setSettings(next);
+    logEvent('APP_LOCK', `Settings updated: ${JSON.stringify(next)}`);
+    return next;
+  };
+
+  useEffect(() => {
+    Promise.all([
+      loadAppLockSettings(),
+      loadFailedAttempts(),
+      loadLockoutUntil(),
+    ])
+      .then(([loaded, attempts, until]) => {
+        setSettings(loaded);
+        failedAttemptsRef.current = attempts;
+        setFailedAttempts(attempts);
+        setLockoutUntil(until);
+        if (loaded.mode === 'off') {
+          setLockState('unlocked');
+        } else {
+          lockNow(`launch (mode ${loaded.mode})`);
+        }
+      })
+      .catch(error => {
+        // An unreadable store must not lock testers out of the app
+        setLockState('unlocked');
+        logEvent('APP_LOCK', `Failed to load settings: ${error}`, {
+          level: 'error',
+        });
+      });
+  }, []);
+
+  // Prompt as soon as the gate appears, unless unlocking is locked out
+  useEffect(() => {
+    if (lockState === 'locked') {
+      authenticate();
+    }
+  }, [lockState, authenticate]);
+
+  // Clears the lockout once it has run out
+  useEffect(() => {
+    if (lockoutUntil === null) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setLockoutUntil(null);
+      saveLockoutUntil(null);
+      setStatus('Lockout over, try again');
+      logEvent('APP_LOCK', 'Lockout ended');
+    }, Math.max(lockoutUntil - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [lockoutUntil]);
+
+  // Relock on resume once the app spent the grace period in the background.
+  // The system prompt itself can background the app, so it is ignored.
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (promptingRef.current) {
+        return;
+      }
+      if (state === 'background') {
+        backgroundedAtRef.current = Date.now();
+        return;
+      }
+      if (state !== 'active' || backgroundedAtRef.current === null) {
+        return;
+      }
+      const elapsedMs = Date.now() - backgroundedAtRef.current;
+      backgroundedAtRef.current = null;
+      const {mode, graceSeconds} = settingsRef.current;
+      if (
+        mode === 'resume' &&
+        lockStateRef.current === 'unlocked' &&
+        elapsedMs >= graceSeconds * 1000
+      ) {
+        lockNow(
+          `resume after ${Math.round(
+            elapsedMs / 1000,
+          )}s in background (grace ${graceSeconds}s)`,
+        );
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useDeepLinkContribution('app-lock', {
+    commands: {
+      // nativebridge://app-lock?mode=resume&grace=10&credentials=off
+      'app-lock': {
+        primaryArg: 'mode',
+        run: async ({mode, grace, credentials, attempts, lockout}) => {
+          const changes: Partial<AppLockSettings> = {};
+          if (mode !== undefined) {
+            changes.mode = mode as AppLockMode;
+          }
+          if (grace !== undefined) {
+            changes.graceSeconds = Number(grace);
+          }
+          if (credentials !== undefined) {
+            changes.allowDeviceCredentials = ['on', 'true', '1'].includes(
+              credentials,
+            );
+          }
+          if (attempts !== undefined) {
+            changes.maxAttempts = Number(attempts);
+          }
+          if (lockout !== undefined) {
+            changes.lockoutSeconds = Number(lockout);
+          }
+          const next = await updateSettings(changes);
+          return [
+            `mode=${next.mode}`,
+            `grace=${next.graceSeconds}s`,
+            `credentials=${next.allowDeviceCredentials ? 'on' : 'off'}`,
+            `attempts=${next.maxAttempts}`,
+            `lockout=${next.lockoutSeconds}s`,
+          ].join(' ');
+        },
+      },
+    },
+    actions: {
+      'lock-app': () => lockNow('deep link'),
+      'unlock-app': authenticate,
+    },
+  });
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        settings,
+        lockState,
+        failedAttempts,
+        lockoutUntil,
+        status,
+        authenticate,
+        lockNow,
+        updateSettings,
+      }}>
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export const useAppLock = () => useContext(AppLockContext);
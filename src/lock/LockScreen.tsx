@@ -0,0 +1,90 @@
+/**
+ * NativeBridge Lock Screen
+ *
+ * Full-screen overlay shown while the app lock is engaged. Covers the tabs,
+ * which stay mounted underneath so their state survives a relock.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {Text, TouchableOpacity, View} from 'react-native';
+import {styles} from '../theme/styles';
+import {useAppLock} from './AppLockContext';
+import {APP_LOCK_MODE_LABELS} from './appLockSettings';
+
+export function LockScreen() {
+  const {
+    settings,
+    lockState,
+    failedAttempts,
+    lockoutUntil,
+    status,
+    authenticate,
+  } = useAppLock();
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the lockout countdown
+  useEffect(() => {
+    if (lockoutUntil === null) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockoutUntil]);
+
+  if (lockState === 'unlocked') {
+    return null;
+  }
+
+  const lockoutSeconds =
+    lockoutUntil !== null
+      ? Math.max(Math.ceil((lockoutUntil - now) / 1000), 0)
+      : 0;
+
+  return (
+    <View style={styles.lockScreen} testID="app-lock-screen">
+      <Text style={styles.lockTitle} testID="app-lock-title">
+        🔒 NativeBridge Locked
+      </Text>
+
+      {lockState === 'loading' ? (
+        <Text style={styles.infoText}>Loading lock settings...</Text>
+      ) : (
+        <>
+          <Text style={styles.label} testID="app-lock-mode">
+            Mode: {APP_LOCK_MODE_LABELS[settings.mode]}
+            {settings.allowDeviceCredentials
+              ? ' · device credential allowed'
+              : ''}
+          </Text>
+
+          {status ? (
+            <Text style={styles.infoText} testID="app-lock-status">
+              {status}
+            </Text>
+          ) : null}
+
+          <Text style={styles.label} testID="app-lock-attempts">
+            Failed attempts: {failedAttempts} of {settings.maxAttempts}
+          </Text>
+
+          {lockoutSeconds > 0 ? (
+            <Text
+              style={[styles.infoText, styles.permissionDenied]}
+              testID="app-lock-lockout">
+              Try again in {lockoutSeconds}s
+            </Text>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.button, styles.stackedButton]}
+            onPress={authenticate}
+            disabled={lockoutSeconds > 0}
+            testID="unlock-button">
+            <Text style={styles.buttonText}>Unlock</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * NativeBridge App Lock Settings
+ *
+ * When the biometric gate is shown (never, on launch, or on launch and on
+ * resume after a grace period) and how unlock failures are handled. Settings,
+ * the failed-attempt count and an active lockout are persisted in the
+ * private store, so a relaunch neither resets the mode nor escapes a
+ * lockout, and the Storage tab cannot reach them.
+ */
+
+import {getPrivateItem, setPrivateItem} from '../storage/privateStore';
+
+export type AppLockMode = 'off' | 'launch' | 'resume';
+
+export interface AppLockSettings {
+  mode: AppLockMode;
+  // Time in background before a resume relocks the app
+  graceSeconds: number;
+  // Lets the system prompt fall back to PIN/pattern/password
+  allowDeviceCredentials: boolean;
+  // Consecutive failed unlocks before a lockout
+  maxAttempts: number;
+  lockoutSeconds: number;
+}
+
+export const APP_LOCK_MODES: AppLockMode[] = ['off', 'launch', 'resume'];
+
+// Whether switching from one mode to the other locks the app less often
+const lowersAppLockMode = (from: AppLockMode, to: AppLockMode) =>
+  APP_LOCK_MODES.indexOf(to) < APP_LOCK_MODES.indexOf(from);
+
+// Settings that make the gate easier to pass after the change, named as in
+// the deep link
+export const weakenedAppLockSettings = (
+  from: AppLockSettings,
+  to: AppLockSettings,
+) =>
+  [
+    lowersAppLockMode(from.mode, to.mode) && 'mode',
+    to.graceSeconds > from.graceSeconds && 'grace',
+    to.allowDeviceCredentials && !from.allowDeviceCredentials && 'credentials',
+    to.maxAttempts > from.maxAttempts && 'attempts',
+    to.lockoutSeconds < from.lockoutSeconds && 'lockout',
+  ].filter((name): name is string => name !== false);
+
+export const APP_LOCK_MODE_LABELS: Record<AppLockMode, string> = {
+  off: 'Off',
+  launch: 'On launch',
+  resume: 'Launch + resume',
+};
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  mode: 'off',
+  graceSeconds: 30,
+  allowDeviceCredentials: true,
+  maxAttempts: 5,
+  lockoutSeconds: 30,
+};
+
+const SETTINGS_ITEM = 'app-lock-settings';
+const LOCKOUT_ITEM = 'app-lock-locked-until';
+const FAILED_ATTEMPTS_ITEM = 'app-lock-failed-attempts';
+
+export class InvalidAppLockSettingError extends Error {
+  constructor(name: string, value: unknown) {
+    super(`Invalid app lock ${name} "${value}"`);
+    this.name = 'InvalidAppLockSettingError';
+  }
+}
+
+const isCount = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Throws on the first invalid field, so a bad deep link never half-applies
+export const validateAppLockSettings = (settings: AppLockSettings) => {
+  if (!APP_LOCK_MODES.includes(settings.mode)) {
+    throw new InvalidAppLockSettingError('mode', settings.mode);
+  }
+  if (!isCount(settings.graceSeconds)) {
+    throw new InvalidAppLockSettingError('grace', settings.graceSeconds);
+  }
+  if (!isCount(settings.maxAttempts) || settings.maxAttempts < 1) {
+    throw new InvalidAppLockSettingError('attempts', settings.maxAttempts);
+  }
+  if (!isCount(settings.lockoutSeconds)) {
+    throw new InvalidAppLockSettingError('lockout', settings.lockoutSeconds);
+  }
+  return settings;
+};
+
+export const loadAppLockSettings = async (): Promise<AppLockSettings> => {
+  const stored = await getPrivateItem(SETTINGS_ITEM);
+  if (!stored) {
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+  try {
+    return validateAppLockSettings({
+      ...DEFAULT_APP_LOCK_SETTINGS,
+      ...JSON.parse(stored),
+    });
+  } catch {
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+};
+
+export const saveAppLockSettings = (settings: AppLockSettings) =>
+  setPrivateItem(SETTINGS_ITEM, JSON.stringify(settings));
+
+// Epoch milliseconds until which unlocking is refused, or null
+export const loadLockoutUntil = async () => {
+  const stored = Number(await getPrivateItem(LOCKOUT_ITEM));
+  return stored > Date.now() ? stored : null;
+};
+
+export const saveLockoutUntil = (until: number | null) =>
+  setPrivateItem(LOCKOUT_ITEM, until === null ? '' : String(until));
+
+// Consecutive failed unlocks since the last success or lockout
+export const loadFailedAttempts = async () => {
+  const stored = Number(await getPrivateItem(FAILED_ATTEMPTS_ITEM));
+  return isCount(stored) ? stored : 0;
+};
+
+export const saveFailedAttempts = (attempts: number) =>
+  setPrivateItem(FAILED_ATTEMPTS_ITEM, String(attempts));
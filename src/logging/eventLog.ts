@@ -0,0 +1,224 @@
+/**
+ * NativeBridge Event Log
+ *
+ * Structured, persistent event store behind `logEvent`. Every entry is
+ * appended as one JSON line to an NDJSON file in the app's document
+ * directory, so a run's history survives restarts and can be exported as a
+ * single artifact per session.
+ */
+
+import {Platform, ToastAndroid} from 'react-native';
+import RNFS from 'react-native-fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  category: string;
+  level: LogLevel;
+  message: string;
+  payload?: unknown;
+}
+
+export interface LogOptions {
+  level?: LogLevel;
+  payload?: unknown;
+}
+
+export interface LogQuery {
+  category?: string;
+  level?: LogLevel;
+  search?: string;
+}
+
+export type LogExportFormat = 'json' | 'ndjson';
+
+type Listener = (entries: LogEntry[]) => void;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const LOG_FILE_PATH = `${RNFS.DocumentDirectoryPath}/nativebridge_events.ndjson`;
+
+// Oldest entries are dropped (and the file compacted) past this size
+const MAX_ENTRIES = 5000;
+
+let entries: LogEntry[] = [];
+let nextId = 1;
+let loadState: 'idle' | 'loading' | 'loaded' = 'idle';
+const listeners = new Set<Listener>();
+
+// All file writes are chained so appends never interleave with compaction
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (task: () => Promise<void>) => {
+  writeQueue = writeQueue.then(task).catch(error => {
+    console.log(`[NativeBridge][LOGS] Failed to persist event log: ${error}`);
+  });
+  return writeQueue;
+};
+
+const notify = () => {
+  const snapshot = entries.slice();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const serialize = (entry: LogEntry) => {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    // Payloads with cycles or BigInts are stored as their string form
+    return JSON.stringify({...entry, payload: String(entry.payload)});
+  }
+};
+
+const parseLine = (line: string): LogEntry | null => {
+  try {
+    const parsed = JSON.parse(line);
+    if (
+      typeof parsed.id === 'number' &&
+      typeof parsed.category === 'string' &&
+      typeof parsed.message === 'string'
+    ) {
+      return parsed as LogEntry;
+    }
+  } catch {
+    // Truncated line from a crash mid-write; skip it
+  }
+  return null;
+};
+
+const compact = () =>
+  enqueueWrite(() =>
+    RNFS.writeFile(
+      LOG_FILE_PATH,
+      entries.map(entry => serialize(entry) + '\n').join(''),
+      'utf8',
+    ),
+  );
+
+// Loads the persisted log from disk. Entries logged before the load
+// finishes are only kept in memory until then, and are renumbered after
+// the persisted ones.
+export const initEventLog = async () => {
+  if (loadState !== 'idle') {
+    return;
+  }
+  loadState = 'loading';
+
+  try {
+    let persisted: LogEntry[] = [];
+    if (await RNFS.exists(LOG_FILE_PATH)) {
+      const content = await RNFS.readFile(LOG_FILE_PATH, 'utf8');
+      persisted = content
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .map(parseLine)
+        .filter((entry): entry is LogEntry => entry !== null);
+    }
+
+    const lastId = persisted.length ? persisted[persisted.length - 1].id : 0;
+    const pending = entries.map((entry, index) => ({
+      ...entry,
+      id: lastId + index + 1,
+    }));
+
+    entries = [...persisted, ...pending].slice(-MAX_ENTRIES);
+    nextId = lastId + pending.length + 1;
+  } catch (error) {
+    console.log(`[NativeBridge][LOGS] Failed to load event log: ${error}`);
+  }
+
+  loadState = 'loaded';
+  compact();
+  notify();
+};
+
+// Logging helper with timestamps and categories
+export const logEvent = (
+  category: string,
+  message: string,
+  options: LogOptions = {},
+) => {
+  const entry: LogEntry = {
+    id: nextId++,
+    timestamp: new Date().toISOString(),
+    category,
+    level: options.level ?? 'info',
+    message,
+  };
+  if (options.payload !== undefined) {
+    entry.payload = options.payload;
+  }
+
+  console.log(`[NativeBridge][${category}] ${entry.timestamp}: ${message}`);
+
+  if (Platform.OS === 'android') {
+    ToastAndroid.show(`${category}: ${message}`, ToastAndroid.SHORT);
+  }
+
+  entries.push(entry);
+  // Until the initial load finishes, initEventLog persists pending entries
+  if (loadState === 'loaded') {
+    if (entries.length > MAX_ENTRIES) {
+      entries = entries.slice(-MAX_ENTRIES);
+      compact();
+    } else {
+      enqueueWrite(() =>
+        RNFS.appendFile(LOG_FILE_PATH, serialize(entry) + '\n', 'utf8'),
+      );
+    }
+  }
+  notify();
+
+  return entry;
+};
+
+export const getLogEntries = () => entries.slice();
+
+export const getLogCategories = () =>
+  Array.from(new Set(entries.map(entry => entry.category))).sort();
+
+export const queryLogEntries = (query: LogQuery = {}) => {
+  const search = query.search?.toLowerCase();
+  const minLevel = query.level ? LOG_LEVELS.indexOf(query.level) : 0;
+
+  return entries.filter(
+    entry =>
+      (!query.category || entry.category === query.category) &&
+      LOG_LEVELS.indexOf(entry.level) >= minLevel &&
+      (!search || entry.message.toLowerCase().includes(search)),
+  );
+};
+
+export const subscribeToEventLog = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearEventLog = async () => {
+  entries = [];
+  notify();
+  await enqueueWrite(() => RNFS.writeFile(LOG_FILE_PATH, '', 'utf8'));
+};
+
+// Writes the (optionally filtered) log to the Downloads folder and returns
+// the path of the exported file
+export const exportEventLog = async (
+  format: LogExportFormat,
+  query: LogQuery = {},
+) => {
+  const selected = queryLogEntries(query);
+  const content =
+    format === 'json'
+      ? JSON.stringify(selected, null, 2)
+      : selected.map(entry => serialize(entry) + '\n').join('');
+
+  const filename = `nativebridge_logs_${Date.now()}.${format}`;
+  const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+  await RNFS.writeFile(path, content, 'utf8');
+
+  return {path, count: selected.length};
+};
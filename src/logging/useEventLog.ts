@@ -0,0 +1,11 @@
+import {useEffect, useState} from 'react';
+import {getLogEntries, LogEntry, subscribeToEventLog} from './eventLog';
+
+// Re-renders the caller whenever an entry is logged or the log is cleared
+export const useEventLog = () => {
+  const [entries, setEntries] = useState<LogEntry[]>(getLogEntries);
+
+  useEffect(() => subscribeToEventLog(setEntries), []);
+
+  return entries;
+};
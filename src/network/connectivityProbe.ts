@@ -0,0 +1,161 @@
+/**
+ * NativeBridge Connectivity Probe
+ *
+ * Periodic latency probe behind the Network tab's connectivity panel. Each
+ * probe is a small uncached GET against a configurable endpoint; the last
+ * samples give min/avg/max latency and the loss rate, which shows whether a
+ * simulated network condition (offline, 3G, high loss) reached the device.
+ * Probes use plain fetch, bypassing the record/replay transport.
+ */
+
+export interface ProbeOptions {
+  url: string;
+  intervalMs: number;
+  timeoutMs: number;
+}
+
+export interface ProbeSample {
+  at: number;
+  ok: boolean;
+  latencyMs?: number;
+  status?: number;
+  error?: string;
+}
+
+export interface ProbeStats {
+  sent: number;
+  received: number;
+  lossPercent: number;
+  // Null until a probe succeeds
+  minMs: number | null;
+  avgMs: number | null;
+  maxMs: number | null;
+}
+
+// Answers 204 with an empty body; the standard Android connectivity check
+export const DEFAULT_PROBE_URL = 'https://clients3.google.com/generate_204';
+
+export const DEFAULT_PROBE_OPTIONS: ProbeOptions = {
+  url: DEFAULT_PROBE_URL,
+  intervalMs: 2000,
+  timeoutMs: 5000,
+};
+
+// Samples kept for the statistics
+export const PROBE_WINDOW = 30;
+
+const MIN_PROBE_INTERVAL_MS = 250;
+
+export const validateProbeOptions = (options: ProbeOptions) => {
+  if (!/^https?:\/\/\S+$/i.test(options.url.trim())) {
+    throw new Error('Probe URL must start with http:// or https://');
+  }
+  if (
+    !Number.isFinite(options.intervalMs) ||
+    options.intervalMs < MIN_PROBE_INTERVAL_MS
+  ) {
+    throw new Error(
+      `Probe interval must be at least ${MIN_PROBE_INTERVAL_MS}ms`,
+    );
+  }
+  if (!Number.isFinite(options.timeoutMs) || options.timeoutMs <= 0) {
+    throw new Error('Probe timeout must be a positive number of milliseconds');
+  }
+  return options;
+};
+
+// Any HTTP answer counts as reachable; only failures to get one are loss
+export const probeOnce = async (
+  url: string,
+  timeoutMs: number,
+): Promise<ProbeSample> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const at = Date.now();
+  try {
+    const separator = url.includes('?') ? '&' : '?';
+    const response = await fetch(`${url}${separator}_probe=${at}`, {
+      method: 'GET',
+      headers: {'Cache-Control': 'no-cache'},
+      signal: controller.signal,
+    });
+    return {at, ok: true, latencyMs: Date.now() - at, status: response.status};
+  } catch (error) {
+    return {
+      at,
+      ok: false,
+      error: controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error
+        ? error.message
+        : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const summarizeProbes = (samples: ProbeSample[]): ProbeStats => {
+  const latencies = samples
+    .filter(sample => sample.ok)
+    .map(sample => sample.latencyMs!);
+  const sent = samples.length;
+  const received = latencies.length;
+  return {
+    sent,
+    received,
+    lossPercent: sent > 0 ? ((sent - received) / sent) * 100 : 0,
+    minMs: received > 0 ? Math.min(...latencies) : null,
+    avgMs:
+      received > 0
+        ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / received)
+        : null,
+    maxMs: received > 0 ? Math.max(...latencies) : null,
+  };
+};
+
+// Probes right away and then every intervalMs, never overlapping: a slow
+// probe delays the next one instead of piling up requests
+export const createLatencyProbe = (
+  options: ProbeOptions,
+  onSample: (sample: ProbeSample, window: ProbeSample[]) => void,
+) => {
+  let samples: ProbeSample[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  // Bumped by every start and stop, so a probe still in flight from an
+  // earlier run ends that run's loop instead of continuing beside the new one
+  let generation = 0;
+
+  const tick = async (run: number) => {
+    const startedAt = Date.now();
+    const sample = await probeOnce(options.url, options.timeoutMs);
+    if (run !== generation) {
+      return;
+    }
+    samples = [...samples, sample].slice(-PROBE_WINDOW);
+    onSample(sample, samples);
+    timer = setTimeout(
+      () => tick(run),
+      Math.max(options.intervalMs - (Date.now() - startedAt), 0),
+    );
+  };
+
+  return {
+    start: () => {
+      if (!running) {
+        running = true;
+        tick(++generation);
+      }
+    },
+    stop: () => {
+      running = false;
+      generation++;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+    isRunning: () => running,
+  };
+};
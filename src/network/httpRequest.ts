@@ -0,0 +1,147 @@
+/**
+ * NativeBridge HTTP Request Console
+ *
+ * Request model and executor behind the Network tab's request builder, so
+ * device runs can target staging APIs or a local mock server at runtime.
+ * Requests are sent through the configurable transport (see transport.ts).
+ */
+
+import {transportFetch} from './transport';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+export const HTTP_METHODS: HttpMethod[] = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+];
+
+export interface HttpRequestSpec {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+}
+
+export interface HttpResponseSummary {
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+}
+
+export interface HttpHistoryEntry {
+  id: number;
+  sentAt: string;
+  request: HttpRequestSpec;
+  status?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+export class HttpTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+// A response that arrived but reports failure
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status} ${statusText}`.trim());
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+// GET and HEAD requests cannot carry a body in fetch
+export const methodAllowsBody = (method: HttpMethod) =>
+  method !== 'GET' && method !== 'HEAD';
+
+// Parses "Name: value" lines; blank lines and lines without a colon are ignored
+export const parseHeaders = (text: string) => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      const name = line.slice(0, separator).trim();
+      if (name) {
+        headers[name] = line.slice(separator + 1).trim();
+      }
+    }
+  });
+  return headers;
+};
+
+export const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+// Pretty-prints JSON bodies and leaves anything else untouched
+export const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+export const validateRequest = (spec: HttpRequestSpec) => {
+  if (!/^https?:\/\/\S+$/i.test(spec.url.trim())) {
+    return 'URL must start with http:// or https://';
+  }
+  if (!Number.isFinite(spec.timeoutMs) || spec.timeoutMs <= 0) {
+    return 'Timeout must be a positive number of milliseconds';
+  }
+  return null;
+};
+
+export const sendHttpRequest = async (
+  spec: HttpRequestSpec,
+): Promise<HttpResponseSummary> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, spec.timeoutMs);
+
+  const startTime = Date.now();
+  try {
+    const response = await transportFetch(
+      {
+        url: spec.url.trim(),
+        method: spec.method,
+        headers: spec.headers,
+        body:
+          methodAllowsBody(spec.method) && spec.body ? spec.body : undefined,
+      },
+      controller.signal,
+    );
+
+    return {
+      ...response,
+      ok: response.status >= 200 && response.status < 300,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    if (timedOut) {
+      throw new HttpTimeoutError(spec.timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,174 @@
+/**
+ * NativeBridge Multipart Upload
+ *
+ * Uploads files as multipart/form-data through RNFS.uploadFiles, one request
+ * per file so each file gets its own progress, status and timing. Point it at
+ * a local stand-in server (10.0.2.2 is the host machine from the Android
+ * emulator) to exercise upload flows and proxies.
+ */
+
+import RNFS from 'react-native-fs';
+
+export interface UploadSource {
+  name: string;
+  // Plain filesystem path; content:// URIs must be copied locally first
+  path: string;
+  type: string | null;
+  size: number;
+}
+
+export interface UploadOptions {
+  url: string;
+  // Form field name of the file part
+  fieldName: string;
+  method: 'POST' | 'PUT';
+  headers: Record<string, string>;
+  fields: Record<string, string>;
+}
+
+export interface UploadFileResult {
+  name: string;
+  size: number;
+  status?: number;
+  durationMs: number;
+  responseBody?: string;
+  error?: string;
+  cancelled?: boolean;
+}
+
+export interface UploadCallbacks {
+  onFileStart?: (index: number) => void;
+  onProgress?: (index: number, sentBytes: number, totalBytes: number) => void;
+  onFileDone?: (index: number, result: UploadFileResult) => void;
+}
+
+export const DEFAULT_UPLOAD_URL = 'http://10.0.2.2:8080/upload';
+
+export const DEFAULT_UPLOAD_OPTIONS: UploadOptions = {
+  url: DEFAULT_UPLOAD_URL,
+  fieldName: 'file',
+  method: 'POST',
+  headers: {},
+  fields: {},
+};
+
+// Response bodies are kept for display only, so long ones are cut
+const MAX_RESPONSE_BODY = 2000;
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// Progress events are broadcast for every job, so each upload filters on
+// its own job id
+const uploadOne = (
+  source: UploadSource,
+  options: UploadOptions,
+  onProgress: (sentBytes: number, totalBytes: number) => void,
+) => {
+  let cancel = () => {};
+  const cancelled = new Promise<never>((_, reject) => {
+    cancel = () => reject(new UploadCancelledError());
+  });
+  // Cancelling after the upload settled must not surface as unhandled
+  cancelled.catch(() => {});
+
+  const {jobId, promise} = RNFS.uploadFiles({
+    toUrl: options.url,
+    method: options.method,
+    headers: options.headers,
+    fields: options.fields,
+    files: [
+      {
+        name: options.fieldName,
+        filename: source.name,
+        filepath: source.path,
+        filetype: source.type ?? 'application/octet-stream',
+      },
+    ],
+    progress: event => {
+      if (event.jobId === jobId) {
+        onProgress(event.totalBytesSent, event.totalBytesExpectedToSend);
+      }
+    },
+  });
+
+  return {
+    // Android's uploader ignores stopUpload once sending has started, so a
+    // cancelled request is abandoned rather than awaited
+    promise: Promise.race([promise, cancelled]),
+    cancel: () => {
+      RNFS.stopUpload(jobId);
+      cancel();
+    },
+  };
+};
+
+// Uploads the files in order; cancel() stops the current file and skips
+// the rest
+export const uploadFiles = (
+  sources: UploadSource[],
+  options: UploadOptions,
+  callbacks: UploadCallbacks = {},
+) => {
+  let cancelled = false;
+  let cancelCurrent = () => {};
+
+  const run = async () => {
+    const results: UploadFileResult[] = [];
+    for (let index = 0; index < sources.length; index++) {
+      const source = sources[index];
+      const startTime = Date.now();
+      let result: UploadFileResult;
+
+      if (cancelled) {
+        result = {
+          name: source.name,
+          size: source.size,
+          durationMs: 0,
+          error: 'Skipped: upload cancelled',
+          cancelled: true,
+        };
+      } else {
+        callbacks.onFileStart?.(index);
+        const job = uploadOne(source, options, (sent, total) =>
+          callbacks.onProgress?.(index, sent, total),
+        );
+        cancelCurrent = job.cancel;
+        try {
+          const response = await job.promise;
+          result = {
+            name: source.name,
+            size: source.size,
+            status: response.statusCode,
+            durationMs: Date.now() - startTime,
+            responseBody: response.body.slice(0, MAX_RESPONSE_BODY),
+          };
+        } catch (error) {
+          result = {
+            name: source.name,
+            size: source.size,
+            durationMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            cancelled: error instanceof UploadCancelledError,
+          };
+        }
+      }
+
+      results.push(result);
+      callbacks.onFileDone?.(index, result);
+    }
+    return results;
+  };
+
+  return {
+    promise: run(),
+    cancel: () => {
+      cancelled = true;
+      cancelCurrent();
+    },
+  };
+};
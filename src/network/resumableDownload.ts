@@ -0,0 +1,397 @@
+/**
+ * NativeBridge Resumable Download
+ *
+ * Download manager behind the Network tab. Files are fetched with
+ * RNFS.downloadFile into a `.part` file next to the target. Pausing stops
+ * the native job and keeps what arrived; resuming requests the rest with an
+ * HTTP Range header. Every run writes its own segment file (the native
+ * downloader always truncates its target), which is appended to the part
+ * file in chunks once the run ends. On iOS the native job only writes its
+ * target on completion, so a paused run there resumes from the previous one.
+ */
+
+import RNFS from 'react-native-fs';
+
+export type DownloadDestination = 'downloads' | 'app';
+
+export type DownloadStatus =
+  | 'idle'
+  | 'downloading'
+  | 'paused'
+  | 'verifying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+export interface DownloadSpec {
+  url: string;
+  fileName: string;
+  destination: DownloadDestination;
+  // Hex digest, optionally prefixed with its algorithm ("sha256:...")
+  expectedChecksum?: string;
+}
+
+export interface ChecksumVerification {
+  algorithm: ChecksumAlgorithm;
+  expected: string;
+  actual: string;
+  pass: boolean;
+}
+
+export interface DownloadState {
+  status: DownloadStatus;
+  path: string;
+  receivedBytes: number;
+  // Null until the server reports a length
+  totalBytes: number | null;
+  // Over the last THROUGHPUT_WINDOW_MS
+  currentBytesPerSecond: number;
+  // Over the time spent actually downloading, pauses excluded
+  averageBytesPerSecond: number;
+  // Whether the server honoured the last Range request
+  resumedWithRange?: boolean;
+  verification?: ChecksumVerification;
+  error?: string;
+}
+
+export const DOWNLOAD_DESTINATIONS: DownloadDestination[] = [
+  'downloads',
+  'app',
+];
+
+const THROUGHPUT_WINDOW_MS = 2000;
+const PROGRESS_INTERVAL_MS = 250;
+
+// iOS never settles the job promise after stopDownload (the job ends through
+// its resume-data path instead), so a stop settles the run itself once the
+// native job had this long to wind down
+const STOP_SETTLE_MS = 500;
+
+// Segment bytes moved into the part file per read/append round trip
+const MERGE_CHUNK_BYTES = 1024 * 1024;
+
+const CHECKSUM_LENGTHS: Record<number, ChecksumAlgorithm> = {
+  32: 'md5',
+  40: 'sha1',
+  64: 'sha256',
+};
+
+export class InvalidChecksumError extends Error {
+  constructor(checksum: string) {
+    super(
+      `Invalid checksum "${checksum}": expected an MD5, SHA-1 or SHA-256 hex digest`,
+    );
+    this.name = 'InvalidChecksumError';
+  }
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${Math.round(bytes)} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 2 : 1)} ${units[unit]}`;
+};
+
+export const destinationDirectory = (destination: DownloadDestination) =>
+  destination === 'downloads'
+    ? RNFS.DownloadDirectoryPath
+    : `${RNFS.DocumentDirectoryPath}/downloads`;
+
+// Last path segment of the URL, without query, as a safe file name
+export const fileNameFromUrl = (url: string) => {
+  const name = decodeURIComponent(
+    url.split(/[?#]/)[0].split('/').filter(Boolean).pop() ?? '',
+  ).replace(/[^\w.-]/g, '_');
+  return name && !/^https?:$/i.test(name) ? name : `download_${Date.now()}`;
+};
+
+// Accepts "<hex>" or "<algorithm>:<hex>"; the algorithm defaults by length
+export const parseChecksum = (checksum: string) => {
+  const [prefix, digest] = checksum.includes(':')
+    ? checksum.split(':', 2)
+    : [null, checksum];
+  const hex = digest.trim().toLowerCase();
+  const algorithm = (prefix?.toLowerCase().replace('-', '') ??
+    CHECKSUM_LENGTHS[hex.length]) as ChecksumAlgorithm | undefined;
+  if (
+    !/^[0-9a-f]+$/.test(hex) ||
+    !algorithm ||
+    CHECKSUM_LENGTHS[hex.length] !== algorithm
+  ) {
+    throw new InvalidChecksumError(checksum);
+  }
+  return {algorithm, expected: hex};
+};
+
+export const verifyChecksum = async (
+  path: string,
+  checksum: string,
+): Promise<ChecksumVerification> => {
+  const {algorithm, expected} = parseChecksum(checksum);
+  const actual = (await RNFS.hash(path, algorithm)).toLowerCase();
+  return {algorithm, expected, actual, pass: actual === expected};
+};
+
+// Appends one file to another without holding it in memory as a whole
+const appendFileContents = async (source: string, target: string) => {
+  const {size} = await RNFS.stat(source);
+  for (let position = 0; position < size; position += MERGE_CHUNK_BYTES) {
+    const chunk = await RNFS.read(
+      source,
+      MERGE_CHUNK_BYTES,
+      position,
+      'base64',
+    );
+    await RNFS.appendFile(target, chunk, 'base64');
+  }
+  return Number(size);
+};
+
+const unlinkIfExists = async (path: string) => {
+  if (await RNFS.exists(path)) {
+    await RNFS.unlink(path);
+  }
+};
+
+// "bytes 100-999/1000" -> 1000
+const totalFromContentRange = (value: string | undefined) => {
+  const match = value ? /\/(\d+)\s*$/.exec(value) : null;
+  return match ? Number(match[1]) : null;
+};
+
+const headerValue = (headers: Record<string, string>, name: string) =>
+  Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === name.toLowerCase(),
+  )?.[1];
+
+export const createDownload = (
+  spec: DownloadSpec,
+  onChange: (state: DownloadState) => void,
+) => {
+  const directory = destinationDirectory(spec.destination);
+  const path = `${directory}/${spec.fileName}`;
+  const partPath = `${path}.part`;
+
+  let state: DownloadState = {
+    status: 'idle',
+    path,
+    receivedBytes: 0,
+    totalBytes: null,
+    currentBytesPerSecond: 0,
+    averageBytesPerSecond: 0,
+  };
+  // Bytes already merged into the part file
+  let committedBytes = 0;
+  let segment = 0;
+  let jobId: number | null = null;
+  // Time spent downloading and bytes received by earlier runs
+  let activeMs = 0;
+  let transferredBytes = 0;
+  let runStartedAt = 0;
+  let samples: {time: number; bytes: number}[] = [];
+  // Set before stopping the native job, so its rejection is not a failure
+  let stopReason: 'pause' | 'cancel' | null = null;
+  // Settles the current run after a stop, whether or not the job does
+  let settleStopped: (() => void) | null = null;
+
+  const update = (changes: Partial<DownloadState>) => {
+    state = {...state, ...changes};
+    onChange(state);
+  };
+
+  const recordProgress = (receivedBytes: number, runBytes: number) => {
+    const now = Date.now();
+    samples = [...samples, {time: now, bytes: receivedBytes}].filter(
+      sample => now - sample.time <= THROUGHPUT_WINDOW_MS,
+    );
+    const oldest = samples[0];
+    const windowMs = now - oldest.time;
+    const elapsedMs = activeMs + (now - runStartedAt);
+    update({
+      receivedBytes,
+      currentBytesPerSecond:
+        windowMs > 0 ? ((receivedBytes - oldest.bytes) * 1000) / windowMs : 0,
+      averageBytesPerSecond:
+        elapsedMs > 0 ? ((transferredBytes + runBytes) * 1000) / elapsedMs : 0,
+    });
+  };
+
+  const finishRun = async (segmentPath: string, restarted: boolean) => {
+    activeMs += Date.now() - runStartedAt;
+    if (restarted) {
+      // The server ignored Range and sent the whole file again
+      await unlinkIfExists(partPath);
+      committedBytes = 0;
+    }
+    if (await RNFS.exists(segmentPath)) {
+      const runBytes = await appendFileContents(segmentPath, partPath);
+      committedBytes += runBytes;
+      transferredBytes += runBytes;
+      await RNFS.unlink(segmentPath);
+    }
+    jobId = null;
+    samples = [];
+  };
+
+  const transfer = async () => {
+    await RNFS.mkdir(directory);
+    if (!(await RNFS.exists(partPath))) {
+      await RNFS.writeFile(partPath, '', 'utf8');
+    }
+
+    const segmentPath = `${partPath}.${segment++}`;
+    const offset = committedBytes;
+    let restarted = false;
+    stopReason = null;
+    const stopped = new Promise<never>((_, reject) => {
+      settleStopped = () =>
+        setTimeout(() => reject(new Error('Download stopped')), STOP_SETTLE_MS);
+    });
+    runStartedAt = Date.now();
+    update({status: 'downloading', error: undefined});
+
+    const job = RNFS.downloadFile({
+      fromUrl: spec.url,
+      toFile: segmentPath,
+      headers: offset > 0 ? {Range: `bytes=${offset}-`} : {},
+      progressInterval: PROGRESS_INTERVAL_MS,
+      begin: ({statusCode, contentLength, headers}) => {
+        restarted = offset > 0 && statusCode !== 206;
+        const base = restarted ? 0 : offset;
+        update({
+          totalBytes:
+            totalFromContentRange(headerValue(headers, 'Content-Range')) ??
+            (contentLength > 0 ? base + contentLength : null),
+          resumedWithRange: offset > 0 ? !restarted : undefined,
+        });
+      },
+      progress: ({bytesWritten}) => {
+        if (stopReason === null) {
+          recordProgress((restarted ? 0 : offset) + bytesWritten, bytesWritten);
+        }
+      },
+    });
+    jobId = job.jobId;
+
+    try {
+      const result = await Promise.race([job.promise, stopped]);
+      if (result.statusCode >= 400) {
+        // The body is an error page, not part of the file
+        await unlinkIfExists(segmentPath);
+        restarted = false;
+        throw new Error(`HTTP ${result.statusCode}`);
+      }
+      await finishRun(segmentPath, restarted);
+    } catch (error) {
+      if (stopReason === null) {
+        await finishRun(segmentPath, restarted).catch(() => {});
+        update({
+          status: 'failed',
+          receivedBytes: committedBytes,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return;
+      }
+      await finishRun(segmentPath, restarted);
+      if (stopReason === 'cancel') {
+        await unlinkIfExists(partPath);
+        committedBytes = 0;
+        update({
+          status: 'cancelled',
+          receivedBytes: 0,
+          currentBytesPerSecond: 0,
+        });
+      } else {
+        update({
+          status: 'paused',
+          receivedBytes: committedBytes,
+          currentBytesPerSecond: 0,
+        });
+      }
+      return;
+    }
+
+    update({receivedBytes: committedBytes, currentBytesPerSecond: 0});
+    await unlinkIfExists(path);
+    await RNFS.moveFile(partPath, path);
+
+    if (spec.expectedChecksum) {
+      update({status: 'verifying'});
+      const verification = await verifyChecksum(path, spec.expectedChecksum);
+      update({
+        status: verification.pass ? 'completed' : 'failed',
+        verification,
+        error: verification.pass ? undefined : 'Checksum mismatch',
+      });
+    } else {
+      update({status: 'completed'});
+    }
+  };
+
+  // Failures outside the transfer itself (moving the file into place,
+  // hashing it, settling a stopped run) would otherwise leave the status at
+  // downloading
+  const run = async () => {
+    try {
+      await transfer();
+    } catch (error) {
+      update({
+        status: 'failed',
+        currentBytesPerSecond: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  const start = async () => {
+    if (spec.expectedChecksum) {
+      // Fail before transferring anything
+      parseChecksum(spec.expectedChecksum);
+    }
+    await unlinkIfExists(partPath);
+    committedBytes = 0;
+    activeMs = 0;
+    transferredBytes = 0;
+    update({
+      receivedBytes: 0,
+      totalBytes: null,
+      averageBytesPerSecond: 0,
+      verification: undefined,
+    });
+    return run();
+  };
+
+  const stop = (reason: 'pause' | 'cancel') => {
+    if (jobId === null) {
+      return false;
+    }
+    stopReason = reason;
+    RNFS.stopDownload(jobId);
+    settleStopped?.();
+    return true;
+  };
+
+  return {
+    start,
+    pause: () => stop('pause'),
+    resume: () => (state.status === 'paused' ? run() : Promise.resolve()),
+    cancel: async () => {
+      if (!stop('cancel') && state.status === 'paused') {
+        await unlinkIfExists(partPath);
+        committedBytes = 0;
+        update({status: 'cancelled', receivedBytes: 0});
+      }
+    },
+    getState: () => state,
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * NativeBridge Retry Policy
+ *
+ * Exponential backoff with jitter for the Network tab's request handlers.
+ * The delay before retry n (1-based) is baseDelayMs * 2^(n-1), capped at
+ * maxDelayMs; full jitter then picks a random delay between zero and that
+ * value, so retries from many devices do not arrive in lockstep. Only
+ * idempotent methods are retried unless the policy opts in, since a POST
+ * that timed out may still have been applied.
+ */
+
+import {HttpStatusError, HttpTimeoutError} from './httpRequest';
+
+export interface RetryPolicy {
+  enabled: boolean;
+  // Total attempts, including the first
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  // Also retry POST and PATCH, which may apply the same write twice
+  retryNonIdempotent: boolean;
+}
+
+export interface RetryAttempt {
+  // 1-based number of the attempt that failed
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+export class InvalidRetryPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRetryPolicyError';
+  }
+}
+
+export class RetriesExhaustedError extends Error {
+  readonly attempts: number;
+  readonly lastError: unknown;
+
+  constructor(attempts: number, lastError: unknown) {
+    const reason =
+      lastError instanceof Error ? lastError.message : String(lastError);
+    super(`${reason} (after ${attempts} attempts)`);
+    this.name = 'RetriesExhaustedError';
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+export const validateRetryPolicy = (policy: RetryPolicy) => {
+  if (
+    !Number.isInteger(policy.maxAttempts) ||
+    policy.maxAttempts < 1 ||
+    policy.maxAttempts > 10
+  ) {
+    throw new InvalidRetryPolicyError(
+      `Attempts must be 1-10, got ${policy.maxAttempts}`,
+    );
+  }
+  if (!Number.isFinite(policy.baseDelayMs) || policy.baseDelayMs < 0) {
+    throw new InvalidRetryPolicyError(
+      `Base delay must be a non-negative number, got ${policy.baseDelayMs}`,
+    );
+  }
+  if (
+    !Number.isFinite(policy.maxDelayMs) ||
+    policy.maxDelayMs < policy.baseDelayMs
+  ) {
+    throw new InvalidRetryPolicyError(
+      `Max delay must be at least the base delay, got ${policy.maxDelayMs}`,
+    );
+  }
+  return policy;
+};
+
+export const backoffDelay = (
+  policy: RetryPolicy,
+  retry: number,
+  random: () => number = Math.random,
+) => {
+  const ceiling = Math.min(
+    policy.baseDelayMs * 2 ** (retry - 1),
+    policy.maxDelayMs,
+  );
+  return Math.round(policy.jitter ? random() * ceiling : ceiling);
+};
+
+// Timeouts, network failures, 5xx, 408 and 429 are worth another try;
+// other client errors will fail the same way again
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof HttpStatusError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return error instanceof HttpTimeoutError || error instanceof TypeError;
+};
+
+// The policy to send a request of the given method with: retries turned off
+// for non-idempotent methods unless the policy opts in
+export const policyForMethod = (
+  policy: RetryPolicy,
+  method: string,
+): RetryPolicy =>
+  policy.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method.toUpperCase())
+    ? policy
+    : {...policy, enabled: false};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(
+  policy: RetryPolicy,
+  operation: (attempt: number) => Promise<T>,
+  onRetry?: (retry: RetryAttempt) => void,
+): Promise<T> => {
+  const maxAttempts = policy.enabled ? policy.maxAttempts : 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= maxAttempts) {
+        throw attempt > 1 ? new RetriesExhaustedError(attempt, error) : error;
+      }
+      const delayMs = backoffDelay(policy, attempt);
+      onRetry?.({attempt, maxAttempts, delayMs, error});
+      await sleep(delayMs);
+    }
+  }
+};
@@ -0,0 +1,249 @@
+/**
+ * NativeBridge Network Transport
+ *
+ * Every Network tab request goes through this transport, which can be
+ * switched at runtime between:
+ * - live:   plain `fetch`
+ * - record: `fetch`, saving each response as a fixture file
+ * - replay: serve recorded fixtures offline, with injected latency and faults
+ *
+ * Fixtures live in the app's external files directory on Android, so they
+ * can be pulled from or pushed to a device with adb.
+ */
+
+import {Platform} from 'react-native';
+import RNFS from 'react-native-fs';
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export type TransportFault =
+  | 'none'
+  | 'timeout'
+  | 'server-error'
+  | 'malformed-json';
+
+export const TRANSPORT_MODES: TransportMode[] = ['live', 'record', 'replay'];
+
+export const TRANSPORT_FAULTS: TransportFault[] = [
+  'none',
+  'timeout',
+  'server-error',
+  'malformed-json',
+];
+
+export interface TransportConfig {
+  mode: TransportMode;
+  // Replay only: delay before a fixture is served
+  latencyMs: number;
+  // Replay only: fault injected into a fraction (0-1) of responses
+  fault: TransportFault;
+  faultRate: number;
+}
+
+export interface TransportRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface Fixture {
+  recordedAt: string;
+  request: {method: string; url: string; body?: string};
+  response: TransportResponse;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(request: TransportRequest) {
+    super(`No fixture recorded for ${request.method} ${request.url}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+export const FIXTURE_DIRECTORY = `${
+  Platform.OS === 'android'
+    ? RNFS.ExternalDirectoryPath
+    : RNFS.DocumentDirectoryPath
+}/fixtures`;
+
+let config: TransportConfig = {
+  mode: 'live',
+  latencyMs: 0,
+  fault: 'none',
+  faultRate: 1,
+};
+
+export const getTransportConfig = () => config;
+
+export const configureTransport = (changes: Partial<TransportConfig>) => {
+  config = {...config, ...changes};
+  return config;
+};
+
+// FNV-1a, enough to give each request a stable fixture file name
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    /* eslint-disable no-bitwise */
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+    /* eslint-enable no-bitwise */
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const fixturePathFor = (request: TransportRequest) => {
+  const method = request.method.toUpperCase();
+  const host = request.url
+    .replace(/^[a-z]+:\/\//i, '')
+    .split('/')[0]
+    .replace(/[^a-z0-9.-]/gi, '_');
+  const key = hashString(`${method} ${request.url}\n${request.body ?? ''}`);
+  return `${FIXTURE_DIRECTORY}/${method}_${host}_${key}.json`;
+};
+
+const abortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Resolves after `ms`, or rejects as soon as the request is aborted
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    });
+  });
+
+const fetchLive = async (
+  request: TransportRequest,
+  signal?: AbortSignal,
+): Promise<TransportResponse> => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal,
+  });
+  const body = request.method === 'HEAD' ? '' : await response.text();
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value: string, name: string) => {
+    headers[name] = value;
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body,
+  };
+};
+
+const recordFixture = async (
+  request: TransportRequest,
+  response: TransportResponse,
+) => {
+  const fixture: Fixture = {
+    recordedAt: new Date().toISOString(),
+    request: {method: request.method, url: request.url, body: request.body},
+    response,
+  };
+  await RNFS.mkdir(FIXTURE_DIRECTORY);
+  await RNFS.writeFile(
+    fixturePathFor(request),
+    JSON.stringify(fixture, null, 2),
+    'utf8',
+  );
+};
+
+const injectFault = async (
+  response: TransportResponse,
+  signal?: AbortSignal,
+): Promise<TransportResponse> => {
+  if (config.fault === 'none' || Math.random() >= config.faultRate) {
+    return response;
+  }
+
+  switch (config.fault) {
+    case 'timeout':
+      // Never answers; the caller's own timeout aborts the request
+      await new Promise<never>((_, reject) => {
+        signal?.addEventListener('abort', () => reject(abortError()));
+      });
+      return response;
+    case 'server-error':
+      return {
+        status: 500,
+        statusText: 'Internal Server Error',
+        headers: {'content-type': 'application/json'},
+        body: JSON.stringify({error: 'Injected server error'}),
+      };
+    case 'malformed-json':
+      return {
+        ...response,
+        body: response.body.slice(0, Math.floor(response.body.length / 2)),
+      };
+  }
+};
+
+const replayFixture = async (
+  request: TransportRequest,
+  signal?: AbortSignal,
+) => {
+  const path = fixturePathFor(request);
+  if (!(await RNFS.exists(path))) {
+    throw new FixtureNotFoundError(request);
+  }
+  const fixture: Fixture = JSON.parse(await RNFS.readFile(path, 'utf8'));
+
+  if (config.latencyMs > 0) {
+    await delay(config.latencyMs, signal);
+  }
+  return injectFault(fixture.response, signal);
+};
+
+export const transportFetch = async (
+  request: TransportRequest,
+  signal?: AbortSignal,
+): Promise<TransportResponse> => {
+  switch (config.mode) {
+    case 'live':
+      return fetchLive(request, signal);
+    case 'record': {
+      const response = await fetchLive(request, signal);
+      await recordFixture(request, response);
+      return response;
+    }
+    case 'replay':
+      return replayFixture(request, signal);
+  }
+};
+
+export const listFixtures = async () => {
+  if (!(await RNFS.exists(FIXTURE_DIRECTORY))) {
+    return [];
+  }
+  const files = await RNFS.readDir(FIXTURE_DIRECTORY);
+  return files.filter(file => file.name.endsWith('.json'));
+};
+
+export const clearFixtures = async () => {
+  if (await RNFS.exists(FIXTURE_DIRECTORY)) {
+    await RNFS.unlink(FIXTURE_DIRECTORY);
+  }
+};
@@ -0,0 +1,426 @@
+/**
+ * NativeBridge WebSocket Session
+ *
+ * WebSocket client behind the Network tab's WebSocket panel. Keeps a bounded
+ * log of text and binary frames, reconnects with exponential backoff when
+ * the connection drops, and in echo mode sends numbered probe frames to an
+ * echo server to measure round-trip time and count frames that never come
+ * back. Probe frames are counted but kept out of the message log.
+ */
+
+import {toHex} from '../encoding/hex';
+import {utf8Encode} from '../encoding/utf8';
+import {ProbeSample, ProbeStats, summarizeProbes} from './connectivityProbe';
+import {backoffDelay, RetryPolicy} from './retryPolicy';
+
+export type WebSocketStatus =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed';
+
+export type WebSocketFrameKind = 'text' | 'binary';
+
+export interface WebSocketOptions {
+  url: string;
+  autoReconnect: boolean;
+  // Probe frames unanswered for this long count as dropped
+  echoTimeoutMs: number;
+}
+
+export interface WebSocketLogEntry {
+  id: number;
+  at: number;
+  direction: 'sent' | 'received' | 'event';
+  kind: WebSocketFrameKind | 'event';
+  bytes: number;
+  // Text (truncated) or hex of the first bytes; the message for events
+  preview: string;
+}
+
+export interface EchoStats {
+  running: boolean;
+  sent: number;
+  received: number;
+  dropped: number;
+  // Echoes that arrived after being counted as dropped
+  late: number;
+  // Last ECHO_WINDOW outcomes, oldest first
+  window: ProbeSample[];
+  windowStats: ProbeStats;
+}
+
+export interface WebSocketSessionState {
+  status: WebSocketStatus;
+  url: string;
+  openedAt?: number;
+  // Successful reconnects since connect()
+  reconnects: number;
+  // Failed attempts since the connection was last open
+  reconnectAttempt: number;
+  nextReconnectAt?: number;
+  framesSent: number;
+  framesReceived: number;
+  bytesSent: number;
+  bytesReceived: number;
+  // Newest first
+  log: WebSocketLogEntry[];
+  echo: EchoStats;
+  lastClose?: string;
+}
+
+export const DEFAULT_WEBSOCKET_OPTIONS: WebSocketOptions = {
+  url: 'ws://10.0.2.2:8090/echo',
+  autoReconnect: true,
+  echoTimeoutMs: 5000,
+};
+
+export const DEFAULT_ECHO_INTERVAL_MS = 1000;
+export const MAX_WEBSOCKET_LOG = 200;
+export const ECHO_WINDOW = 60;
+
+// Reconnects keep going until disconnect(); only the delay is capped
+const RECONNECT_BACKOFF: RetryPolicy = {
+  enabled: true,
+  maxAttempts: Infinity,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  jitter: true,
+  retryNonIdempotent: false,
+};
+
+const MIN_ECHO_INTERVAL_MS = 100;
+const PREVIEW_CHARS = 200;
+const PREVIEW_BYTES = 32;
+
+// "nb-echo:<seq>:<sent at>"; anything else is an ordinary message
+const ECHO_PREFIX = 'nb-echo:';
+const ECHO_PATTERN = /^nb-echo:(\d+):\d+$/;
+
+// RN's socket takes this property, but its type declarations omit it
+type BinarySocket = WebSocket & {binaryType: 'blob' | 'arraybuffer'};
+
+const emptyEchoStats = (): EchoStats => ({
+  running: false,
+  sent: 0,
+  received: 0,
+  dropped: 0,
+  late: 0,
+  window: [],
+  windowStats: summarizeProbes([]),
+});
+
+export const validateWebSocketOptions = (options: WebSocketOptions) => {
+  if (!/^wss?:\/\/\S+$/i.test(options.url.trim())) {
+    throw new Error('WebSocket URL must start with ws:// or wss://');
+  }
+  if (!Number.isFinite(options.echoTimeoutMs) || options.echoTimeoutMs <= 0) {
+    throw new Error('Echo timeout must be a positive number of milliseconds');
+  }
+  return options;
+};
+
+export const previewText = (text: string) =>
+  text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text;
+
+export const previewBytes = (bytes: Uint8Array) =>
+  `0x${toHex(bytes.subarray(0, PREVIEW_BYTES))}${
+    bytes.length > PREVIEW_BYTES ? '…' : ''
+  }`;
+
+export const createWebSocketSession = (
+  initialOptions: WebSocketOptions,
+  onChange: (state: WebSocketSessionState) => void,
+) => {
+  const options = {...initialOptions};
+  let state: WebSocketSessionState = {
+    status: 'idle',
+    url: options.url,
+    reconnects: 0,
+    reconnectAttempt: 0,
+    framesSent: 0,
+    framesReceived: 0,
+    bytesSent: 0,
+    bytesReceived: 0,
+    log: [],
+    echo: emptyEchoStats(),
+  };
+  let socket: WebSocket | null = null;
+  let nextLogId = 1;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let echoTimer: ReturnType<typeof setInterval> | null = null;
+  let echoSeq = 0;
+  // Probe sequence number -> time sent
+  let pending = new Map<number, number>();
+  // Set by disconnect(), so the close that follows does not reconnect
+  let closing = false;
+  let everOpened = false;
+
+  const update = (changes: Partial<WebSocketSessionState>) => {
+    state = {...state, ...changes};
+    onChange(state);
+  };
+
+  const log = (entry: Omit<WebSocketLogEntry, 'id' | 'at'>) => {
+    update({
+      log: [{id: nextLogId++, at: Date.now(), ...entry}, ...state.log].slice(
+        0,
+        MAX_WEBSOCKET_LOG,
+      ),
+    });
+  };
+
+  const note = (message: string) =>
+    log({direction: 'event', kind: 'event', bytes: 0, preview: message});
+
+  const recordEcho = (
+    samples: ProbeSample[],
+    counts: Partial<Pick<EchoStats, 'received' | 'dropped' | 'late'>>,
+  ) => {
+    const window = [...state.echo.window, ...samples].slice(-ECHO_WINDOW);
+    update({
+      echo: {
+        ...state.echo,
+        received: state.echo.received + (counts.received ?? 0),
+        dropped: state.echo.dropped + (counts.dropped ?? 0),
+        late: state.echo.late + (counts.late ?? 0),
+        window,
+        windowStats: summarizeProbes(window),
+      },
+    });
+  };
+
+  // Pending probes sent before the cutoff are given up on
+  const expirePending = (cutoff: number, reason: string) => {
+    const expired: ProbeSample[] = [];
+    pending.forEach((sentAt, seq) => {
+      if (sentAt <= cutoff) {
+        expired.push({at: sentAt, ok: false, error: reason});
+        pending.delete(seq);
+      }
+    });
+    if (expired.length > 0) {
+      recordEcho(expired, {dropped: expired.length});
+    }
+  };
+
+  const transmit = (data: string | Uint8Array, bytes: number) => {
+    if (!socket || state.status !== 'open') {
+      throw new Error('WebSocket is not open');
+    }
+    // RN's native module sends views by their whole underlying buffer
+    socket.send(
+      typeof data === 'string'
+        ? data
+        : data.buffer.slice(data.byteOffset, data.byteOffset + bytes),
+    );
+    update({
+      framesSent: state.framesSent + 1,
+      bytesSent: state.bytesSent + bytes,
+    });
+  };
+
+  const handleEchoFrame = (text: string) => {
+    const match = ECHO_PATTERN.exec(text);
+    const seq = match ? Number(match[1]) : NaN;
+    const sentAt = pending.get(seq);
+    if (sentAt === undefined) {
+      recordEcho([], {late: 1});
+      return;
+    }
+    pending.delete(seq);
+    const now = Date.now();
+    recordEcho([{at: sentAt, ok: true, latencyMs: now - sentAt}], {
+      received: 1,
+    });
+  };
+
+  const handleMessage = (data: unknown) => {
+    if (typeof data === 'string') {
+      const bytes = utf8Encode(data).length;
+      update({
+        framesReceived: state.framesReceived + 1,
+        bytesReceived: state.bytesReceived + bytes,
+      });
+      if (data.startsWith(ECHO_PREFIX)) {
+        handleEchoFrame(data);
+        return;
+      }
+      log({
+        direction: 'received',
+        kind: 'text',
+        bytes,
+        preview: previewText(data),
+      });
+      return;
+    }
+    const bytes =
+      data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(0);
+    update({
+      framesReceived: state.framesReceived + 1,
+      bytesReceived: state.bytesReceived + bytes.length,
+    });
+    log({
+      direction: 'received',
+      kind: 'binary',
+      bytes: bytes.length,
+      preview: previewBytes(bytes),
+    });
+  };
+
+  const scheduleReconnect = () => {
+    const attempt = state.reconnectAttempt + 1;
+    const delayMs = backoffDelay(RECONNECT_BACKOFF, attempt);
+    update({
+      status: 'reconnecting',
+      reconnectAttempt: attempt,
+      nextReconnectAt: Date.now() + delayMs,
+    });
+    note(`Reconnecting in ${delayMs}ms (attempt ${attempt})`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, delayMs);
+  };
+
+  const open = () => {
+    const current = new WebSocket(options.url) as BinarySocket;
+    current.binaryType = 'arraybuffer';
+    socket = current;
+    update({status: 'connecting', nextReconnectAt: undefined});
+
+    current.onopen = () => {
+      if (everOpened) {
+        update({reconnects: state.reconnects + 1});
+      }
+      everOpened = true;
+      update({status: 'open', openedAt: Date.now(), reconnectAttempt: 0});
+      note(`Connected to ${options.url}`);
+    };
+    current.onmessage = event => handleMessage(event.data);
+    current.onerror = event => {
+      note(`Error: ${event.message || 'connection failed'}`);
+    };
+    current.onclose = event => {
+      // A socket replaced by reconnectNow() closes late; ignore it
+      if (socket !== current) {
+        return;
+      }
+      socket = null;
+      const lastClose = `code ${event.code ?? 'n/a'}${
+        event.reason ? ` (${event.reason})` : ''
+      }`;
+      expirePending(Infinity, 'Connection closed');
+      note(`Closed: ${lastClose}`);
+      if (closing || !options.autoReconnect) {
+        update({status: 'closed', openedAt: undefined, lastClose});
+        return;
+      }
+      update({openedAt: undefined, lastClose});
+      scheduleReconnect();
+    };
+  };
+
+  const clearReconnect = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+  };
+
+  const stopEcho = () => {
+    if (echoTimer) {
+      clearInterval(echoTimer);
+      echoTimer = null;
+    }
+    update({echo: {...state.echo, running: false}});
+  };
+
+  return {
+    connect: () => {
+      validateWebSocketOptions(options);
+      closing = false;
+      open();
+    },
+    disconnect: () => {
+      closing = true;
+      clearReconnect();
+      stopEcho();
+      if (socket) {
+        socket.close(1000, 'Closed by user');
+      } else {
+        update({status: 'closed', nextReconnectAt: undefined});
+      }
+    },
+    // Skips the backoff wait, e.g. when the network comes back
+    reconnectNow: (reason: string) => {
+      if (state.status !== 'reconnecting') {
+        return false;
+      }
+      clearReconnect();
+      note(`Reconnecting now: ${reason}`);
+      open();
+      return true;
+    },
+    sendText: (text: string) => {
+      const bytes = utf8Encode(text).length;
+      transmit(text, bytes);
+      log({direction: 'sent', kind: 'text', bytes, preview: previewText(text)});
+    },
+    // The UTF-8 bytes of text, as a binary frame
+    sendBinary: (text: string) => {
+      const bytes = Uint8Array.from(utf8Encode(text));
+      transmit(bytes, bytes.length);
+      log({
+        direction: 'sent',
+        kind: 'binary',
+        bytes: bytes.length,
+        preview: previewBytes(bytes),
+      });
+    },
+    // Probes only go out while the socket is open; the counters carry over
+    // reconnects so drops during a network switch stay visible
+    startEcho: (intervalMs = DEFAULT_ECHO_INTERVAL_MS) => {
+      if (!Number.isFinite(intervalMs) || intervalMs < MIN_ECHO_INTERVAL_MS) {
+        throw new Error(
+          `Echo interval must be at least ${MIN_ECHO_INTERVAL_MS}ms`,
+        );
+      }
+      if (echoTimer) {
+        clearInterval(echoTimer);
+      }
+      pending = new Map();
+      update({echo: {...emptyEchoStats(), running: true}});
+      const tick = () => {
+        const now = Date.now();
+        expirePending(now - options.echoTimeoutMs, 'No echo');
+        if (state.status !== 'open') {
+          return;
+        }
+        const seq = ++echoSeq;
+        const frame = `${ECHO_PREFIX}${seq}:${now}`;
+        transmit(frame, frame.length);
+        pending.set(seq, now);
+        update({echo: {...state.echo, sent: state.echo.sent + 1}});
+      };
+      tick();
+      echoTimer = setInterval(tick, intervalMs);
+    },
+    stopEcho,
+    // Applies from the next close on
+    setAutoReconnect: (enabled: boolean) => {
+      options.autoReconnect = enabled;
+    },
+    clearLog: () => update({log: []}),
+    getState: () => state,
+  };
+};
+
+// One line per entry, for the event log
+export const describeWebSocketFrame = (entry: WebSocketLogEntry) =>
+  entry.kind === 'binary'
+    ? `binary ${entry.bytes} B ${entry.preview}`
+    : entry.kind === 'text'
+    ? `text ${entry.bytes} B "${entry.preview}"`
+    : entry.preview;
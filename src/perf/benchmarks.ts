@@ -0,0 +1,361 @@
+/**
+ * NativeBridge Benchmark Registry
+ *
+ * Named, parameterised workloads for the Perf tab. Each benchmark is run
+ * with warm-up passes followed by N measured repetitions, and reports
+ * summary statistics so device models can be compared across the fleet.
+ *
+ * Workloads are generators executed by the cooperative scheduler, so a run
+ * never freezes the UI and can be cancelled between slices.
+ */
+
+import {Platform} from 'react-native';
+import RNFS from 'react-native-fs';
+import {
+  FrameStats,
+  runCooperatively,
+  startFrameMonitor,
+  Workload,
+} from './scheduler';
+
+export interface BenchmarkParam {
+  name: string;
+  label: string;
+  defaultValue: number;
+}
+
+export type BenchmarkParams = Record<string, number>;
+
+export interface BenchmarkDefinition {
+  id: string;
+  name: string;
+  description: string;
+  params: BenchmarkParam[];
+  // One measured pass; the return value is kept so the work is not elided
+  run: (params: BenchmarkParams) => Workload<unknown>;
+  // Human-readable outcome of a pass, e.g. the computed value
+  summarize?: (value: unknown, params: BenchmarkParams) => string;
+}
+
+export interface RunOptions {
+  warmup: number;
+  repetitions: number;
+}
+
+export interface RunControl {
+  signal?: AbortSignal;
+  // Overall progress across warm-up and measured runs, 0-1
+  onProgress?: (fraction: number) => void;
+}
+
+export interface BenchmarkStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  stddev: number;
+}
+
+export interface BenchmarkResult {
+  id: string;
+  name: string;
+  params: BenchmarkParams;
+  warmup: number;
+  repetitions: number;
+  // Compute time of each measured run, excluding scheduler pauses
+  samples: number[];
+  stats: BenchmarkStats;
+  // UI responsiveness over the whole run, warm-up included
+  frames: FrameStats;
+  summary?: string;
+  startedAt: string;
+}
+
+export const DEFAULT_RUN_OPTIONS: RunOptions = {warmup: 1, repetitions: 5};
+
+// CPU intensive: Recursive Fibonacci
+export const fibonacci = (n: number): number => {
+  if (n <= 1) {
+    return n;
+  }
+  return fibonacci(n - 1) + fibonacci(n - 2);
+};
+
+const registry = new Map<string, BenchmarkDefinition>();
+
+export const registerBenchmark = (definition: BenchmarkDefinition) => {
+  registry.set(definition.id, definition);
+};
+
+export const getBenchmarks = () => Array.from(registry.values());
+
+export const getBenchmark = (id: string) => registry.get(id);
+
+export const defaultParams = (definition: BenchmarkDefinition) =>
+  Object.fromEntries(
+    definition.params.map(param => [param.name, param.defaultValue]),
+  ) as BenchmarkParams;
+
+// Yield granularity of the chunked workloads, in elementary operations
+const CHUNK_SIZE = 20000;
+
+// Subtrees up to this size are computed by plain recursion in one step
+const FIBONACCI_LEAF = 22;
+
+const callCount = (n: number) => {
+  // Calls made by the naive recursion: 2 * fib(n + 1) - 1
+  let [a, b] = [0, 1];
+  for (let i = 0; i < n + 1; i++) {
+    [a, b] = [b, a + b];
+  }
+  return 2 * a - 1;
+};
+
+// Same naive recursion as fibonacci(), walked with an explicit stack down
+// to FIBONACCI_LEAF so the scheduler can pause between subtrees
+function* fibonacciWorkload(n: number): Workload<number> {
+  const totalCalls = callCount(n);
+  const stack = [n];
+  let sum = 0;
+  let doneCalls = 0;
+
+  while (stack.length > 0) {
+    const m = stack.pop()!;
+    if (m <= FIBONACCI_LEAF) {
+      sum += fibonacci(m);
+      doneCalls += callCount(m);
+      yield doneCalls / totalCalls;
+    } else {
+      stack.push(m - 1, m - 2);
+    }
+  }
+  return sum;
+}
+
+// Fills an array with random floats, then sorts it with a bottom-up merge
+// sort that can pause mid-merge
+function* sortWorkload(size: number): Workload<number[]> {
+  let source = new Array<number>(size);
+  for (let i = 0; i < size; i++) {
+    source[i] = Math.random();
+    if (i % CHUNK_SIZE === 0) {
+      yield (0.1 * i) / size;
+    }
+  }
+
+  let target = new Array<number>(size);
+  const passes = Math.max(Math.ceil(Math.log2(size)), 1);
+  let pass = 0;
+  let operations = 0;
+
+  for (let width = 1; width < size; width *= 2, pass++) {
+    for (let left = 0; left < size; left += 2 * width) {
+      const middle = Math.min(left + width, size);
+      const right = Math.min(left + 2 * width, size);
+      let i = left;
+      let j = middle;
+      for (let k = left; k < right; k++) {
+        if (i < middle && (j >= right || source[i] <= source[j])) {
+          target[k] = source[i++];
+        } else {
+          target[k] = source[j++];
+        }
+        if (++operations % CHUNK_SIZE === 0) {
+          yield 0.1 + (0.9 * (pass + k / size)) / passes;
+        }
+      }
+    }
+    [source, target] = [target, source];
+  }
+  return source;
+}
+
+const JSON_BATCH_SIZE = 500;
+
+function* jsonWorkload(size: number, iterations: number): Workload<unknown> {
+  const records = [];
+  for (let i = 0; i < size; i++) {
+    records.push({
+      id: i,
+      name: `record-${i}`,
+      tags: ['alpha', 'beta', 'gamma'],
+      nested: {value: Math.random(), active: i % 2 === 0},
+    });
+  }
+  yield 0;
+
+  let parsed: unknown = null;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let offset = 0; offset < size; offset += JSON_BATCH_SIZE) {
+      const batch = records.slice(offset, offset + JSON_BATCH_SIZE);
+      parsed = JSON.parse(JSON.stringify(batch));
+      yield (iteration + offset / size) / iterations;
+    }
+  }
+  return parsed;
+}
+
+function* matrixWorkload(n: number): Workload<number[]> {
+  const a = Array.from({length: n * n}, () => Math.random());
+  const b = Array.from({length: n * n}, () => Math.random());
+  const c = new Array<number>(n * n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) {
+      const aik = a[i * n + k];
+      for (let j = 0; j < n; j++) {
+        c[i * n + j] += aik * b[k * n + j];
+      }
+    }
+    yield (i + 1) / n;
+  }
+  return c;
+}
+
+registerBenchmark({
+  id: 'fibonacci',
+  name: 'Recursive Fibonacci',
+  description: 'Function-call heavy CPU workload',
+  params: [{name: 'n', label: 'n', defaultValue: 30}],
+  run: ({n}) => fibonacciWorkload(n),
+  summarize: (value, {n}) => `Fibonacci(${n}) = ${value}`,
+});
+
+registerBenchmark({
+  id: 'sort',
+  name: 'Array Sort',
+  description: 'Allocates random floats and merge-sorts them',
+  params: [{name: 'size', label: 'Array size', defaultValue: 200000}],
+  run: ({size}) => sortWorkload(size),
+  summarize: (_, {size}) =>
+    `Sorted ${size.toLocaleString('en-US')} elements\nMemory used: ~${(
+      (size * 8) /
+      1024 /
+      1024
+    ).toFixed(2)}MB`,
+});
+
+registerBenchmark({
+  id: 'json',
+  name: 'JSON Round-Trip',
+  description: 'Serialises and parses an array of nested records',
+  params: [
+    {name: 'size', label: 'Records', defaultValue: 5000},
+    {name: 'iterations', label: 'Iterations', defaultValue: 5},
+  ],
+  run: ({size, iterations}) => jsonWorkload(size, iterations),
+});
+
+registerBenchmark({
+  id: 'matrix',
+  name: 'Matrix Multiply',
+  description: 'Dense n×n floating point matrix multiplication',
+  params: [{name: 'n', label: 'Matrix size', defaultValue: 120}],
+  run: ({n}) => matrixWorkload(n),
+});
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 1) {
+    return sorted[0];
+  }
+  // Linear interpolation between closest ranks
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const computeStats = (samples: number[]): BenchmarkStats => {
+  if (samples.length === 0) {
+    return {min: 0, max: 0, mean: 0, p50: 0, p95: 0, stddev: 0};
+  }
+  const sorted = samples.slice().sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  const variance =
+    samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    samples.length;
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    stddev: Math.sqrt(variance),
+  };
+};
+
+export const runBenchmark = async (
+  definition: BenchmarkDefinition,
+  params: BenchmarkParams = defaultParams(definition),
+  options: RunOptions = DEFAULT_RUN_OPTIONS,
+  control: RunControl = {},
+): Promise<BenchmarkResult> => {
+  const startedAt = new Date().toISOString();
+  const totalRuns = options.warmup + options.repetitions;
+  const samples: number[] = [];
+  let value: unknown;
+
+  const stopFrameMonitor = startFrameMonitor();
+  let frames: FrameStats;
+  try {
+    for (let run = 0; run < totalRuns; run++) {
+      const outcome = await runCooperatively(definition.run(params), {
+        signal: control.signal,
+        onProgress: fraction =>
+          control.onProgress?.((run + fraction) / totalRuns),
+      });
+      if (run >= options.warmup) {
+        samples.push(outcome.busyMs);
+      }
+      value = outcome.value;
+    }
+  } finally {
+    frames = stopFrameMonitor();
+  }
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    params,
+    warmup: options.warmup,
+    repetitions: options.repetitions,
+    samples,
+    stats: computeStats(samples),
+    frames,
+    summary: definition.summarize?.(value, params),
+    startedAt,
+  };
+};
+
+export const formatStats = (stats: BenchmarkStats) =>
+  [
+    `min ${stats.min.toFixed(2)}ms`,
+    `mean ${stats.mean.toFixed(2)}ms`,
+    `p50 ${stats.p50.toFixed(2)}ms`,
+    `p95 ${stats.p95.toFixed(2)}ms`,
+    `stddev ${stats.stddev.toFixed(2)}ms`,
+  ].join(' | ');
+
+export const formatFrameStats = (frames: FrameStats) =>
+  `${frames.droppedFrames} dropped of ${
+    frames.frames + frames.droppedFrames
+  } frames | longest ${frames.longestFrameMs.toFixed(1)}ms`;
+
+// Writes the results, with the platform they ran on, to the Downloads folder
+export const exportBenchmarkSuite = async (results: BenchmarkResult[]) => {
+  const report = {
+    exportedAt: new Date().toISOString(),
+    platform: {
+      os: Platform.OS,
+      version: Platform.Version,
+      constants: Platform.constants,
+    },
+    results,
+  };
+
+  const filename = `nativebridge_benchmarks_${Date.now()}.json`;
+  const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+  await RNFS.writeFile(path, JSON.stringify(report, null, 2), 'utf8');
+  return path;
+};
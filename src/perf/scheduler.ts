@@ -0,0 +1,130 @@
+/**
+ * NativeBridge Cooperative Scheduler
+ *
+ * Runs generator-based workloads in short time slices on the JS thread,
+ * yielding to the event loop between slices so the UI keeps rendering and
+ * touches (e.g. a Cancel button) are still handled. Raw compute time is
+ * measured as the sum of the slices, separately from the frame monitor,
+ * which tracks how many frames were dropped while the workload ran.
+ */
+
+// A workload yields whenever it reached a safe point to pause; a yielded
+// number is its progress in the range 0-1
+export type Workload<T> = Generator<number | void, T, void>;
+
+export interface CooperativeOptions {
+  // Target length of one slice before control is handed back
+  sliceMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface CooperativeResult<T> {
+  value: T;
+  // Time spent executing the workload, excluding pauses between slices
+  busyMs: number;
+  wallMs: number;
+  slices: number;
+}
+
+export interface FrameStats {
+  frames: number;
+  droppedFrames: number;
+  longestFrameMs: number;
+  durationMs: number;
+}
+
+export const DEFAULT_SLICE_MS = 8;
+
+const FRAME_BUDGET_MS = 1000 / 60;
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const runCooperatively = async <T>(
+  workload: Workload<T>,
+  options: CooperativeOptions = {},
+): Promise<CooperativeResult<T>> => {
+  const sliceMs = options.sliceMs ?? DEFAULT_SLICE_MS;
+  const wallStart = performance.now();
+  let busyMs = 0;
+  let slices = 0;
+
+  while (true) {
+    if (options.signal?.aborted) {
+      workload.return(undefined as T);
+      throw new CancelledError();
+    }
+
+    const sliceStart = performance.now();
+    slices++;
+    let progress: number | undefined;
+    let step = workload.next();
+    while (!step.done) {
+      if (typeof step.value === 'number') {
+        progress = step.value;
+      }
+      if (performance.now() - sliceStart >= sliceMs) {
+        break;
+      }
+      step = workload.next();
+    }
+    busyMs += performance.now() - sliceStart;
+
+    if (step.done) {
+      options.onProgress?.(1);
+      return {
+        value: step.value,
+        busyMs,
+        wallMs: performance.now() - wallStart,
+        slices,
+      };
+    }
+    if (progress !== undefined) {
+      options.onProgress?.(progress);
+    }
+    await nextTick();
+  }
+};
+
+// Counts rendered frames via requestAnimationFrame until stopped. A gap of
+// k frame budgets between two callbacks counts as k - 1 dropped frames.
+export const startFrameMonitor = () => {
+  const start = performance.now();
+  let last = start;
+  let frames = 0;
+  let droppedFrames = 0;
+  let longestFrameMs = 0;
+  let running = true;
+  let handle = 0;
+
+  const onFrame = (now: number) => {
+    if (!running) {
+      return;
+    }
+    const delta = now - last;
+    last = now;
+    frames++;
+    longestFrameMs = Math.max(longestFrameMs, delta);
+    droppedFrames += Math.max(Math.round(delta / FRAME_BUDGET_MS) - 1, 0);
+    handle = requestAnimationFrame(onFrame);
+  };
+  handle = requestAnimationFrame(onFrame);
+
+  return (): FrameStats => {
+    running = false;
+    cancelAnimationFrame(handle);
+    return {
+      frames,
+      droppedFrames,
+      longestFrameMs,
+      durationMs: performance.now() - start,
+    };
+  };
+};
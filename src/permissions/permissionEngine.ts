@@ -0,0 +1,289 @@
+/**
+ * NativeBridge Permission Engine
+ *
+ * Data-driven table of every permission declared in AndroidManifest.xml,
+ * with one code path to check, request and request-many. Runtime
+ * permissions resolve to the right Android permission for the device's API
+ * level (e.g. READ_MEDIA_* on Android 13+ instead of READ_EXTERNAL_STORAGE).
+ */
+
+import {Permission, PermissionsAndroid, Platform} from 'react-native';
+
+export type PermissionKind = 'runtime' | 'install' | 'special';
+
+export type PermissionStatus =
+  | 'granted'
+  // Some of the spec's permissions granted, e.g. approximate location only
+  | 'partial'
+  | 'denied'
+  | 'never_ask_again'
+  // The permission does not apply on this API level (e.g. write storage on 33+)
+  | 'not_required'
+  // Not a runtime permission: granted at install or only via system settings
+  | 'install_time'
+  | 'settings_only'
+  | 'unsupported';
+
+export interface PermissionSpec {
+  id: string;
+  label: string;
+  kind: PermissionKind;
+  // Manifest entries this spec covers, used for display
+  manifest: string[];
+  // Runtime permissions to request on the given API level; empty when the
+  // permission is not needed there
+  resolve?: (apiLevel: number) => Permission[];
+}
+
+const {PERMISSIONS, RESULTS} = PermissionsAndroid;
+
+export const PERMISSION_SPECS: PermissionSpec[] = [
+  {
+    id: 'camera',
+    label: 'Camera',
+    kind: 'runtime',
+    manifest: ['CAMERA'],
+    resolve: () => [PERMISSIONS.CAMERA],
+  },
+  {
+    id: 'location',
+    label: 'Location',
+    kind: 'runtime',
+    manifest: ['ACCESS_FINE_LOCATION', 'ACCESS_COARSE_LOCATION'],
+    // Android 12+ ignores a fine request without coarse, and the user may
+    // then grant approximate location only
+    resolve: () => [
+      PERMISSIONS.ACCESS_FINE_LOCATION,
+      PERMISSIONS.ACCESS_COARSE_LOCATION,
+    ],
+  },
+  {
+    id: 'coarse-location',
+    label: 'Coarse Location',
+    kind: 'runtime',
+    manifest: ['ACCESS_COARSE_LOCATION'],
+    resolve: () => [PERMISSIONS.ACCESS_COARSE_LOCATION],
+  },
+  {
+    id: 'microphone',
+    label: 'Microphone',
+    kind: 'runtime',
+    manifest: ['RECORD_AUDIO'],
+    resolve: () => [PERMISSIONS.RECORD_AUDIO],
+  },
+  {
+    id: 'contacts',
+    label: 'Contacts',
+    kind: 'runtime',
+    manifest: ['READ_CONTACTS'],
+    resolve: () => [PERMISSIONS.READ_CONTACTS],
+  },
+  {
+    id: 'storage',
+    label: 'Storage (read)',
+    kind: 'runtime',
+    manifest: [
+      'READ_EXTERNAL_STORAGE',
+      'READ_MEDIA_IMAGES',
+      'READ_MEDIA_VIDEO',
+      'READ_MEDIA_AUDIO',
+    ],
+    resolve: apiLevel =>
+      apiLevel >= 33
+        ? [
+            PERMISSIONS.READ_MEDIA_IMAGES,
+            PERMISSIONS.READ_MEDIA_VIDEO,
+            PERMISSIONS.READ_MEDIA_AUDIO,
+          ]
+        : [PERMISSIONS.READ_EXTERNAL_STORAGE],
+  },
+  {
+    id: 'media-images',
+    label: 'Media: Images',
+    kind: 'runtime',
+    manifest: ['READ_MEDIA_IMAGES'],
+    resolve: apiLevel =>
+      apiLevel >= 33 ? [PERMISSIONS.READ_MEDIA_IMAGES] : [],
+  },
+  {
+    id: 'media-video',
+    label: 'Media: Video',
+    kind: 'runtime',
+    manifest: ['READ_MEDIA_VIDEO'],
+    resolve: apiLevel => (apiLevel >= 33 ? [PERMISSIONS.READ_MEDIA_VIDEO] : []),
+  },
+  {
+    id: 'media-audio',
+    label: 'Media: Audio',
+    kind: 'runtime',
+    manifest: ['READ_MEDIA_AUDIO'],
+    resolve: apiLevel => (apiLevel >= 33 ? [PERMISSIONS.READ_MEDIA_AUDIO] : []),
+  },
+  {
+    id: 'write-storage',
+    label: 'Storage (write)',
+    kind: 'runtime',
+    manifest: ['WRITE_EXTERNAL_STORAGE'],
+    // Declared with maxSdkVersion="32"; scoped storage needs no permission
+    resolve: apiLevel =>
+      apiLevel <= 32 ? [PERMISSIONS.WRITE_EXTERNAL_STORAGE] : [],
+  },
+  {
+    id: 'manage-storage',
+    label: 'All Files Access',
+    kind: 'special',
+    manifest: ['MANAGE_EXTERNAL_STORAGE'],
+  },
+  {
+    id: 'biometric',
+    label: 'Biometric',
+    kind: 'install',
+    manifest: ['USE_BIOMETRIC', 'USE_FINGERPRINT'],
+  },
+  {
+    id: 'network',
+    label: 'Network',
+    kind: 'install',
+    manifest: ['INTERNET', 'ACCESS_NETWORK_STATE'],
+  },
+  {
+    id: 'vibrate',
+    label: 'Vibration',
+    kind: 'install',
+    manifest: ['VIBRATE'],
+  },
+];
+
+export class UnknownPermissionError extends Error {
+  constructor(id: string) {
+    super(`Unknown permission "${id}"`);
+    this.name = 'UnknownPermissionError';
+  }
+}
+
+// `check` can only report granted or not; remember what the last request
+// said so never_ask_again stays visible afterwards
+const lastRequestResults = new Map<Permission, string>();
+
+export const getApiLevel = () =>
+  Platform.OS === 'android' ? (Platform.Version as number) : 0;
+
+export const getPermissionSpec = (id: string) => {
+  const spec = PERMISSION_SPECS.find(candidate => candidate.id === id);
+  if (!spec) {
+    throw new UnknownPermissionError(id);
+  }
+  return spec;
+};
+
+export const resolvePermissions = (spec: PermissionSpec) =>
+  spec.resolve?.(getApiLevel()) ?? [];
+
+const nonRuntimeStatus = (spec: PermissionSpec): PermissionStatus | null => {
+  if (Platform.OS !== 'android') {
+    return 'unsupported';
+  }
+  if (spec.kind === 'install') {
+    return 'install_time';
+  }
+  if (spec.kind === 'special') {
+    return 'settings_only';
+  }
+  if (resolvePermissions(spec).length === 0) {
+    return 'not_required';
+  }
+  return null;
+};
+
+// Combines per-permission results: all granted is granted, some granted
+// is partial, and any never_ask_again wins over a plain denial
+const combine = (results: string[]): PermissionStatus => {
+  if (results.every(result => result === RESULTS.GRANTED)) {
+    return 'granted';
+  }
+  if (results.some(result => result === RESULTS.GRANTED)) {
+    return 'partial';
+  }
+  if (results.some(result => result === RESULTS.NEVER_ASK_AGAIN)) {
+    return 'never_ask_again';
+  }
+  return 'denied';
+};
+
+export const checkPermission = async (
+  spec: PermissionSpec,
+): Promise<PermissionStatus> => {
+  const fixed = nonRuntimeStatus(spec);
+  if (fixed) {
+    return fixed;
+  }
+
+  const results = await Promise.all(
+    resolvePermissions(spec).map(async permission => {
+      if (await PermissionsAndroid.check(permission)) {
+        return RESULTS.GRANTED;
+      }
+      return lastRequestResults.get(permission) === RESULTS.NEVER_ASK_AGAIN
+        ? RESULTS.NEVER_ASK_AGAIN
+        : RESULTS.DENIED;
+    }),
+  );
+  return combine(results);
+};
+
+export const checkAllPermissions = async () => {
+  const statuses: Record<string, PermissionStatus> = {};
+  for (const spec of PERMISSION_SPECS) {
+    statuses[spec.id] = await checkPermission(spec);
+  }
+  return statuses;
+};
+
+// Requests several specs with a single system dialog sequence
+export const requestPermissions = async (specs: PermissionSpec[]) => {
+  const statuses: Record<string, PermissionStatus> = {};
+  const runtimeSpecs = specs.filter(spec => {
+    const fixed = nonRuntimeStatus(spec);
+    if (fixed) {
+      statuses[spec.id] = fixed;
+    }
+    return !fixed;
+  });
+
+  const permissions = Array.from(
+    new Set(runtimeSpecs.flatMap(spec => resolvePermissions(spec))),
+  );
+  if (permissions.length > 0) {
+    const results = await PermissionsAndroid.requestMultiple(permissions);
+    Object.entries(results).forEach(([permission, result]) =>
+      lastRequestResults.set(permission as Permission, result),
+    );
+    runtimeSpecs.forEach(spec => {
+      statuses[spec.id] = combine(
+        resolvePermissions(spec).map(permission => results[permission]),
+      );
+    });
+  }
+  return statuses;
+};
+
+export const requestPermission = async (spec: PermissionSpec) =>
+  (await requestPermissions([spec]))[spec.id];
+
+// Statuses under which the guarded feature may proceed
+export const isUsable = (status: PermissionStatus) =>
+  status === 'granted' ||
+  status === 'partial' ||
+  status === 'not_required' ||
+  status === 'install_time' ||
+  status === 'unsupported';
+
+// Checks first and only prompts when the permission is not yet granted
+export const ensurePermission = async (id: string) => {
+  const spec = getPermissionSpec(id);
+  const current = await checkPermission(spec);
+  if (isUsable(current)) {
+    return current;
+  }
+  return requestPermission(spec);
+};
@@ -0,0 +1,62 @@
+/**
+ * NativeBridge QR Code View
+ *
+ * Draws an encoded QR code with plain Views. Adjacent modules of one colour
+ * are merged into a single View per run to keep large versions cheap.
+ */
+
+import React from 'react';
+import {View} from 'react-native';
+import {styles} from '../theme/styles';
+import {QrCode} from './qrEncoder';
+
+// Quiet zone drawn around the symbol, in modules
+const QUIET_ZONE = 4;
+
+interface QrCodeViewProps {
+  code: QrCode;
+  // Maximum edge length in points, quiet zone included
+  maxSize: number;
+  testID?: string;
+}
+
+const toRuns = (row: boolean[]) => {
+  const runs: {start: number; length: number; dark: boolean}[] = [];
+  row.forEach((dark, x) => {
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.length++;
+    } else {
+      runs.push({start: x, length: 1, dark});
+    }
+  });
+  return runs;
+};
+
+export function QrCodeView({code, maxSize, testID}: QrCodeViewProps) {
+  // Whole points per module avoid seams between rows
+  const moduleSize = Math.max(
+    Math.floor(maxSize / (code.size + QUIET_ZONE * 2)),
+    1,
+  );
+
+  return (
+    <View
+      style={[styles.qrCanvas, {padding: moduleSize * QUIET_ZONE}]}
+      testID={testID}>
+      {code.modules.map((row, y) => (
+        <View key={y} style={[styles.qrRow, {height: moduleSize}]}>
+          {toRuns(row).map(run => (
+            <View
+              key={run.start}
+              style={[
+                run.dark ? styles.qrDark : styles.qrLight,
+                {width: run.length * moduleSize},
+              ]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,430 @@
+/**
+ * NativeBridge QR Payload Parser
+ *
+ * Decodes the raw string of a scanned code into one of the well-known
+ * payload formats (URL, Wi-Fi, contact cards, OTP enrolment, geo, mailto,
+ * tel, sms and JSON) and flattens it into labelled fields, so camera
+ * injection tests can assert on individual values instead of the raw text.
+ * Anything unrecognised is reported as plain text.
+ */
+
+export type QrPayloadKind =
+  | 'url'
+  | 'wifi'
+  | 'contact'
+  | 'otp'
+  | 'geo'
+  | 'email'
+  | 'phone'
+  | 'sms'
+  | 'json'
+  | 'text';
+
+export interface QrField {
+  // Stable identifier, unique within a payload; used in testIDs
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface ParsedQrPayload {
+  kind: QrPayloadKind;
+  fields: QrField[];
+}
+
+export const QR_KIND_LABELS: Record<QrPayloadKind, string> = {
+  url: 'URL',
+  wifi: 'Wi-Fi Network',
+  contact: 'Contact',
+  otp: 'One-Time Password',
+  geo: 'Location',
+  email: 'Email',
+  phone: 'Phone Number',
+  sms: 'SMS',
+  json: 'JSON',
+  text: 'Text',
+};
+
+// Collects fields, numbering repeated keys (tel, tel-2, ...) and skipping
+// empty values
+class FieldList {
+  readonly fields: QrField[] = [];
+
+  add(key: string, label: string, value: string | undefined) {
+    if (value === undefined || value === '') {
+      return;
+    }
+    const count = this.fields.filter(
+      field => field.key === key || field.key.startsWith(`${key}-`),
+    ).length;
+    this.fields.push({
+      key: count === 0 ? key : `${key}-${count + 1}`,
+      label,
+      value,
+    });
+  }
+}
+
+const decodeComponent = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Query values encode spaces as "+"; elsewhere "+" is literal (tel:+1...)
+const decode = (value: string) => decodeComponent(value.replace(/\+/g, ' '));
+
+// The URL polyfill shipped with React Native does not implement
+// searchParams, so queries are split by hand
+const parseQuery = (query: string) => {
+  const params: Record<string, string> = {};
+  query
+    .split('&')
+    .filter(pair => pair.length > 0)
+    .forEach(pair => {
+      const separator = pair.indexOf('=');
+      const key = decode(separator === -1 ? pair : pair.slice(0, separator));
+      params[key.toLowerCase()] =
+        separator === -1 ? '' : decode(pair.slice(separator + 1));
+    });
+  return params;
+};
+
+const splitAt = (value: string, separator: string) => {
+  const index = value.indexOf(separator);
+  return index === -1
+    ? [value, '']
+    : [value.slice(0, index), value.slice(index + separator.length)];
+};
+
+const unescapeField = (value: string) => value.replace(/\\(.)/g, '$1');
+
+const splitEscaped = (entry: string): [string, string] => {
+  const match = /^((?:[^:\\]|\\.)*):(.*)$/.exec(entry);
+  if (!match) {
+    return [unescapeField(entry).toUpperCase(), ''];
+  }
+  return [unescapeField(match[1]).toUpperCase(), unescapeField(match[2])];
+};
+
+// Splits "KEY:value;KEY:value;;" bodies (WIFI, MECARD, MATMSG), honouring
+// backslash escapes of ; , : and \
+const parseSemicolonFields = (body: string) => {
+  const entries: [string, string][] = [];
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += char + body[++i];
+    } else if (char === ';') {
+      entries.push(splitEscaped(current));
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) {
+    entries.push(splitEscaped(current));
+  }
+  return entries.filter(([key]) => key.length > 0);
+};
+
+const WIFI_SECURITY_LABELS: Record<string, string> = {
+  WEP: 'WEP',
+  WPA: 'WPA/WPA2',
+  WPA2: 'WPA2',
+  WPA3: 'WPA3',
+  SAE: 'WPA3',
+  NOPASS: 'None',
+};
+
+const parseWifi = (body: string): ParsedQrPayload => {
+  const fields = new FieldList();
+  const values = Object.fromEntries(parseSemicolonFields(body));
+  const security = (values.T ?? '').toUpperCase();
+  fields.add('ssid', 'SSID', values.S);
+  fields.add(
+    'security',
+    'Security',
+    security ? WIFI_SECURITY_LABELS[security] ?? security : 'None',
+  );
+  fields.add('password', 'Password', values.P);
+  fields.add(
+    'hidden',
+    'Hidden',
+    values.H !== undefined ? String(values.H.toLowerCase() === 'true') : '',
+  );
+  return {kind: 'wifi', fields: fields.fields};
+};
+
+const parseMecard = (body: string): ParsedQrPayload => {
+  const fields = new FieldList();
+  parseSemicolonFields(body).forEach(([key, value]) => {
+    switch (key) {
+      case 'N':
+        // MECARD names are "Last,First"
+        fields.add('name', 'Name', value.split(',').reverse().join(' ').trim());
+        break;
+      case 'TEL':
+        fields.add('tel', 'Phone', value);
+        break;
+      case 'EMAIL':
+        fields.add('email', 'Email', value);
+        break;
+      case 'ADR':
+        fields.add('address', 'Address', value);
+        break;
+      case 'ORG':
+        fields.add('org', 'Organization', value);
+        break;
+      case 'URL':
+        fields.add('url', 'Website', value);
+        break;
+      case 'NOTE':
+        fields.add('note', 'Note', value);
+        break;
+      case 'BDAY':
+        fields.add('birthday', 'Birthday', value);
+        break;
+    }
+  });
+  return {kind: 'contact', fields: fields.fields};
+};
+
+const VCARD_FIELDS: Record<string, [string, string]> = {
+  FN: ['name', 'Name'],
+  ORG: ['org', 'Organization'],
+  TITLE: ['title', 'Title'],
+  TEL: ['tel', 'Phone'],
+  EMAIL: ['email', 'Email'],
+  ADR: ['address', 'Address'],
+  URL: ['url', 'Website'],
+  NOTE: ['note', 'Note'],
+  BDAY: ['birthday', 'Birthday'],
+};
+
+const unescapeVcard = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\(.)/g, '$1');
+
+const parseVcard = (raw: string): ParsedQrPayload => {
+  const fields = new FieldList();
+  // Continuation lines start with a space or tab (RFC 6350 line folding)
+  const lines = raw.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let structuredName = '';
+
+  lines.forEach(line => {
+    const [property, value] = splitAt(line, ':');
+    // Drop parameters (TEL;TYPE=CELL) and group prefixes (item1.EMAIL)
+    const name = property.split(';')[0].split('.').pop()!.toUpperCase();
+    if (name === 'N') {
+      // Family;Given;Additional;Prefix;Suffix
+      const [family = '', given = ''] = value.split(';').map(unescapeVcard);
+      structuredName = [given, family].filter(Boolean).join(' ');
+      return;
+    }
+    const target = VCARD_FIELDS[name];
+    if (!target) {
+      return;
+    }
+    const text =
+      name === 'ADR' || name === 'ORG'
+        ? value.split(';').map(unescapeVcard).filter(Boolean).join(', ')
+        : unescapeVcard(value);
+    fields.add(target[0], target[1], text);
+  });
+
+  if (!fields.fields.some(field => field.key === 'name')) {
+    fields.fields.unshift({key: 'name', label: 'Name', value: structuredName});
+  }
+  return {
+    kind: 'contact',
+    fields: fields.fields.filter(field => field.value !== ''),
+  };
+};
+
+const parseOtpAuth = (raw: string): ParsedQrPayload | null => {
+  // otpauth://TYPE/LABEL?PARAMETERS
+  const match = /^otpauth:\/\/([^/?]+)\/([^?]*)(?:\?(.*))?$/i.exec(raw);
+  if (!match) {
+    return null;
+  }
+  const type = match[1].toLowerCase();
+  const label = decodeComponent(match[2]);
+  const params = parseQuery(match[3] ?? '');
+  const [labelIssuer, account] = label.includes(':')
+    ? splitAt(label, ':')
+    : ['', label];
+
+  const fields = new FieldList();
+  fields.add('type', 'Type', type.toUpperCase());
+  fields.add('issuer', 'Issuer', params.issuer || labelIssuer.trim());
+  fields.add('account', 'Account', account.trim());
+  fields.add('secret', 'Secret', params.secret);
+  fields.add(
+    'algorithm',
+    'Algorithm',
+    (params.algorithm || 'SHA1').toUpperCase(),
+  );
+  fields.add('digits', 'Digits', params.digits || '6');
+  if (type === 'hotp') {
+    fields.add('counter', 'Counter', params.counter);
+  } else {
+    fields.add('period', 'Period (s)', params.period || '30');
+  }
+  return {kind: 'otp', fields: fields.fields};
+};
+
+const COORDINATE = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+
+// Number() reads "" and " " as 0, which would turn "geo:," into 0,0
+const parseCoordinate = (value: string) =>
+  COORDINATE.test(value) ? Number(value) : NaN;
+
+const parseGeo = (raw: string): ParsedQrPayload | null => {
+  // geo:lat,lon[,alt][;u=uncertainty][?q=query]
+  const [location, query] = splitAt(raw.slice('geo:'.length), '?');
+  const [coordinates, ...parameters] = location.split(';');
+  const [latitude, longitude, altitude] = coordinates
+    .split(',')
+    .map(parseCoordinate);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+
+  const fields = new FieldList();
+  fields.add('latitude', 'Latitude', String(latitude));
+  fields.add('longitude', 'Longitude', String(longitude));
+  if (altitude !== undefined && Number.isFinite(altitude)) {
+    fields.add('altitude', 'Altitude', String(altitude));
+  }
+  parameters.forEach(parameter => {
+    const [key, value] = splitAt(parameter, '=');
+    if (key.toLowerCase() === 'u') {
+      fields.add('uncertainty', 'Uncertainty (m)', value);
+    }
+  });
+  fields.add('query', 'Query', parseQuery(query).q);
+  return {kind: 'geo', fields: fields.fields};
+};
+
+const parseMailto = (raw: string): ParsedQrPayload => {
+  const [to, query] = splitAt(raw.slice('mailto:'.length), '?');
+  const params = parseQuery(query);
+  const fields = new FieldList();
+  fields.add('to', 'To', decodeComponent(to));
+  fields.add('cc', 'CC', params.cc);
+  fields.add('bcc', 'BCC', params.bcc);
+  fields.add('subject', 'Subject', params.subject);
+  fields.add('body', 'Body', params.body);
+  return {kind: 'email', fields: fields.fields};
+};
+
+const parseMatmsg = (body: string): ParsedQrPayload => {
+  const values = Object.fromEntries(parseSemicolonFields(body));
+  const fields = new FieldList();
+  fields.add('to', 'To', values.TO);
+  fields.add('subject', 'Subject', values.SUB);
+  fields.add('body', 'Body', values.BODY);
+  return {kind: 'email', fields: fields.fields};
+};
+
+const parseSms = (raw: string): ParsedQrPayload => {
+  const fields = new FieldList();
+  if (/^smsto:/i.test(raw)) {
+    // SMSTO:number:message
+    const [number, message] = splitAt(raw.slice('smsto:'.length), ':');
+    fields.add('number', 'Number', number);
+    fields.add('body', 'Message', message);
+  } else {
+    // sms:number?body=message
+    const [number, query] = splitAt(raw.slice('sms:'.length), '?');
+    fields.add('number', 'Number', decodeComponent(number));
+    fields.add('body', 'Message', parseQuery(query).body);
+  }
+  return {kind: 'sms', fields: fields.fields};
+};
+
+const parseUrl = (raw: string): ParsedQrPayload | null => {
+  const match =
+    /^(https?):\/\/([^/?#]+)([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/i.exec(raw);
+  if (!match) {
+    return null;
+  }
+  const fields = new FieldList();
+  fields.add('url', 'URL', raw);
+  fields.add('scheme', 'Scheme', match[1].toLowerCase());
+  fields.add('host', 'Host', match[2].toLowerCase());
+  fields.add('path', 'Path', match[3]);
+  fields.add('query', 'Query', match[4]);
+  fields.add('fragment', 'Fragment', match[5]);
+  return {kind: 'url', fields: fields.fields};
+};
+
+const formatJsonValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+const parseJson = (raw: string): ParsedQrPayload | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const fields = new FieldList();
+  if (Array.isArray(value)) {
+    fields.add('type', 'Type', 'array');
+    fields.add('length', 'Length', String(value.length));
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, entry]) =>
+      fields.add(`json.${key}`, key, formatJsonValue(entry)),
+    );
+  } else {
+    return null;
+  }
+  return {kind: 'json', fields: fields.fields};
+};
+
+export const parseQrPayload = (raw: string): ParsedQrPayload => {
+  const trimmed = raw.trim();
+  const lower = trimmed.toLowerCase();
+  let parsed: ParsedQrPayload | null = null;
+
+  if (lower.startsWith('wifi:')) {
+    parsed = parseWifi(trimmed.slice('wifi:'.length));
+  } else if (lower.startsWith('mecard:')) {
+    parsed = parseMecard(trimmed.slice('mecard:'.length));
+  } else if (lower.startsWith('begin:vcard')) {
+    parsed = parseVcard(trimmed);
+  } else if (lower.startsWith('otpauth://')) {
+    parsed = parseOtpAuth(trimmed);
+  } else if (lower.startsWith('geo:')) {
+    parsed = parseGeo(trimmed);
+  } else if (lower.startsWith('mailto:')) {
+    parsed = parseMailto(trimmed);
+  } else if (lower.startsWith('matmsg:')) {
+    parsed = parseMatmsg(trimmed.slice('matmsg:'.length));
+  } else if (lower.startsWith('tel:')) {
+    const fields = new FieldList();
+    fields.add(
+      'number',
+      'Number',
+      decodeComponent(trimmed.slice('tel:'.length)),
+    );
+    parsed = {kind: 'phone', fields: fields.fields};
+  } else if (lower.startsWith('sms:') || lower.startsWith('smsto:')) {
+    parsed = parseSms(trimmed);
+  } else if (lower.startsWith('http://') || lower.startsWith('https://')) {
+    parsed = parseUrl(trimmed);
+  } else if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    parsed = parseJson(trimmed);
+  }
+
+  return parsed ?? {kind: 'text', fields: []};
+};
@@ -0,0 +1,617 @@
+/**
+ * NativeBridge QR Encoder
+ *
+ * Pure TypeScript QR Code Model 2 encoder (ISO/IEC 18004), versions 1-40
+ * with all four error correction levels. The payload is encoded as a single
+ * numeric, alphanumeric or byte (UTF-8) segment, whichever is most compact.
+ * Has no React Native dependencies so it runs unchanged under Jest.
+ */
+
+import {utf8Encode} from '../encoding/utf8';
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export type QrMode = 'numeric' | 'alphanumeric' | 'byte';
+
+export interface QrCode {
+  version: number;
+  // Modules per side, without quiet zone
+  size: number;
+  level: ErrorCorrectionLevel;
+  mode: QrMode;
+  mask: number;
+  // modules[y][x], true is dark
+  modules: boolean[][];
+}
+
+export const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = [
+  'L',
+  'M',
+  'Q',
+  'H',
+];
+
+// Approximate share of codewords that can be restored
+export const ERROR_CORRECTION_RECOVERY: Record<ErrorCorrectionLevel, string> = {
+  L: '7%',
+  M: '15%',
+  Q: '25%',
+  H: '30%',
+};
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+export class QrCapacityError extends Error {
+  constructor(bits: number, level: ErrorCorrectionLevel) {
+    super(
+      `Payload needs ${Math.ceil(bits / 8)} bytes, more than a version ` +
+        `${MAX_VERSION} code holds at error correction level ${level}`,
+    );
+    this.name = 'QrCapacityError';
+  }
+}
+
+// Indexed by level, then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+};
+
+// Two-bit level indicator used in the format information
+const FORMAT_LEVEL_BITS: Record<ErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+const MODE_INDICATORS: Record<QrMode, number> = {
+  numeric: 0x1,
+  alphanumeric: 0x2,
+  byte: 0x4,
+};
+
+// Character count field widths for versions 1-9, 10-26 and 27-40
+const CHAR_COUNT_BITS: Record<QrMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+};
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const PAD_BYTES = [0xec, 0x11];
+
+/* eslint-disable no-bitwise */
+
+class BitBuffer {
+  readonly bits: number[] = [];
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+
+  toBytes() {
+    const bytes = new Array<number>(Math.ceil(this.bits.length / 8)).fill(0);
+    this.bits.forEach((bit, i) => {
+      bytes[i >>> 3] |= bit << (7 - (i & 7));
+    });
+    return bytes;
+  }
+}
+
+export const selectMode = (text: string): QrMode => {
+  if (/^[0-9]*$/.test(text)) {
+    return 'numeric';
+  }
+  if ([...text].every(char => ALPHANUMERIC_CHARSET.includes(char))) {
+    return 'alphanumeric';
+  }
+  return 'byte';
+};
+
+// Encodes the payload without mode indicator and character count
+const encodeSegmentData = (text: string, mode: QrMode) => {
+  const buffer = new BitBuffer();
+  if (mode === 'numeric') {
+    for (let i = 0; i < text.length; i += 3) {
+      const group = text.slice(i, i + 3);
+      buffer.append(Number(group), group.length * 3 + 1);
+    }
+    return {buffer, count: text.length};
+  }
+  if (mode === 'alphanumeric') {
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      buffer.append(
+        ALPHANUMERIC_CHARSET.indexOf(text[i]) * 45 +
+          ALPHANUMERIC_CHARSET.indexOf(text[i + 1]),
+        11,
+      );
+    }
+    if (text.length % 2 === 1) {
+      buffer.append(ALPHANUMERIC_CHARSET.indexOf(text[text.length - 1]), 6);
+    }
+    return {buffer, count: text.length};
+  }
+  const bytes = utf8Encode(text);
+  bytes.forEach(byte => buffer.append(byte, 8));
+  return {buffer, count: bytes.length};
+};
+
+const charCountBits = (mode: QrMode, version: number) =>
+  CHAR_COUNT_BITS[mode][version <= 9 ? 0 : version <= 26 ? 1 : 2];
+
+const numAlignmentPatterns = (version: number) =>
+  version === 1 ? 0 : Math.floor(version / 7) + 2;
+
+// Modules available for data and error correction after all function
+// patterns are placed
+const numRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = numAlignmentPatterns(version);
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+};
+
+export const numDataCodewords = (
+  version: number,
+  level: ErrorCorrectionLevel,
+) =>
+  Math.floor(numRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[level][version] *
+    NUM_ERROR_CORRECTION_BLOCKS[level][version];
+
+export const alignmentPatternPositions = (version: number) => {
+  const numAlign = numAlignmentPatterns(version);
+  if (numAlign === 0) {
+    return [];
+  }
+  const size = version * 4 + 17;
+  const step =
+    Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < numAlign; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+};
+
+// ==================== REED-SOLOMON ====================
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+// Coefficients of the generator polynomial, highest degree first, with the
+// leading 1 omitted
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+export const reedSolomonRemainder = (data: number[], degree: number) => {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+// Splits the data codewords into blocks, appends error correction to each
+// and interleaves them in the order they are placed in the symbol
+export const addErrorCorrection = (
+  data: number[],
+  version: number,
+  level: ErrorCorrectionLevel,
+) => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortDataLength = Math.floor(rawCodewords / numBlocks) - eccLength;
+
+  const dataBlocks: number[][] = [];
+  const eccBlocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < numBlocks; i++) {
+    const length = shortDataLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    dataBlocks.push(block);
+    eccBlocks.push(reedSolomonRemainder(block, eccLength));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortDataLength; i++) {
+    dataBlocks.forEach(block => {
+      if (i < block.length) {
+        result.push(block[i]);
+      }
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+};
+
+// ==================== SYMBOL LAYOUT ====================
+
+const MASK_PATTERNS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+export const formatBits = (level: ErrorCorrectionLevel, mask: number) => {
+  const data = (FORMAT_LEVEL_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+export const versionBits = (version: number) => {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+};
+
+// 1:1:3:1:1 finder look-alikes with four light modules on one side
+const FINDER_LIKE_PATTERNS = ['10111010000', '00001011101'].map(pattern =>
+  [...pattern].map(bit => bit === '1'),
+);
+
+const bitAt = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+class QrSymbol {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({length: this.size}, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+    this.isFunction = Array.from({length: this.size}, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(level: ErrorCorrectionLevel) {
+    const {size} = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const positions = alignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        // Corners already hold finder patterns
+        if (
+          !(i === 0 && j === 0) &&
+          !(i === 0 && j === last) &&
+          !(i === last && j === 0)
+        ) {
+          this.drawAlignment(x, y);
+        }
+      }),
+    );
+
+    // Reserve the format areas; the real bits are drawn once the mask is
+    // known
+    this.drawFormatBits(level, 0);
+    this.drawVersion();
+  }
+
+  drawFinder(centerX: number, centerY: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  drawAlignment(centerX: number, centerY: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(
+          centerX + dx,
+          centerY + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+        );
+      }
+    }
+  }
+
+  drawFormatBits(level: ErrorCorrectionLevel, mask: number) {
+    const bits = formatBits(level, mask);
+    const {size} = this;
+
+    // Copy around the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, bitAt(bits, i));
+    }
+    this.setFunction(8, 7, bitAt(bits, 6));
+    this.setFunction(8, 8, bitAt(bits, 7));
+    this.setFunction(7, 8, bitAt(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, bitAt(bits, i));
+    }
+
+    // Copy split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(size - 1 - i, 8, bitAt(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, size - 15 + i, bitAt(bits, i));
+    }
+    // Always-dark module
+    this.setFunction(8, size - 8, true);
+  }
+
+  drawVersion() {
+    if (this.version < 7) {
+      return;
+    }
+    const bits = versionBits(this.version);
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, bitAt(bits, i));
+      this.setFunction(b, a, bitAt(bits, i));
+    }
+  }
+
+  // Places codewords in the two-module-wide zigzag, starting bottom-right
+  drawCodewords(codewords: number[]) {
+    const {size} = this;
+    let index = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        // Skip the vertical timing pattern
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        const y = upward ? size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (!this.isFunction[y][x] && index < codewords.length * 8) {
+            this.modules[y][x] = bitAt(codewords[index >>> 3], 7 - (index & 7));
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  // XOR-ing twice with the same mask undoes it
+  applyMask(mask: number) {
+    const pattern = MASK_PATTERNS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && pattern(x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  penaltyScore() {
+    const {size, modules} = this;
+    let penalty = 0;
+
+    const line = (i: number, j: number, vertical: boolean) =>
+      vertical ? modules[j][i] : modules[i][j];
+
+    for (const vertical of [false, true]) {
+      for (let i = 0; i < size; i++) {
+        // Runs of five or more same-coloured modules
+        let runLength = 1;
+        for (let j = 1; j <= size; j++) {
+          if (j < size && line(i, j, vertical) === line(i, j - 1, vertical)) {
+            runLength++;
+          } else {
+            if (runLength >= 5) {
+              penalty += 3 + (runLength - 5);
+            }
+            runLength = 1;
+          }
+        }
+
+        // Finder-like patterns
+        for (let j = 0; j + 11 <= size; j++) {
+          for (const pattern of FINDER_LIKE_PATTERNS) {
+            if (pattern.every((dark, k) => line(i, j + k, vertical) === dark)) {
+              penalty += 40;
+            }
+          }
+        }
+      }
+    }
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y + 1 < size; y++) {
+      for (let x = 0; x + 1 < size; x++) {
+        const color = modules[y][x];
+        if (
+          color === modules[y][x + 1] &&
+          color === modules[y + 1][x] &&
+          color === modules[y + 1][x + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Deviation of the dark share from 50%, in steps of 5%
+    const dark = modules.reduce(
+      (sum, row) => sum + row.filter(Boolean).length,
+      0,
+    );
+    const total = size * size;
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return penalty;
+  }
+}
+
+export const encodeQrCode = (
+  text: string,
+  level: ErrorCorrectionLevel = 'M',
+  options: {mask?: number} = {},
+): QrCode => {
+  const mode = selectMode(text);
+  const segment = encodeSegmentData(text, mode);
+
+  let version = MIN_VERSION;
+  let dataBits = 0;
+  for (; version <= MAX_VERSION; version++) {
+    dataBits = 4 + charCountBits(mode, version) + segment.buffer.bits.length;
+    if (dataBits <= numDataCodewords(version, level) * 8) {
+      break;
+    }
+  }
+  if (version > MAX_VERSION) {
+    throw new QrCapacityError(dataBits, level);
+  }
+
+  const buffer = new BitBuffer();
+  buffer.append(MODE_INDICATORS[mode], 4);
+  buffer.append(segment.count, charCountBits(mode, version));
+  buffer.bits.push(...segment.buffer.bits);
+
+  // Terminator, byte alignment, then alternating pad bytes
+  const capacityBits = numDataCodewords(version, level) * 8;
+  buffer.append(0, Math.min(4, capacityBits - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+  for (let i = 0; buffer.bits.length < capacityBits; i++) {
+    buffer.append(PAD_BYTES[i % 2], 8);
+  }
+
+  const symbol = new QrSymbol(version);
+  symbol.drawFunctionPatterns(level);
+  symbol.drawCodewords(addErrorCorrection(buffer.toBytes(), version, level));
+
+  let mask = options.mask ?? -1;
+  if (mask < 0) {
+    // Pick the mask with the lowest penalty
+    let bestPenalty = Infinity;
+    for (let candidate = 0; candidate < MASK_PATTERNS.length; candidate++) {
+      symbol.applyMask(candidate);
+      symbol.drawFormatBits(level, candidate);
+      const penalty = symbol.penaltyScore();
+      if (penalty < bestPenalty) {
+        mask = candidate;
+        bestPenalty = penalty;
+      }
+      symbol.applyMask(candidate);
+    }
+  }
+  symbol.applyMask(mask);
+  symbol.drawFormatBits(level, mask);
+
+  return {
+    version,
+    size: symbol.size,
+    level,
+    mode,
+    mask,
+    modules: symbol.modules,
+  };
+};
+
+/* eslint-enable no-bitwise */
@@ -0,0 +1,52 @@
+/**
+ * NativeBridge QR Image Export
+ *
+ * Renders an encoded QR code to a PNG and saves it to the Downloads folder,
+ * where another device or an injection pipeline can pick it up.
+ */
+
+import RNFS from 'react-native-fs';
+import {encodeBase64} from '../encoding/base64';
+import {encodeMonochromePng} from '../encoding/png';
+import {QrCode} from './qrEncoder';
+
+export interface QrImageOptions {
+  // Pixels per module
+  scale: number;
+  // Quiet zone around the symbol, in modules
+  margin: number;
+}
+
+// The specification requires a quiet zone of at least four modules
+export const DEFAULT_QR_IMAGE_OPTIONS: QrImageOptions = {scale: 8, margin: 4};
+
+export const renderQrPng = (
+  code: QrCode,
+  {scale, margin}: QrImageOptions = DEFAULT_QR_IMAGE_OPTIONS,
+) => {
+  const pixels = (code.size + margin * 2) * scale;
+  return encodeMonochromePng(pixels, pixels, (x, y) => {
+    const moduleX = Math.floor(x / scale) - margin;
+    const moduleY = Math.floor(y / scale) - margin;
+    return (
+      moduleX >= 0 &&
+      moduleY >= 0 &&
+      moduleX < code.size &&
+      moduleY < code.size &&
+      code.modules[moduleY][moduleX]
+    );
+  });
+};
+
+export const saveQrCodePng = async (
+  code: QrCode,
+  options: QrImageOptions = DEFAULT_QR_IMAGE_OPTIONS,
+) => {
+  const png = renderQrPng(code, options);
+  const filename = `nativebridge_qr_v${code.version}${
+    code.level
+  }_${Date.now()}.png`;
+  const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+  await RNFS.writeFile(path, encodeBase64(png), 'base64');
+  return {path, bytes: png.length};
+};
@@ -0,0 +1,75 @@
+/**
+ * NativeBridge QR Scan Assertion
+ *
+ * Compares a scanned payload against the value automation expects and
+ * explains any mismatch, so camera injection runs can be verified from the
+ * PASS/FAIL text alone.
+ */
+
+export interface QrAssertion {
+  expected: string;
+  pass: boolean;
+  reason: string;
+}
+
+// Characters shown on each side of the first difference
+const CONTEXT_CHARS = 12;
+
+// Makes invisible characters visible in mismatch reasons
+const show = (value: string) => JSON.stringify(value);
+
+const excerpt = (value: string, index: number) => {
+  const start = Math.max(index - CONTEXT_CHARS, 0);
+  const end = Math.min(index + CONTEXT_CHARS, value.length);
+  return `${start > 0 ? '…' : ''}${show(value.slice(start, end))}${
+    end < value.length ? '…' : ''
+  }`;
+};
+
+export const assertQrPayload = (
+  expected: string,
+  actual: string,
+): QrAssertion => {
+  const fail = (reason: string) => ({expected, pass: false, reason});
+
+  if (actual === expected) {
+    return {
+      expected,
+      pass: true,
+      reason: `Exact match (${actual.length} chars)`,
+    };
+  }
+  if (actual.trim() === expected.trim()) {
+    return fail('Differs only in leading/trailing whitespace');
+  }
+  if (actual.toLowerCase() === expected.toLowerCase()) {
+    return fail('Differs only in letter case');
+  }
+
+  let index = 0;
+  while (
+    index < expected.length &&
+    index < actual.length &&
+    expected[index] === actual[index]
+  ) {
+    index++;
+  }
+  if (index === expected.length) {
+    return fail(
+      `Scanned ${
+        actual.length - expected.length
+      } extra chars after the expected value: ${excerpt(actual, index)}`,
+    );
+  }
+  if (index === actual.length) {
+    return fail(
+      `Scanned value ends after ${actual.length} of ${expected.length} expected chars`,
+    );
+  }
+  return fail(
+    `First difference at char ${index}: expected ${excerpt(
+      expected,
+      index,
+    )}, got ${excerpt(actual, index)}`,
+  );
+};
@@ -0,0 +1,33 @@
+/**
+ * NativeBridge Scan Deduper
+ *
+ * The camera reports a code on every frame it stays in view. In continuous
+ * mode a code is accepted once, then suppressed until the dedupe window has
+ * passed since it was last accepted, so the same code can be read again
+ * deliberately without blocking on a dialog.
+ */
+
+export const DEFAULT_DEDUPE_WINDOW_MS = 2000;
+
+export const createScanDeduper = () => {
+  const lastAccepted = new Map<string, number>();
+
+  const accept = (key: string, windowMs: number, now = Date.now()) => {
+    // Forget codes whose window has passed so the map stays small
+    lastAccepted.forEach((acceptedAt, candidate) => {
+      if (now - acceptedAt >= windowMs) {
+        lastAccepted.delete(candidate);
+      }
+    });
+
+    if (lastAccepted.has(key)) {
+      return false;
+    }
+    lastAccepted.set(key, now);
+    return true;
+  };
+
+  const reset = () => lastAccepted.clear();
+
+  return {accept, reset};
+};
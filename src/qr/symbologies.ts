@@ -0,0 +1,79 @@
+/**
+ * NativeBridge Barcode Symbologies
+ *
+ * The formats the scanner can be restricted to, mapped onto the native
+ * barcode constants of react-native-camera. Formats a platform does not
+ * support (e.g. UPC-A on iOS, which reports it as EAN-13) are skipped.
+ */
+
+import {RNCamera, RNCameraProps} from 'react-native-camera';
+
+export interface Symbology {
+  id: string;
+  label: string;
+}
+
+export const SYMBOLOGIES: Symbology[] = [
+  {id: 'qr', label: 'QR'},
+  {id: 'ean13', label: 'EAN-13'},
+  {id: 'ean8', label: 'EAN-8'},
+  {id: 'upc_a', label: 'UPC-A'},
+  {id: 'upc_e', label: 'UPC-E'},
+  {id: 'code128', label: 'Code 128'},
+  {id: 'code39', label: 'Code 39'},
+  {id: 'datamatrix', label: 'DataMatrix'},
+  {id: 'pdf417', label: 'PDF417'},
+  {id: 'aztec', label: 'Aztec'},
+];
+
+export const DEFAULT_SYMBOLOGIES = ['qr'];
+
+export class UnknownSymbologyError extends Error {
+  constructor(id: string) {
+    super(
+      `Unknown symbology "${id}". Available: ${SYMBOLOGIES.map(
+        symbology => symbology.id,
+      ).join(', ')}`,
+    );
+    this.name = 'UnknownSymbologyError';
+  }
+}
+
+// Native constant per symbology id; the typings omit some Android formats,
+// so a lookup may miss
+const nativeTypes: Record<string, string | undefined> =
+  RNCamera.Constants.BarCodeType;
+
+export const isSupported = (id: string) => nativeTypes[id] !== undefined;
+
+// The typings declare barCodeTypes as constant names, but the native side
+// expects the constant values
+export const resolveBarCodeTypes = (ids: string[]) =>
+  ids
+    .map(id => nativeTypes[id])
+    .filter(
+      (type): type is string => type !== undefined,
+    ) as RNCameraProps['barCodeTypes'];
+
+// Validates a comma-separated list such as "qr,ean13"
+export const parseSymbologyList = (list: string) => {
+  const ids = list
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(id => id.length > 0);
+  ids.forEach(id => {
+    if (!SYMBOLOGIES.some(symbology => symbology.id === id)) {
+      throw new UnknownSymbologyError(id);
+    }
+  });
+  return ids;
+};
+
+// Human-readable name for the type reported by a scan event, which is the
+// native constant (e.g. "EAN_13" on Android)
+export const describeBarCodeType = (type: string) => {
+  const symbology = SYMBOLOGIES.find(
+    candidate => candidate.id === type || nativeTypes[candidate.id] === type,
+  );
+  return symbology?.label ?? type;
+};
@@ -0,0 +1,226 @@
+/**
+ * NativeBridge Key-Value Store
+ *
+ * Disk-backed storage engine for the Storage tab. Each namespace is one JSON
+ * file in the app's document directory, so entries survive app kill and
+ * relaunch. Entries may carry a TTL; expired entries are dropped lazily the
+ * next time their namespace is read.
+ */
+
+import {Platform} from 'react-native';
+import RNFS from 'react-native-fs';
+
+export interface StoredEntry {
+  key: string;
+  value: string;
+  createdAt: string;
+  updatedAt: string;
+  // Epoch milliseconds after which the entry is treated as absent
+  expiresAt?: number;
+}
+
+export interface SetItemOptions {
+  ttlMs?: number;
+}
+
+// A Map rather than a plain object, so keys like "__proto__" or "toString"
+// are ordinary entries
+type Namespace = Map<string, StoredEntry>;
+
+export const DEFAULT_NAMESPACE = 'default';
+
+const STORE_DIRECTORY = `${RNFS.DocumentDirectoryPath}/kv`;
+
+const cache = new Map<string, Namespace>();
+
+// First reads in flight, shared so concurrent callers get the same Map
+const pendingLoads = new Map<string, Promise<Namespace>>();
+
+// Writes are chained per namespace so a slow write never overtakes a newer one
+const writeQueues = new Map<string, Promise<void>>();
+
+export class InvalidNamespaceError extends Error {
+  constructor(namespace: string) {
+    super(
+      `Invalid namespace "${namespace}": use letters, digits, "-", "_" or "."`,
+    );
+    this.name = 'InvalidNamespaceError';
+  }
+}
+
+const namespacePath = (namespace: string) => {
+  if (!/^[\w.-]+$/.test(namespace)) {
+    throw new InvalidNamespaceError(namespace);
+  }
+  return `${STORE_DIRECTORY}/${namespace}.json`;
+};
+
+const isExpired = (entry: StoredEntry, now = Date.now()) =>
+  entry.expiresAt !== undefined && entry.expiresAt <= now;
+
+const parseNamespace = (content: string): Namespace =>
+  new Map(Object.entries(JSON.parse(content)));
+
+const persist = (namespace: string) => {
+  const path = namespacePath(namespace);
+  const content = JSON.stringify(
+    Object.fromEntries(cache.get(namespace) ?? new Map()),
+  );
+  const previous = writeQueues.get(namespace) ?? Promise.resolve();
+
+  // Write to a temp file and rename it over the namespace, so a kill
+  // mid-write never leaves a truncated namespace behind. iOS refuses to move
+  // onto an existing file, so there the old file goes first; a kill in
+  // between leaves the complete temp file, which recoverTempFile restores.
+  const next = previous.then(async () => {
+    await RNFS.mkdir(STORE_DIRECTORY);
+    await RNFS.writeFile(`${path}.tmp`, content, 'utf8');
+    if (Platform.OS !== 'android' && (await RNFS.exists(path))) {
+      await RNFS.unlink(path);
+    }
+    await RNFS.moveFile(`${path}.tmp`, path);
+  });
+  writeQueues.set(
+    namespace,
+    next.catch(() => {}),
+  );
+  return next;
+};
+
+// Handles a temp file left by a write that was killed: with the namespace
+// file still present the temp file may be truncated and is dropped;
+// without it the temp file is the latest complete write, if it parses
+const recoverTempFile = async (path: string) => {
+  const tempPath = `${path}.tmp`;
+  if (!(await RNFS.exists(tempPath))) {
+    return;
+  }
+  if (!(await RNFS.exists(path))) {
+    try {
+      parseNamespace(await RNFS.readFile(tempPath, 'utf8'));
+      await RNFS.moveFile(tempPath, path);
+      return;
+    } catch {
+      // Truncated as well; nothing to recover
+    }
+  }
+  await RNFS.unlink(tempPath);
+};
+
+const readNamespace = async (namespace: string) => {
+  const path = namespacePath(namespace);
+  await recoverTempFile(path);
+  const entries = (await RNFS.exists(path))
+    ? parseNamespace(await RNFS.readFile(path, 'utf8'))
+    : new Map<string, StoredEntry>();
+  cache.set(namespace, entries);
+  return entries;
+};
+
+const loadNamespace = (namespace: string) => {
+  const cached = cache.get(namespace);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
+  let pending = pendingLoads.get(namespace);
+  if (!pending) {
+    pending = readNamespace(namespace).finally(() =>
+      pendingLoads.delete(namespace),
+    );
+    pendingLoads.set(namespace, pending);
+  }
+  return pending;
+};
+
+// Drops expired entries from a namespace, persisting only if any were found
+const purgeExpired = async (namespace: string) => {
+  const entries = await loadNamespace(namespace);
+  const now = Date.now();
+  const expiredKeys = Array.from(entries)
+    .filter(([, entry]) => isExpired(entry, now))
+    .map(([key]) => key);
+
+  if (expiredKeys.length > 0) {
+    expiredKeys.forEach(key => entries.delete(key));
+    await persist(namespace);
+  }
+  return entries;
+};
+
+export const setItem = async (
+  namespace: string,
+  key: string,
+  value: string,
+  options: SetItemOptions = {},
+) => {
+  const entries = await loadNamespace(namespace);
+  const now = new Date();
+  const existing = entries.get(key);
+
+  const entry: StoredEntry = {
+    key,
+    value,
+    createdAt:
+      existing && !isExpired(existing) ? existing.createdAt : now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  if (options.ttlMs !== undefined && options.ttlMs > 0) {
+    entry.expiresAt = now.getTime() + options.ttlMs;
+  }
+
+  entries.set(key, entry);
+  await persist(namespace);
+  return entry;
+};
+
+export const getEntry = async (namespace: string, key: string) => {
+  const entries = await purgeExpired(namespace);
+  return entries.get(key) ?? null;
+};
+
+export const getItem = async (namespace: string, key: string) =>
+  (await getEntry(namespace, key))?.value ?? null;
+
+export const removeItem = async (namespace: string, key: string) => {
+  const entries = await loadNamespace(namespace);
+  if (!entries.delete(key)) {
+    return false;
+  }
+  await persist(namespace);
+  return true;
+};
+
+export const listEntries = async (namespace: string) => {
+  const entries = await purgeExpired(namespace);
+  return Array.from(entries.values()).sort((a, b) =>
+    a.key.localeCompare(b.key),
+  );
+};
+
+export const listNamespaces = async () => {
+  if (!(await RNFS.exists(STORE_DIRECTORY))) {
+    return [];
+  }
+  const files = await RNFS.readDir(STORE_DIRECTORY);
+  return files
+    .filter(file => file.isFile() && file.name.endsWith('.json'))
+    .map(file => file.name.replace(/\.json$/, ''))
+    .sort();
+};
+
+export const clearNamespace = async (namespace: string) => {
+  (await loadNamespace(namespace)).clear();
+  await persist(namespace);
+};
+
+export const clearAll = async () => {
+  await Promise.all(
+    Array.from(pendingLoads.values(), load => load.catch(() => {})),
+  );
+  await Promise.all(Array.from(writeQueues.values()));
+  cache.clear();
+  writeQueues.clear();
+  if (await RNFS.exists(STORE_DIRECTORY)) {
+    await RNFS.unlink(STORE_DIRECTORY);
+  }
+};
@@ -0,0 +1,67 @@
+/**
+ * NativeBridge Private Store
+ *
+ * Values the app's own security checks rely on: the app-lock settings and
+ * counters and the enrolled biometric public key. The key-value store is
+ * fully writable from the Storage tab and its deep link, and the FS tab can
+ * reach the documents directory, so these live one file per item in a
+ * directory neither exposes: Library on iOS, no_backup on Android.
+ */
+
+import {Platform} from 'react-native';
+import RNFS from 'react-native-fs';
+
+const PRIVATE_DIRECTORY =
+  Platform.OS === 'android'
+    ? `${RNFS.DocumentDirectoryPath.replace(/\/[^/]+$/, '')}/no_backup/private`
+    : `${RNFS.LibraryDirectoryPath}/Private`;
+
+// Writes are chained per item so a slow write never overtakes a newer one
+const writeQueues = new Map<string, Promise<void>>();
+
+export const privateItemPath = (key: string) => `${PRIVATE_DIRECTORY}/${key}`;
+
+const enqueueWrite = (key: string, write: () => Promise<void>) => {
+  const next = (writeQueues.get(key) ?? Promise.resolve()).then(write);
+  writeQueues.set(
+    key,
+    next.catch(() => {}),
+  );
+  return next;
+};
+
+// Same temp-file-and-rename write as the key-value store; iOS refuses to
+// move onto an existing file, so there the old file goes first
+export const setPrivateItem = (key: string, value: string) =>
+  enqueueWrite(key, async () => {
+    const path = privateItemPath(key);
+    await RNFS.mkdir(PRIVATE_DIRECTORY);
+    await RNFS.writeFile(`${path}.tmp`, value, 'utf8');
+    if (Platform.OS !== 'android' && (await RNFS.exists(path))) {
+      await RNFS.unlink(path);
+    }
+    await RNFS.moveFile(`${path}.tmp`, path);
+  });
+
+export const removePrivateItem = (key: string) =>
+  enqueueWrite(key, async () => {
+    const path = privateItemPath(key);
+    if (await RNFS.exists(path)) {
+      await RNFS.unlink(path);
+    }
+  });
+
+// A temp file without its item is the latest write, killed before the
+// rename; readers validate what they get, which also covers a first write
+// killed halfway
+export const getPrivateItem = async (key: string) => {
+  await writeQueues.get(key);
+  const path = privateItemPath(key);
+  if (await RNFS.exists(path)) {
+    return RNFS.readFile(path, 'utf8');
+  }
+  if (await RNFS.exists(`${path}.tmp`)) {
+    return RNFS.readFile(`${path}.tmp`, 'utf8');
+  }
+  return null;
+};
@@ -0,0 +1,551 @@
+/**
+ * NativeBridge Biometric Tab
+ *
+ * Sensor availability, biometric prompts and key pair management through
+ * react-native-biometrics, plus a challenge-response check: a random
+ * challenge is signed behind the biometric prompt and the signature is
+ * verified in TypeScript against the stored public key. Also hosts the
+ * app-lock gate settings.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import ReactNativeBiometrics from 'react-native-biometrics';
+import {SignatureVerification, verifyBiometricSignature} from '../crypto/rsa';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {useAppLock} from '../lock/AppLockContext';
+import {
+  APP_LOCK_MODE_LABELS,
+  APP_LOCK_MODES,
+  AppLockSettings,
+} from '../lock/appLockSettings';
+import {logEvent} from '../logging/eventLog';
+import {
+  getPrivateItem,
+  removePrivateItem,
+  setPrivateItem,
+} from '../storage/privateStore';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+// The public key returned by createKeys is kept in the private store, so
+// signatures can still be verified after a relaunch and a storage deep link
+// cannot swap in another key
+const PUBLIC_KEY_ITEM = 'biometric-public-key';
+
+const CHALLENGE_BYTES = 16;
+
+interface SignatureCheck extends SignatureVerification {
+  challenge: string;
+}
+
+// The challenge only needs to be unique per attempt, so Math.random is
+// enough; it is plain ASCII so both platforms sign the same bytes
+const createChallenge = () => {
+  const nonce = Array.from({length: CHALLENGE_BYTES}, () =>
+    Math.floor(Math.random() * 256)
+      .toString(16)
+      .padStart(2, '0'),
+  ).join('');
+  return `nativebridge-challenge:${Date.now()}:${nonce}`;
+};
+
+function BiometricScreen() {
+  // Biometric Tab state
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [biometricType, setBiometricType] = useState('');
+  const [biometricStatus, setBiometricStatus] = useState('');
+  const [keysExist, setKeysExist] = useState<boolean | null>(null);
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [signatureCheck, setSignatureCheck] = useState<SignatureCheck | null>(
+    null,
+  );
+
+  // App lock settings
+  const {settings: lockSettings, updateSettings, lockNow} = useAppLock();
+  const [graceText, setGraceText] = useState(String(lockSettings.graceSeconds));
+
+  useEffect(() => {
+    setGraceText(String(lockSettings.graceSeconds));
+  }, [lockSettings.graceSeconds]);
+
+  // ==================== BIOMETRIC TAB HANDLERS ====================
+
+  const checkBiometricAvailability = async () => {
+    try {
+      logEvent('BIOMETRIC', 'Checking biometric sensor availability');
+      setBiometricStatus('Checking...');
+
+      // Try with allowDeviceCredentials option for broader compatibility
+      const rnBiometrics = new ReactNativeBiometrics({
+        allowDeviceCredentials: true,
+      });
+
+      const result = await rnBiometrics.isSensorAvailable();
+      const {available, biometryType} = result;
+
+      // Log to both app events and console (visible in adb logcat)
+      console.log('[BIOMETRIC DEBUG] Full result:', JSON.stringify(result));
+      console.log('[BIOMETRIC DEBUG] available:', available);
+      console.log('[BIOMETRIC DEBUG] biometryType:', biometryType);
+
+      logEvent('BIOMETRIC', `Full result: ${JSON.stringify(result)}`);
+
+      setBiometricAvailable(available);
+
+      let typeStr = 'None';
+      // Handle all possible biometry types
+      if (biometryType === 'Biometrics') {
+        typeStr = 'Fingerprint/Biometrics';
+      } else if (biometryType === 'FaceID') {
+        typeStr = 'Face ID';
+      } else if (biometryType === 'TouchID' || biometryType === 'Fingerprint') {
+        typeStr = 'Touch ID/Fingerprint';
+      } else if (biometryType) {
+        // If we get any other non-null value, show it
+        typeStr = biometryType;
+      }
+
+      setBiometricType(typeStr);
+
+      logEvent(
+        'BIOMETRIC',
+        `Raw biometryType: ${biometryType}, available: ${available}`,
+      );
+
+      if (available) {
+        setBiometricStatus(`✓ Available: ${typeStr}`);
+        logEvent('BIOMETRIC', `Biometric available: ${typeStr}`);
+        Alert.alert(
+          'Biometric Available',
+          `Type: ${typeStr}\n\nYou can now use the authentication button below.`,
+        );
+      } else {
+        setBiometricStatus('✗ No biometric sensor available');
+        logEvent(
+          'BIOMETRIC',
+          `No biometric sensor available (biometryType: ${biometryType})`,
+        );
+
+        // More detailed error message
+        let errorDetail = 'No biometric sensor found on this device.';
+        if (biometryType === null || biometryType === undefined) {
+          errorDetail +=
+            '\n\nPossible reasons:\n1. No fingerprint enrolled in device Settings > Security > Fingerprint\n2. Biometric hardware not detected\n3. Device security not set up (PIN/Pattern/Password required first)';
+        }
+
+        Alert.alert('Not Available', errorDetail);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBiometricStatus(`✗ Error: ${errorMsg}`);
+      logEvent('BIOMETRIC', `Check availability error: ${errorMsg}`);
+
+      // Check if it's a common error
+      let userMessage = `Failed to check biometric: ${errorMsg}`;
+      if (errorMsg.includes('not available')) {
+        userMessage =
+          'Biometric authentication is not available on this device.\n\nPlease check:\n1. Set up a screen lock (PIN/Pattern/Password) in Settings\n2. Enroll at least one fingerprint in Settings > Security\n3. Restart the app after enrollment';
+      }
+
+      Alert.alert('Error', userMessage);
+    }
+  };
+
+  const handleBiometricAuth = async () => {
+    try {
+      logEvent('BIOMETRIC', 'Starting biometric authentication');
+      setBiometricStatus('Authenticating...');
+
+      const rnBiometrics = new ReactNativeBiometrics();
+      const {success} = await rnBiometrics.simplePrompt({
+        promptMessage: 'Authenticate with Biometrics',
+        cancelButtonText: 'Cancel',
+      });
+
+      if (success) {
+        setBiometricStatus('✓ Authentication successful!');
+        logEvent('BIOMETRIC', 'Authentication successful');
+        Alert.alert('Success', 'Biometric authentication successful!');
+      } else {
+        setBiometricStatus('✗ Authentication failed');
+        logEvent('BIOMETRIC', 'Authentication failed or cancelled');
+        Alert.alert('Failed', 'Biometric authentication failed or cancelled');
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBiometricStatus(`✗ Error: ${errorMsg}`);
+      logEvent('BIOMETRIC', `Authentication error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to authenticate: ${errorMsg}`);
+    }
+  };
+
+  const createBiometricKeys = async () => {
+    try {
+      logEvent('BIOMETRIC', 'Creating biometric keys');
+      setBiometricStatus('Creating keys...');
+
+      const rnBiometrics = new ReactNativeBiometrics();
+      const {publicKey: createdKey} = await rnBiometrics.createKeys();
+      await setPrivateItem(PUBLIC_KEY_ITEM, createdKey);
+      setKeysExist(true);
+      setPublicKey(createdKey);
+      setSignatureCheck(null);
+
+      setBiometricStatus('✓ Keys created successfully');
+      logEvent(
+        'BIOMETRIC',
+        `Keys created. Public key: ${createdKey.substring(0, 50)}...`,
+      );
+      Alert.alert(
+        'Keys Created',
+        `Public Key (truncated):\n${createdKey.substring(0, 100)}...`,
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBiometricStatus(`✗ Error: ${errorMsg}`);
+      logEvent('BIOMETRIC', `Create keys error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to create keys: ${errorMsg}`);
+    }
+  };
+
+  const deleteBiometricKeys = async () => {
+    try {
+      logEvent('BIOMETRIC', 'Deleting biometric keys');
+      setBiometricStatus('Deleting keys...');
+
+      const rnBiometrics = new ReactNativeBiometrics();
+      const {keysDeleted} = await rnBiometrics.deleteKeys();
+      await removePrivateItem(PUBLIC_KEY_ITEM);
+      setKeysExist(false);
+      setPublicKey(null);
+      setSignatureCheck(null);
+
+      if (keysDeleted) {
+        setBiometricStatus('✓ Keys deleted successfully');
+        logEvent('BIOMETRIC', 'Keys deleted');
+        Alert.alert('Success', 'Biometric keys deleted');
+      } else {
+        setBiometricStatus('✗ No keys to delete');
+        logEvent('BIOMETRIC', 'No keys found to delete');
+        Alert.alert('Info', 'No biometric keys found');
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBiometricStatus(`✗ Error: ${errorMsg}`);
+      logEvent('BIOMETRIC', `Delete keys error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to delete keys: ${errorMsg}`);
+    }
+  };
+
+  const checkBiometricKeys = async () => {
+    try {
+      const rnBiometrics = new ReactNativeBiometrics();
+      const {keysExist: exist} = await rnBiometrics.biometricKeysExist();
+      const storedKey = exist ? await getPrivateItem(PUBLIC_KEY_ITEM) : null;
+      setKeysExist(exist);
+      setPublicKey(storedKey);
+      logEvent(
+        'BIOMETRIC',
+        `Keys exist: ${exist}${
+          exist && !storedKey ? ' (public key not stored on this install)' : ''
+        }`,
+      );
+      return exist;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBiometricStatus(`✗ Error: ${errorMsg}`);
+      logEvent('BIOMETRIC', `Check keys error: ${errorMsg}`, {level: 'error'});
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    checkBiometricKeys();
+  }, []);
+
+  const signChallenge = async () => {
+    try {
+      if (!publicKey) {
+        Alert.alert(
+          'No Public Key',
+          keysExist
+            ? 'Keys exist but their public key was not stored. Delete and create keys again.'
+            : 'Create biometric keys first',
+        );
+        return;
+      }
+
+      const challenge = createChallenge();
+      logEvent('BIOMETRIC', `Signing challenge ${challenge}`);
+      setBiometricStatus('Waiting for biometric prompt...');
+      setSignatureCheck(null);
+
+      const rnBiometrics = new ReactNativeBiometrics();
+      const {success, signature, error} = await rnBiometrics.createSignature({
+        promptMessage: 'Sign challenge',
+        payload: challenge,
+        cancelButtonText: 'Cancel',
+      });
+
+      if (!success || !signature) {
+        setBiometricStatus(`✗ Signing cancelled${error ? `: ${error}` : ''}`);
+        logEvent('BIOMETRIC', `Signing failed: ${error ?? 'cancelled'}`, {
+          level: 'warn',
+        });
+        return;
+      }
+
+      const check = {
+        challenge,
+        ...verifyBiometricSignature(publicKey, challenge, signature),
+      };
+      setSignatureCheck(check);
+      setBiometricStatus(
+        check.valid ? '✓ Signature verified' : '✗ Bad signature',
+      );
+      logEvent(
+        'BIOMETRIC',
+        `Signature ${check.valid ? 'PASS' : 'FAIL'}: ${check.reason}`,
+        {
+          level: check.valid ? 'info' : 'error',
+          payload: {challenge, signature, digest: check.digest},
+        },
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBiometricStatus(`✗ Error: ${errorMsg}`);
+      logEvent('BIOMETRIC', `Sign challenge error: ${errorMsg}`, {
+        level: 'error',
+      });
+      Alert.alert('Error', `Failed to sign challenge: ${errorMsg}`);
+    }
+  };
+
+  const handleUpdateLockSettings = async (
+    changes: Partial<AppLockSettings>,
+  ) => {
+    try {
+      await updateSettings(changes);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setGraceText(String(lockSettings.graceSeconds));
+      Alert.alert('Error', `Failed to update app lock: ${errorMsg}`);
+    }
+  };
+
+  useDeepLinkContribution('biometric', {
+    actions: {
+      'check-biometric': checkBiometricAvailability,
+      'biometric-auth': handleBiometricAuth,
+      'create-keys': createBiometricKeys,
+      'delete-keys': deleteBiometricKeys,
+      'check-keys': checkBiometricKeys,
+      'sign-challenge': signChallenge,
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Biometric Availability */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Biometric Sensor</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={checkBiometricAvailability}
+          testID="check-biometric-button">
+          <Text style={styles.buttonText}>Check Biometric Availability</Text>
+        </TouchableOpacity>
+
+        {biometricStatus ? (
+          <Text
+            style={[styles.sectionTitle, {marginTop: 20, fontSize: 14}]}
+            testID="biometric-status">
+            Status: {biometricStatus}
+          </Text>
+        ) : null}
+
+        {biometricAvailable ? (
+          <View style={styles.resultBox}>
+            <Text style={styles.resultText}>
+              Biometric Type: {biometricType}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      {/* Biometric Authentication */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Re-Authentication</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleBiometricAuth}
+          testID="authenticate-button">
+          <Text style={styles.buttonText}>Authenticate Again</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.label, {marginTop: 15}]}>
+          Test biometric authentication again. This doesn't affect your access
+          to the app.
+        </Text>
+      </View>
+
+      {/* Key Management */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Key Management</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={createBiometricKeys}
+          testID="create-keys-button">
+          <Text style={styles.buttonText}>Create Biometric Keys</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10, backgroundColor: '#FF3B30'}]}
+          onPress={deleteBiometricKeys}
+          testID="delete-keys-button">
+          <Text style={styles.buttonText}>Delete Biometric Keys</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.label, {marginTop: 15}]}>
+          Keys are used for secure cryptographic operations tied to biometric
+          authentication.
+        </Text>
+      </View>
+
+      {/* Signature Challenge */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Signature Challenge</Text>
+
+        <Text style={styles.infoText} testID="biometric-keys-status">
+          {keysExist === null
+            ? 'Keys: unknown'
+            : keysExist
+            ? `Keys: present${publicKey ? '' : ' (public key not stored)'}`
+            : 'Keys: none'}
+        </Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={checkBiometricKeys}
+          testID="check-keys-button">
+          <Text style={styles.buttonText}>Check Keys Exist</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={signChallenge}
+          testID="sign-challenge-button">
+          <Text style={styles.buttonText}>Sign Random Challenge</Text>
+        </TouchableOpacity>
+
+        {signatureCheck ? (
+          <View style={styles.resultBox}>
+            <Text
+              style={[
+                styles.verdict,
+                signatureCheck.valid
+                  ? styles.permissionGranted
+                  : styles.permissionDenied,
+              ]}
+              testID="signature-result">
+              {signatureCheck.valid ? 'PASS' : 'FAIL'}
+            </Text>
+            <Text style={styles.resultText} testID="signature-reason">
+              {signatureCheck.reason}
+            </Text>
+            <Text style={styles.label} testID="signature-challenge">
+              Challenge: {signatureCheck.challenge}
+            </Text>
+            <Text style={styles.label} testID="signature-digest">
+              SHA-256: {signatureCheck.digest}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      {/* App Lock */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>App Lock</Text>
+
+        <View style={styles.chipRow}>
+          {APP_LOCK_MODES.map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.chip,
+                lockSettings.mode === mode && styles.activeChip,
+              ]}
+              onPress={() => handleUpdateLockSettings({mode})}
+              testID={`app-lock-mode-${mode}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  lockSettings.mode === mode && styles.activeChipText,
+                ]}>
+                {APP_LOCK_MODE_LABELS[mode]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {lockSettings.mode === 'resume' ? (
+          <>
+            <Text style={styles.label}>Grace period (seconds)</Text>
+            <TextInput
+              style={styles.textInput}
+              value={graceText}
+              onChangeText={setGraceText}
+              onEndEditing={() =>
+                handleUpdateLockSettings({graceSeconds: Number(graceText)})
+              }
+              keyboardType="number-pad"
+              testID="app-lock-grace-input"
+            />
+          </>
+        ) : null}
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Allow device PIN/pattern fallback</Text>
+          <Switch
+            value={lockSettings.allowDeviceCredentials}
+            onValueChange={value =>
+              handleUpdateLockSettings({allowDeviceCredentials: value})
+            }
+            testID="app-lock-credentials-switch"
+          />
+        </View>
+
+        <Text style={styles.label}>
+          Lockout: {lockSettings.lockoutSeconds}s after{' '}
+          {lockSettings.maxAttempts} failed attempts
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() => lockNow('Lock Now button')}
+          testID="lock-app-button">
+          <Text style={styles.buttonText}>Lock Now</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'biometric',
+  label: 'Bio',
+  testID: 'tab-biometric',
+  Screen: BiometricScreen,
+});
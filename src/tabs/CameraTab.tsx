@@ -0,0 +1,695 @@
+/**
+ * NativeBridge Camera/QR Tab
+ *
+ * QR code scanning through the back camera, and a QR generator whose codes
+ * can be shown to another device or saved as PNG. The camera only runs
+ * while this tab is shown, so injected feeds are not consumed in the
+ * background.
+ */
+
+import React, {useRef, useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Vibration,
+  View,
+} from 'react-native';
+import {BarCodeReadEvent, RNCamera} from 'react-native-camera';
+import {DeepLinkError} from '../deeplink/commandRouter';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {parseQrPayload, QR_KIND_LABELS} from '../qr/payloadParser';
+import {QrCodeView} from '../qr/QrCodeView';
+import {
+  encodeQrCode,
+  ERROR_CORRECTION_LEVELS,
+  ERROR_CORRECTION_RECOVERY,
+  ErrorCorrectionLevel,
+  QrCode,
+} from '../qr/qrEncoder';
+import {saveQrCodePng} from '../qr/qrImage';
+import {assertQrPayload, QrAssertion} from '../qr/scanAssertion';
+import {createScanDeduper, DEFAULT_DEDUPE_WINDOW_MS} from '../qr/scanDeduper';
+import {
+  DEFAULT_SYMBOLOGIES,
+  describeBarCodeType,
+  isSupported,
+  parseSymbologyList,
+  resolveBarCodeTypes,
+  SYMBOLOGIES,
+} from '../qr/symbologies';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {useSharedInput} from './SharedInputContext';
+import {registerTab, TabScreenProps} from './tabRegistry';
+
+// Number of (newest) scans kept in the history list
+const SCAN_HISTORY_LIMIT = 50;
+
+type ScanMode = 'single' | 'continuous';
+
+const SCAN_MODES: ScanMode[] = ['single', 'continuous'];
+
+interface QrScan {
+  // Sequence number within the session, used in testIDs
+  id: number;
+  scannedAt: string;
+  type: string;
+  data: string;
+  // Present when the scan was made in expect mode
+  assertion?: QrAssertion;
+}
+
+// Edge length of the on-screen generated code, in points
+const GENERATED_QR_SIZE = 280;
+
+const formatVerdict = (scan: QrScan) =>
+  scan.assertion
+    ? `${scan.assertion.pass ? 'PASS' : 'FAIL'}: ${scan.assertion.reason}`
+    : '';
+
+// Decoded fields of a scanned payload, followed by the raw string
+function QrPayloadDetails({raw, rawTestID}: {raw: string; rawTestID: string}) {
+  const payload = parseQrPayload(raw);
+
+  return (
+    <>
+      <Text style={styles.qrKind} testID="qr-payload-kind">
+        {QR_KIND_LABELS[payload.kind]}
+      </Text>
+      {payload.fields.map(field => (
+        <View key={field.key} style={styles.fieldRow}>
+          <Text style={styles.fieldLabel}>{field.label}</Text>
+          <Text style={styles.fieldValue} testID={`qr-field-${field.key}`}>
+            {field.value}
+          </Text>
+        </View>
+      ))}
+
+      <Text style={[styles.label, styles.spacedTitle]}>Raw Payload</Text>
+      <Text style={styles.resultText} testID={rawTestID}>
+        {raw}
+      </Text>
+    </>
+  );
+}
+
+function CameraScreen({isActive}: TabScreenProps) {
+  // Camera/QR Tab state
+  const [showCamera, setShowCamera] = useState(false);
+  const [qrData, setQrData] = useState('');
+  const [lastScannedQR, setLastScannedQR] = useState('');
+  const [scanHistory, setScanHistory] = useState<QrScan[]>([]);
+  const [expectMode, setExpectMode] = useState(false);
+  const [expectedPayload, setExpectedPayload] = useState('');
+  const scanCountRef = useRef(0);
+
+  // Scanner settings
+  const [scanMode, setScanMode] = useState<ScanMode>('single');
+  const [dedupeWindow, setDedupeWindow] = useState(
+    String(DEFAULT_DEDUPE_WINDOW_MS),
+  );
+  const [symbologies, setSymbologies] = useState(DEFAULT_SYMBOLOGIES);
+  const [suppressedScans, setSuppressedScans] = useState(0);
+  const deduperRef = useRef(createScanDeduper());
+
+  // QR generator state
+  const {textInput} = useSharedInput();
+  const [generatorText, setGeneratorText] = useState('');
+  const [generatorLevel, setGeneratorLevel] =
+    useState<ErrorCorrectionLevel>('M');
+  const [generatedCode, setGeneratedCode] = useState<QrCode | null>(null);
+  const [generatorStatus, setGeneratorStatus] = useState('');
+
+  // ==================== CAMERA/QR TAB HANDLERS ====================
+
+  const handleOpenCamera = async () => {
+    try {
+      logEvent('CAMERA', 'Opening camera for QR scanning');
+      const status = await ensurePermission('camera');
+
+      if (isUsable(status)) {
+        setShowCamera(true);
+        setQrData('');
+        logEvent('CAMERA', 'Camera opened successfully');
+      } else {
+        logEvent('CAMERA', 'Camera permission denied');
+        Alert.alert(
+          'Permission Denied',
+          'Camera permission is required for QR scanning',
+        );
+      }
+    } catch (error) {
+      logEvent('CAMERA', `Camera open error: ${error}`);
+      Alert.alert('Error', 'Failed to open camera');
+    }
+  };
+
+  const handleCloseCamera = () => {
+    setShowCamera(false);
+    logEvent('CAMERA', 'Camera closed');
+  };
+
+  const getDedupeWindowMs = () => {
+    const windowMs = Number(dedupeWindow);
+    return dedupeWindow.trim() !== '' && windowMs >= 0
+      ? windowMs
+      : DEFAULT_DEDUPE_WINDOW_MS;
+  };
+
+  const recordScan = (scanResult: BarCodeReadEvent) => {
+    setQrData(scanResult.data);
+    const payload = parseQrPayload(scanResult.data);
+    logEvent('QR_SCAN', `Code scanned: ${scanResult.data}`, {
+      payload: {type: scanResult.type, ...payload},
+    });
+
+    const scan: QrScan = {
+      id: ++scanCountRef.current,
+      scannedAt: new Date().toISOString(),
+      type: describeBarCodeType(String(scanResult.type)),
+      data: scanResult.data,
+      assertion: expectMode
+        ? assertQrPayload(expectedPayload, scanResult.data)
+        : undefined,
+    };
+    setScanHistory(history => [scan, ...history].slice(0, SCAN_HISTORY_LIMIT));
+
+    if (scan.assertion) {
+      logEvent('QR_ASSERT', `Scan #${scan.id} ${formatVerdict(scan)}`, {
+        level: scan.assertion.pass ? 'info' : 'warn',
+        payload: {...scan.assertion, actual: scan.data},
+      });
+    }
+    return scan;
+  };
+
+  const onBarCodeRead = (scanResult: BarCodeReadEvent) => {
+    if (!scanResult.data) {
+      return;
+    }
+
+    // Continuous mode never blocks on a dialog; repeats are dropped until
+    // the dedupe window has passed
+    if (scanMode === 'continuous') {
+      const key = `${scanResult.type}:${scanResult.data}`;
+      if (deduperRef.current.accept(key, getDedupeWindowMs())) {
+        recordScan(scanResult);
+        Vibration.vibrate(50);
+      } else {
+        setSuppressedScans(count => count + 1);
+      }
+      return;
+    }
+
+    if (scanResult.data !== lastScannedQR) {
+      setLastScannedQR(scanResult.data);
+      const scan = recordScan(scanResult);
+      Alert.alert(
+        'Code Scanned',
+        [`Data: ${scan.data}`, `Type: ${scan.type}`, formatVerdict(scan)]
+          .filter(Boolean)
+          .join('\n'),
+        [
+          {
+            text: 'OK',
+            onPress: () => {
+              // Reset after a delay to allow scanning again
+              setTimeout(() => setLastScannedQR(''), 2000);
+            },
+          },
+        ],
+      );
+      Vibration.vibrate(200);
+    }
+  };
+
+  const handleSetScanMode = (mode: ScanMode) => {
+    setScanMode(mode);
+    setLastScannedQR('');
+    setSuppressedScans(0);
+    deduperRef.current.reset();
+    logEvent('CAMERA', `Scan mode: ${mode}`);
+  };
+
+  const handleToggleSymbology = (id: string) => {
+    const next = symbologies.includes(id)
+      ? symbologies.filter(selected => selected !== id)
+      : [...symbologies, id];
+    if (next.length === 0) {
+      Alert.alert('Scanner', 'Keep at least one barcode format selected');
+      return;
+    }
+    setSymbologies(next);
+    logEvent('CAMERA', `Barcode formats: ${next.join(', ')}`);
+  };
+
+  const handleSetExpectedPayload = (value: string | null) => {
+    setExpectMode(value !== null);
+    if (value !== null) {
+      setExpectedPayload(value);
+    }
+    logEvent(
+      'QR_ASSERT',
+      value !== null ? `Expecting: ${value}` : 'Expect mode off',
+    );
+  };
+
+  const handleClearScanHistory = () => {
+    setScanHistory([]);
+    logEvent('QR_SCAN', 'Scan history cleared');
+  };
+
+  // ==================== QR GENERATOR HANDLERS ====================
+
+  // Encodes the typed payload, falling back to the UI tab's text input
+  const handleGenerateQr = (
+    text = generatorText || textInput,
+    level = generatorLevel,
+  ) => {
+    if (!text) {
+      setGeneratorStatus('✗ Enter a payload or set the UI tab text input');
+      return null;
+    }
+    try {
+      const code = encodeQrCode(text, level);
+      setGeneratedCode(code);
+      const summary = `Version ${code.version}-${code.level} · ${code.size}×${code.size} · ${code.mode} · mask ${code.mask}`;
+      setGeneratorStatus(`✓ ${summary}`);
+      logEvent('QR_GENERATE', `Generated ${summary}: ${text}`, {
+        payload: {text, version: code.version, level, mode: code.mode},
+      });
+      return code;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setGeneratedCode(null);
+      setGeneratorStatus(`✗ Error: ${errorMsg}`);
+      logEvent('QR_GENERATE', `QR generation failed: ${errorMsg}`, {
+        level: 'error',
+      });
+      return null;
+    }
+  };
+
+  const handleSaveQrPng = async () => {
+    if (!generatedCode) {
+      Alert.alert('QR Generator', 'Generate a code first');
+      return;
+    }
+    try {
+      if (!isUsable(await ensurePermission('write-storage'))) {
+        Alert.alert(
+          'Permission Denied',
+          'Storage permission is required to save images',
+        );
+        return;
+      }
+
+      const {path, bytes} = await saveQrCodePng(generatedCode);
+      setGeneratorStatus(`✓ Saved ${bytes} bytes to ${path}`);
+      logEvent('QR_GENERATE', `QR code saved: ${path}`);
+      Alert.alert('QR Code Saved', `Image saved to:\n${path}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setGeneratorStatus(`✗ Error: ${errorMsg}`);
+      logEvent('QR_GENERATE', `QR save failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to save QR code: ${errorMsg}`);
+    }
+  };
+
+  useDeepLinkContribution('camera', {
+    commands: {
+      // nativebridge://qr-generate?text=hello&ec=H
+      'qr-generate': {
+        primaryArg: 'text',
+        run: ({text, ec}) => {
+          const level = (ec ?? generatorLevel).toUpperCase();
+          if (
+            !ERROR_CORRECTION_LEVELS.includes(level as ErrorCorrectionLevel)
+          ) {
+            throw new DeepLinkError(
+              `Unknown error correction level "${ec}". Available: ${ERROR_CORRECTION_LEVELS.join(
+                ', ',
+              )}`,
+            );
+          }
+          if (text !== undefined) {
+            setGeneratorText(text);
+          }
+          setGeneratorLevel(level as ErrorCorrectionLevel);
+          const code = handleGenerateQr(
+            text ?? (generatorText || textInput),
+            level as ErrorCorrectionLevel,
+          );
+          if (!code) {
+            throw new DeepLinkError(
+              'QR generation failed, see QR_GENERATE log',
+            );
+          }
+          return `version ${code.version}-${code.level}, ${code.size}×${code.size}`;
+        },
+      },
+      // nativebridge://scanner?mode=continuous&window=1500&types=qr,ean13
+      scanner: {
+        run: ({mode, window, types}) => {
+          if (mode !== undefined && !SCAN_MODES.includes(mode as ScanMode)) {
+            throw new DeepLinkError(
+              `Unknown scan mode "${mode}". Available: ${SCAN_MODES.join(
+                ', ',
+              )}`,
+            );
+          }
+          if (window !== undefined && !(Number(window) >= 0)) {
+            throw new DeepLinkError(`Invalid dedupe window "${window}"`);
+          }
+          const ids = types !== undefined ? parseSymbologyList(types) : null;
+          if (ids && ids.length === 0) {
+            throw new DeepLinkError('types must list at least one format');
+          }
+
+          if (mode !== undefined) {
+            handleSetScanMode(mode as ScanMode);
+          }
+          if (window !== undefined) {
+            setDedupeWindow(window);
+          }
+          if (ids) {
+            setSymbologies(ids);
+          }
+          return [
+            `mode=${mode ?? scanMode}`,
+            `window=${window ?? getDedupeWindowMs()}ms`,
+            `types=${(ids ?? symbologies).join(',')}`,
+          ].join(' ');
+        },
+      },
+      // nativebridge://qr-expect/<payload> turns expect mode on;
+      // without a value it turns it off
+      'qr-expect': {
+        primaryArg: 'value',
+        run: ({value}) => {
+          handleSetExpectedPayload(value ?? null);
+          return value !== undefined ? `expecting "${value}"` : 'expect off';
+        },
+      },
+    },
+    actions: {
+      'clear-qr-history': handleClearScanHistory,
+      'save-qr-png': handleSaveQrPng,
+      'open-camera': handleOpenCamera,
+      'close-camera': handleCloseCamera,
+    },
+  });
+
+  // Keep the camera closed while another tab is shown
+  const isCameraRunning = showCamera && isActive;
+  const lastAssertion = scanHistory[0]?.assertion;
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* QR Code Scanner */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>QR Code Scanner</Text>
+
+        {!isCameraRunning ? (
+          <>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={handleOpenCamera}
+              testID="open-camera-button">
+              <Text style={styles.buttonText}>Open Camera for QR Scanning</Text>
+            </TouchableOpacity>
+
+            {qrData ? (
+              <View style={styles.resultBox}>
+                <Text style={styles.sectionTitle}>Last Scanned QR Code:</Text>
+                <QrPayloadDetails raw={qrData} rawTestID="qr-data" />
+              </View>
+            ) : null}
+
+            <Text style={[styles.label, {marginTop: 15}]}>
+              This camera can be used to test QR code scanning and camera
+              injection via Appium. The camera feed can be intercepted and
+              replaced with test images.
+            </Text>
+          </>
+        ) : (
+          <View>
+            <View style={styles.cameraContainer}>
+              <RNCamera
+                style={styles.camera}
+                type={RNCamera.Constants.Type.back}
+                flashMode={RNCamera.Constants.FlashMode.off}
+                onBarCodeRead={onBarCodeRead}
+                barCodeTypes={resolveBarCodeTypes(symbologies)}
+                captureAudio={false}
+                testID="qr-camera">
+                <View style={styles.cameraOverlay}>
+                  <View style={styles.scanFrame} />
+                  <Text style={styles.cameraText}>
+                    Position the code within the frame
+                  </Text>
+                </View>
+              </RNCamera>
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.button,
+                {marginTop: 15, backgroundColor: '#FF3B30'},
+              ]}
+              onPress={handleCloseCamera}
+              testID="close-camera-button">
+              <Text style={styles.buttonText}>Close Camera</Text>
+            </TouchableOpacity>
+
+            {qrData ? (
+              <View style={[styles.resultBox, {marginTop: 15}]}>
+                <Text style={styles.sectionTitle}>Scanned Data:</Text>
+                <QrPayloadDetails raw={qrData} rawTestID="qr-data-live" />
+              </View>
+            ) : null}
+          </View>
+        )}
+      </View>
+
+      {/* Scanner Settings */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Scan Mode</Text>
+        <View style={styles.chipRow}>
+          {SCAN_MODES.map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.chip, scanMode === mode && styles.activeChip]}
+              onPress={() => handleSetScanMode(mode)}
+              testID={`scan-mode-${mode}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  scanMode === mode && styles.activeChipText,
+                ]}>
+                {mode.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {scanMode === 'continuous' ? (
+          <>
+            <Text style={styles.label}>Dedupe window (ms)</Text>
+            <TextInput
+              style={styles.textInput}
+              value={dedupeWindow}
+              onChangeText={setDedupeWindow}
+              keyboardType="number-pad"
+              testID="scan-dedupe-input"
+            />
+            <Text style={styles.infoText} testID="scan-suppressed-count">
+              Duplicates suppressed: {suppressedScans}
+            </Text>
+          </>
+        ) : null}
+
+        <Text style={[styles.sectionTitle, styles.spacedTitle]}>
+          Barcode Formats
+        </Text>
+        <View style={styles.chipRow}>
+          {SYMBOLOGIES.filter(symbology => isSupported(symbology.id)).map(
+            symbology => (
+              <TouchableOpacity
+                key={symbology.id}
+                style={[
+                  styles.chip,
+                  symbologies.includes(symbology.id) && styles.activeChip,
+                ]}
+                onPress={() => handleToggleSymbology(symbology.id)}
+                testID={`symbology-${symbology.id}`}>
+                <Text
+                  style={[
+                    styles.chipText,
+                    symbologies.includes(symbology.id) && styles.activeChipText,
+                  ]}>
+                  {symbology.label}
+                </Text>
+              </TouchableOpacity>
+            ),
+          )}
+        </View>
+      </View>
+
+      {/* Expect Mode */}
+      <View style={styles.section}>
+        <View style={styles.switchContainer}>
+          <Text style={styles.sectionTitle}>Expect Mode</Text>
+          <Switch
+            value={expectMode}
+            onValueChange={value =>
+              handleSetExpectedPayload(value ? expectedPayload : null)
+            }
+            testID="qr-expect-switch"
+          />
+        </View>
+
+        <Text style={styles.label}>Expected payload</Text>
+        <TextInput
+          style={styles.textInput}
+          value={expectedPayload}
+          onChangeText={setExpectedPayload}
+          placeholder="Exact text the next scans must contain"
+          autoCapitalize="none"
+          testID="qr-expected-input"
+        />
+
+        {expectMode && lastAssertion ? (
+          <View style={styles.resultBox}>
+            <Text
+              style={[
+                styles.verdict,
+                lastAssertion.pass
+                  ? styles.permissionGranted
+                  : styles.permissionDenied,
+              ]}
+              testID="qr-assert-result">
+              {lastAssertion.pass ? 'PASS' : 'FAIL'}
+            </Text>
+            <Text style={styles.resultText} testID="qr-assert-reason">
+              {lastAssertion.reason}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      {/* Scan History */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle} testID="qr-history-count">
+          Scan History ({scanHistory.length})
+        </Text>
+
+        {scanHistory.map(scan => (
+          <View
+            key={scan.id}
+            style={styles.logItem}
+            testID={`qr-history-${scan.id}`}>
+            <Text style={styles.logMeta}>
+              #{scan.id} · {scan.scannedAt} · {scan.type}
+              {scan.assertion
+                ? ` · ${scan.assertion.pass ? 'PASS' : 'FAIL'}`
+                : ''}
+            </Text>
+            <Text style={styles.dataText}>{scan.data}</Text>
+            {scan.assertion && !scan.assertion.pass ? (
+              <Text style={styles.logMeta}>{scan.assertion.reason}</Text>
+            ) : null}
+          </View>
+        ))}
+
+        {scanHistory.length > 0 ? (
+          <TouchableOpacity
+            style={[styles.button, styles.stackedButton, styles.dangerButton]}
+            onPress={handleClearScanHistory}
+            testID="clear-qr-history-button">
+            <Text style={styles.buttonText}>Clear History</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {/* QR Generator */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>QR Code Generator</Text>
+
+        <Text style={styles.label}>Payload (defaults to the UI tab text)</Text>
+        <TextInput
+          style={[styles.textInput, styles.multilineInput]}
+          value={generatorText}
+          onChangeText={setGeneratorText}
+          placeholder={textInput || 'Text, URL, WIFI:..., otpauth://...'}
+          autoCapitalize="none"
+          multiline
+          testID="qr-generator-input"
+        />
+
+        <Text style={[styles.label, styles.spacedTitle]}>Error correction</Text>
+        <View style={styles.chipRow}>
+          {ERROR_CORRECTION_LEVELS.map(level => (
+            <TouchableOpacity
+              key={level}
+              style={[
+                styles.chip,
+                generatorLevel === level && styles.activeChip,
+              ]}
+              onPress={() => setGeneratorLevel(level)}
+              testID={`qr-ec-${level}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  generatorLevel === level && styles.activeChipText,
+                ]}>
+                {level} ({ERROR_CORRECTION_RECOVERY[level]})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleGenerateQr()}
+          testID="generate-qr-button">
+          <Text style={styles.buttonText}>Generate QR Code</Text>
+        </TouchableOpacity>
+
+        {generatedCode ? (
+          <>
+            <QrCodeView
+              code={generatedCode}
+              maxSize={GENERATED_QR_SIZE}
+              testID="qr-generated-code"
+            />
+            <TouchableOpacity
+              style={[styles.button, styles.stackedButton]}
+              onPress={handleSaveQrPng}
+              testID="save-qr-png-button">
+              <Text style={styles.buttonText}>Save PNG to Downloads</Text>
+            </TouchableOpacity>
+          </>
+        ) : null}
+
+        {generatorStatus ? (
+          <Text style={styles.infoText} testID="qr-generator-status">
+            {generatorStatus}
+          </Text>
+        ) : null}
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'camera',
+  label: 'QR',
+  testID: 'tab-camera',
+  Screen: CameraScreen,
+});
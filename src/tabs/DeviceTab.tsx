@@ -0,0 +1,261 @@
+/**
+ * NativeBridge Device Tab
+ *
+ * Device and environment details for bug reports: OS, build constants,
+ * display metrics, locale, app version and emulator detection, with a JSON
+ * snapshot export to Downloads. The snapshot is also written to the event
+ * log at launch, so exported logs carry the same context.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  Appearance,
+  Dimensions,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {
+  collectDeviceSnapshot,
+  DeviceSnapshot,
+  DisplayMetrics,
+  exportDeviceSnapshot,
+} from '../device/deviceInfo';
+import {logEvent} from '../logging/eventLog';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+interface DeviceField {
+  key: string;
+  label: string;
+  value: string;
+}
+
+const formatMetrics = ({width, height, scale, fontScale}: DisplayMetrics) => {
+  const size = `${Math.round(width)}×${Math.round(height)} dp`;
+  return `${size} @${scale}x (font ${fontScale}x)`;
+};
+
+const formatUtcOffset = (minutes: number) =>
+  `UTC${minutes < 0 ? '-' : '+'}${String(
+    Math.floor(Math.abs(minutes) / 60),
+  ).padStart(2, '0')}:${String(Math.abs(minutes) % 60).padStart(2, '0')}`;
+
+// Grouped rows; the key doubles as the testID suffix
+const deviceSections = (
+  snapshot: DeviceSnapshot,
+): {title: string; fields: DeviceField[]}[] => [
+  {
+    title: 'System',
+    fields: [
+      {key: 'os', label: 'OS', value: `${snapshot.os} ${snapshot.osVersion}`},
+      {
+        key: 'api-level',
+        label: 'API level',
+        value: String(snapshot.apiLevel ?? 'n/a'),
+      },
+      {key: 'model', label: 'Model', value: snapshot.model ?? 'n/a'},
+      {
+        key: 'manufacturer',
+        label: 'Manufacturer',
+        value: snapshot.manufacturer ?? 'n/a',
+      },
+      {key: 'brand', label: 'Brand', value: snapshot.brand ?? 'n/a'},
+      {
+        key: 'fingerprint',
+        label: 'Fingerprint',
+        value: snapshot.fingerprint ?? 'n/a',
+      },
+      {key: 'ui-mode', label: 'UI mode', value: snapshot.uiMode ?? 'n/a'},
+      {
+        key: 'emulator',
+        label: 'Emulator',
+        value:
+          snapshot.isEmulator === null
+            ? 'unknown'
+            : snapshot.isEmulator
+            ? `yes (${snapshot.emulatorHints.join('; ')})`
+            : 'no (real device)',
+      },
+    ],
+  },
+  {
+    title: 'Display',
+    fields: [
+      {key: 'window', label: 'Window', value: formatMetrics(snapshot.window)},
+      {key: 'screen', label: 'Screen', value: formatMetrics(snapshot.screen)},
+      {
+        key: 'pixel-ratio',
+        label: 'Pixel ratio',
+        value: String(snapshot.pixelRatio),
+      },
+      {
+        key: 'font-scale',
+        label: 'Font scale',
+        value: String(snapshot.fontScale),
+      },
+      {key: 'color-scheme', label: 'Color scheme', value: snapshot.colorScheme},
+    ],
+  },
+  {
+    title: 'Locale',
+    fields: [
+      {key: 'locale', label: 'Locale', value: snapshot.locale},
+      {key: 'rtl', label: 'RTL', value: snapshot.isRTL ? 'yes' : 'no'},
+      {
+        key: 'timezone',
+        label: 'Time zone',
+        value: `${snapshot.timeZone} (${formatUtcOffset(
+          snapshot.utcOffsetMinutes,
+        )})`,
+      },
+    ],
+  },
+  {
+    title: 'App',
+    fields: [
+      {
+        key: 'app-version',
+        label: 'Version',
+        value: `${snapshot.appName} ${snapshot.appVersion}`,
+      },
+      {key: 'build-type', label: 'Build', value: snapshot.buildType},
+      {key: 'js-engine', label: 'JS engine', value: snapshot.jsEngine},
+      {
+        key: 'rn-version',
+        label: 'React Native',
+        value: snapshot.reactNativeVersion,
+      },
+      {
+        key: 'is-testing',
+        label: 'Test harness',
+        value: snapshot.isTesting ? 'yes' : 'no',
+      },
+    ],
+  },
+];
+
+function DeviceScreen() {
+  // Device Tab state
+  const [snapshot, setSnapshot] = useState(collectDeviceSnapshot);
+  const [deviceStatus, setDeviceStatus] = useState('');
+
+  // ==================== DEVICE TAB HANDLERS ====================
+
+  const handleRefresh = () => {
+    const next = collectDeviceSnapshot();
+    setSnapshot(next);
+    return next;
+  };
+
+  const handleExportSnapshot = async () => {
+    try {
+      setDeviceStatus('Exporting...');
+
+      if (!isUsable(await ensurePermission('write-storage'))) {
+        Alert.alert(
+          'Permission Denied',
+          'Storage permission is required to export the snapshot',
+        );
+        return;
+      }
+
+      const current = handleRefresh();
+      const path = await exportDeviceSnapshot(current);
+      setDeviceStatus(`✓ Exported: ${path}`);
+      logEvent('DEVICE', `Device snapshot exported to ${path}`, {
+        payload: current,
+      });
+      Alert.alert('Snapshot Exported', `Saved to:\n${path}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setDeviceStatus(`✗ Error: ${errorMsg}`);
+      logEvent('DEVICE', `Snapshot export failed: ${errorMsg}`, {
+        level: 'error',
+      });
+      Alert.alert('Error', `Failed to export snapshot: ${errorMsg}`);
+    }
+  };
+
+  useEffect(() => {
+    logEvent('DEVICE', 'Device snapshot', {payload: collectDeviceSnapshot()});
+    // Rotation, split screen, font size and dark mode change the snapshot
+    const dimensionsSubscription = Dimensions.addEventListener('change', () =>
+      setSnapshot(collectDeviceSnapshot()),
+    );
+    const appearanceSubscription = Appearance.addChangeListener(() =>
+      setSnapshot(collectDeviceSnapshot()),
+    );
+    return () => {
+      dimensionsSubscription.remove();
+      appearanceSubscription.remove();
+    };
+  }, []);
+
+  useDeepLinkContribution('device', {
+    actions: {
+      'export-device': handleExportSnapshot,
+      'log-device': () =>
+        logEvent('DEVICE', 'Device snapshot', {payload: handleRefresh()}),
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {deviceSections(snapshot).map(section => (
+        <View key={section.title} style={styles.section}>
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+          {section.fields.map(field => (
+            <View key={field.key} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{field.label}</Text>
+              <Text style={styles.fieldValue} testID={`device-${field.key}`}>
+                {field.value}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ))}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Snapshot</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleRefresh}
+          testID="device-refresh-button">
+          <Text style={styles.buttonText}>Refresh</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleExportSnapshot}
+          testID="device-export-button">
+          <Text style={styles.buttonText}>Export JSON Snapshot</Text>
+        </TouchableOpacity>
+
+        {deviceStatus ? (
+          <Text style={styles.infoText} testID="device-status">
+            {deviceStatus}
+          </Text>
+        ) : null}
+
+        <View style={styles.dataDisplay}>
+          <Text style={styles.dataText} testID="device-snapshot-json">
+            {JSON.stringify(snapshot, null, 2)}
+          </Text>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'device',
+  label: 'Device',
+  testID: 'tab-device',
+  Screen: DeviceScreen,
+});
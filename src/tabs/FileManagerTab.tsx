@@ -0,0 +1,521 @@
+/**
+ * NativeBridge File Manager Tab
+ *
+ * Browses the app's documents and caches directories, Downloads and the
+ * external storage root, with stat details, rename, copy, move, new folder
+ * and delete, plus free and total space. Shows where pushed files actually
+ * land and what scoped storage lets the app see on each Android version.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {
+  baseName,
+  copyEntry,
+  deleteEntry,
+  EntryDetails,
+  FileEntry,
+  getStorageSpace,
+  listDirectory,
+  makeDirectory,
+  moveEntry,
+  parentPath,
+  renameEntry,
+  resolveStoragePath,
+  STORAGE_ROOT_LABELS,
+  STORAGE_ROOTS,
+  StorageRoot,
+  storageRootOf,
+  storageRootPath,
+  StorageSpace,
+  statEntry,
+} from '../files/fileManager';
+import {logEvent} from '../logging/eventLog';
+import {formatBytes} from '../network/resumableDownload';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+// An entry marked with Copy or Cut, waiting for Paste
+interface PendingTransfer {
+  mode: 'copy' | 'move';
+  path: string;
+}
+
+const formatDate = (date: Date | null) => (date ? date.toISOString() : 'n/a');
+
+// App-private directories need no storage permission
+const isAppPath = (path: string) =>
+  ['documents', 'caches'].includes(storageRootOf(path) ?? '');
+
+function FileManagerScreen() {
+  // File Manager Tab state
+  const [root, setRoot] = useState<StorageRoot>('documents');
+  const [currentPath, setCurrentPath] = useState(storageRootPath('documents')!);
+  const [entries, setEntries] = useState<FileEntry[]>([]);
+  const [selected, setSelected] = useState<EntryDetails | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [folderName, setFolderName] = useState('');
+  const [pending, setPending] = useState<PendingTransfer | null>(null);
+  const [space, setSpace] = useState<StorageSpace | null>(null);
+  const [fsStatus, setFsStatus] = useState('');
+
+  const rootPath = storageRootPath(root);
+
+  // ==================== FILE MANAGER TAB HANDLERS ====================
+
+  const openDirectory = async (path: string) => {
+    setRoot(previous => storageRootOf(path) ?? previous);
+    try {
+      setFsStatus(`Reading ${path}...`);
+      const listing = await listDirectory(path);
+      setCurrentPath(path);
+      setEntries(listing);
+      setSelected(null);
+      setFsStatus(`✓ ${listing.length} entries`);
+      logEvent('FS', `Listed ${path}: ${listing.length} entries`);
+      return listing;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      // Scoped storage denials land here, so the path stays visible
+      setCurrentPath(path);
+      setEntries([]);
+      setSelected(null);
+      setFsStatus(`✗ Cannot read ${path}: ${errorMsg}`);
+      logEvent('FS', `List ${path} error: ${errorMsg}`, {level: 'error'});
+      throw error;
+    }
+  };
+
+  const refreshSpace = async () => {
+    try {
+      const info = await getStorageSpace();
+      setSpace(info);
+      return info;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('FS', `Filesystem info error: ${errorMsg}`, {level: 'error'});
+      throw error;
+    }
+  };
+
+  const handleSelectRoot = (next: StorageRoot) => {
+    const path = storageRootPath(next);
+    if (!path) {
+      Alert.alert(
+        'Unavailable',
+        `${STORAGE_ROOT_LABELS[next]} is not available on this device`,
+      );
+      return;
+    }
+    openDirectory(path).catch(() => {});
+  };
+
+  const handleSelectEntry = async (entry: FileEntry) => {
+    try {
+      const details = await statEntry(entry.path);
+      setSelected(details);
+      setRenameText(details.name);
+      logEvent('FS', `Stat ${entry.path}`, {payload: details});
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setFsStatus(`✗ Cannot stat ${entry.name}: ${errorMsg}`);
+      logEvent('FS', `Stat ${entry.path} error: ${errorMsg}`, {level: 'error'});
+    }
+  };
+
+  // Runs a mutating operation, asking for storage permission outside the
+  // app's own directories, then re-lists the current directory
+  const runOperation = async <T,>(
+    description: string,
+    paths: string[],
+    operation: () => Promise<T>,
+  ) => {
+    try {
+      if (
+        !paths.every(isAppPath) &&
+        !isUsable(await ensurePermission('write-storage'))
+      ) {
+        throw new Error('Storage permission is required outside app storage');
+      }
+      const result = await operation();
+      const message = `✓ ${description}${
+        typeof result === 'string' ? ` → ${result}` : ''
+      }`;
+      setFsStatus(message);
+      logEvent('FS', message);
+      await openDirectory(currentPath).catch(() => {});
+      refreshSpace().catch(() => {});
+      return result;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setFsStatus(`✗ ${description}: ${errorMsg}`);
+      logEvent('FS', `${description} error: ${errorMsg}`, {level: 'error'});
+      throw error;
+    }
+  };
+
+  const handleMakeDirectory = async (
+    parent = currentPath,
+    name = folderName,
+  ) => {
+    const path = await runOperation(`New folder ${name}`, [parent], () =>
+      makeDirectory(parent, name),
+    );
+    setFolderName('');
+    return path;
+  };
+
+  const handleRename = (path: string, name: string) =>
+    runOperation(`Rename ${baseName(path)}`, [path], () =>
+      renameEntry(path, name),
+    );
+
+  const handleTransfer = (
+    mode: PendingTransfer['mode'],
+    source: string,
+    targetDirectory: string,
+  ) =>
+    runOperation(
+      `${mode === 'copy' ? 'Copy' : 'Move'} ${baseName(source)}`,
+      [source, targetDirectory],
+      () =>
+        mode === 'copy'
+          ? copyEntry(source, targetDirectory)
+          : moveEntry(source, targetDirectory),
+    );
+
+  const handlePaste = async () => {
+    if (!pending) {
+      return;
+    }
+    await handleTransfer(pending.mode, pending.path, currentPath).catch(
+      () => {},
+    );
+    setPending(null);
+  };
+
+  const handleDelete = (path: string) =>
+    runOperation(`Delete ${baseName(path)}`, [path], () => deleteEntry(path));
+
+  const confirmDelete = (entry: EntryDetails) =>
+    Alert.alert(
+      'Delete',
+      `Delete ${entry.isDirectory ? 'folder' : 'file'} ${entry.name}${
+        entry.isDirectory ? ' and everything in it' : ''
+      }?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => handleDelete(entry.path).catch(() => {}),
+        },
+      ],
+    );
+
+  useEffect(() => {
+    openDirectory(storageRootPath('documents')!).catch(() => {});
+    refreshSpace().catch(() => {});
+  }, []);
+
+  useDeepLinkContribution('file-manager', {
+    commands: {
+      // nativebridge://browse?path=downloads:/reports
+      browse: {
+        primaryArg: 'path',
+        requiredArgs: ['path'],
+        run: async ({path}) => {
+          const listing = await openDirectory(resolveStoragePath(path));
+          return `${listing.length} entries: ${listing
+            .map(entry => (entry.isDirectory ? `${entry.name}/` : entry.name))
+            .join(', ')}`;
+        },
+      },
+      // nativebridge://fs-stat?path=documents:/notes.txt
+      'fs-stat': {
+        primaryArg: 'path',
+        requiredArgs: ['path'],
+        run: async ({path}) => {
+          const details = await statEntry(resolveStoragePath(path));
+          setSelected(details);
+          return `${details.isDirectory ? 'dir' : 'file'} size=${
+            details.size
+          } mtime=${formatDate(details.mtime)}`;
+        },
+      },
+      // nativebridge://fs-mkdir?path=downloads:/fixtures
+      'fs-mkdir': {
+        primaryArg: 'path',
+        requiredArgs: ['path'],
+        run: ({path}) => {
+          const absolute = resolveStoragePath(path);
+          return handleMakeDirectory(parentPath(absolute), baseName(absolute));
+        },
+      },
+      // nativebridge://fs-rename?path=documents:/a.txt&name=b.txt
+      'fs-rename': {
+        requiredArgs: ['path', 'name'],
+        run: ({path, name}) => handleRename(resolveStoragePath(path), name),
+      },
+      // nativebridge://fs-copy?from=documents:/a.txt&to=downloads:
+      'fs-copy': {
+        requiredArgs: ['from', 'to'],
+        run: ({from, to}) =>
+          handleTransfer(
+            'copy',
+            resolveStoragePath(from),
+            resolveStoragePath(to),
+          ),
+      },
+      'fs-move': {
+        requiredArgs: ['from', 'to'],
+        run: ({from, to}) =>
+          handleTransfer(
+            'move',
+            resolveStoragePath(from),
+            resolveStoragePath(to),
+          ),
+      },
+      'fs-delete': {
+        primaryArg: 'path',
+        requiredArgs: ['path'],
+        run: async ({path}) => {
+          const absolute = resolveStoragePath(path);
+          await handleDelete(absolute);
+          return `deleted ${absolute}`;
+        },
+      },
+    },
+    actions: {
+      'fs-info': async () => {
+        const info = await refreshSpace();
+        logEvent(
+          'FS',
+          `Free ${formatBytes(info.freeBytes)} of ${formatBytes(
+            info.totalBytes,
+          )}`,
+          {payload: info},
+        );
+      },
+    },
+  });
+
+  const atRoot = currentPath === rootPath;
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Location Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>File Manager</Text>
+
+        <View style={styles.chipRow}>
+          {STORAGE_ROOTS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, root === option && styles.activeChip]}
+              onPress={() => handleSelectRoot(option)}
+              testID={`fs-root-${option}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  root === option && styles.activeChipText,
+                ]}>
+                {STORAGE_ROOT_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.dataText} testID="fs-current-path">
+          {currentPath}
+        </Text>
+
+        {space ? (
+          <Text style={styles.infoText} testID="fs-space">
+            Internal: {formatBytes(space.freeBytes)} free of{' '}
+            {formatBytes(space.totalBytes)}
+            {space.externalTotalBytes
+              ? ` · External: ${formatBytes(
+                  space.externalFreeBytes ?? 0,
+                )} free of ${formatBytes(space.externalTotalBytes)}`
+              : ''}
+          </Text>
+        ) : null}
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() => openDirectory(parentPath(currentPath)).catch(() => {})}
+          disabled={atRoot}
+          testID="fs-up-button">
+          <Text style={styles.buttonText}>Up</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() => {
+            openDirectory(currentPath).catch(() => {});
+            refreshSpace().catch(() => {});
+          }}
+          testID="fs-refresh-button">
+          <Text style={styles.buttonText}>Refresh</Text>
+        </TouchableOpacity>
+
+        {fsStatus ? (
+          <Text style={styles.infoText} testID="fs-status">
+            {fsStatus}
+          </Text>
+        ) : null}
+
+        <View style={styles.fileList}>
+          {entries.map((entry, index) => (
+            <TouchableOpacity
+              key={entry.path}
+              style={[
+                styles.fileItem,
+                selected?.path === entry.path && styles.selectedFileItem,
+              ]}
+              onPress={() => handleSelectEntry(entry)}
+              testID={`fs-entry-${index}`}>
+              <View style={styles.flexFill}>
+                <Text style={styles.fileName}>
+                  {entry.isDirectory ? `📁 ${entry.name}` : entry.name}
+                </Text>
+                <Text style={styles.fileInfo}>
+                  {entry.isDirectory ? 'Folder' : formatBytes(entry.size)} ·{' '}
+                  {formatDate(entry.mtime)}
+                </Text>
+              </View>
+              {entry.isDirectory ? (
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => openDirectory(entry.path).catch(() => {})}
+                  testID={`fs-open-${index}`}>
+                  <Text style={styles.buttonText}>Open</Text>
+                </TouchableOpacity>
+              ) : null}
+            </TouchableOpacity>
+          ))}
+          {entries.length === 0 ? (
+            <Text style={styles.infoText}>Empty or unreadable</Text>
+          ) : null}
+        </View>
+
+        <Text style={styles.label}>New folder</Text>
+        <TextInput
+          style={styles.textInput}
+          value={folderName}
+          onChangeText={setFolderName}
+          placeholder="Folder name"
+          autoCapitalize="none"
+          testID="fs-mkdir-input"
+        />
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleMakeDirectory().catch(() => {})}
+          disabled={!folderName.trim()}
+          testID="fs-mkdir-button">
+          <Text style={styles.buttonText}>Create Folder</Text>
+        </TouchableOpacity>
+
+        {pending ? (
+          <>
+            <TouchableOpacity
+              style={[styles.button, styles.stackedButton]}
+              onPress={handlePaste}
+              testID="fs-paste-button">
+              <Text style={styles.buttonText}>
+                {pending.mode === 'copy' ? 'Paste copy of' : 'Move'}{' '}
+                {baseName(pending.path)} here
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.stackedButton]}
+              onPress={() => setPending(null)}
+              testID="fs-paste-cancel-button">
+              <Text style={styles.buttonText}>Cancel Paste</Text>
+            </TouchableOpacity>
+          </>
+        ) : null}
+      </View>
+
+      {/* Selected Entry Section */}
+      {selected ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Details</Text>
+          <Text style={styles.fileName} testID="fs-detail-name">
+            {selected.name}
+          </Text>
+          <Text style={styles.dataText} testID="fs-detail-path">
+            {selected.path}
+          </Text>
+          <Text style={styles.resultText} testID="fs-detail-size">
+            {selected.isDirectory
+              ? `Folder, ${selected.childCount} entries`
+              : `${formatBytes(selected.size)} (${selected.size} bytes)`}
+          </Text>
+          <Text style={styles.resultText} testID="fs-detail-mtime">
+            Modified: {formatDate(selected.mtime)}
+          </Text>
+          <Text style={styles.resultText} testID="fs-detail-ctime">
+            Created: {formatDate(selected.ctime)}
+          </Text>
+
+          <Text style={styles.label}>Rename to</Text>
+          <TextInput
+            style={styles.textInput}
+            value={renameText}
+            onChangeText={setRenameText}
+            autoCapitalize="none"
+            testID="fs-rename-input"
+          />
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() =>
+              handleRename(selected.path, renameText).catch(() => {})
+            }
+            disabled={!renameText.trim() || renameText === selected.name}
+            testID="fs-rename-button">
+            <Text style={styles.buttonText}>Rename</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, styles.stackedButton]}
+            onPress={() => setPending({mode: 'copy', path: selected.path})}
+            testID="fs-copy-button">
+            <Text style={styles.buttonText}>Copy</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, styles.stackedButton]}
+            onPress={() => setPending({mode: 'move', path: selected.path})}
+            testID="fs-cut-button">
+            <Text style={styles.buttonText}>Cut (Move)</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, styles.stackedButton, styles.dangerButton]}
+            onPress={() => confirmDelete(selected)}
+            testID="fs-delete-button">
+            <Text style={styles.buttonText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'file-manager',
+  label: 'FS',
+  testID: 'tab-file-manager',
+  Screen: FileManagerScreen,
+});
@@ -0,0 +1,968 @@
+/**
+ * NativeBridge Files Tab
+ *
+ * Document picking with per-file preview and checksums, seeded test-data
+ * export (CSV, JSON, NDJSON) to Downloads with a round-trip check,
+ * management of the files the app has saved, and multipart upload of picked
+ * or saved files to a configurable endpoint.
+ */
+
+import React, {useRef, useState} from 'react';
+import {
+  Alert,
+  Image,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import DocumentPicker from 'react-native-document-picker';
+import RNFS from 'react-native-fs';
+import {DeepLinkError} from '../deeplink/commandRouter';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {
+  COLUMN_TYPES,
+  DATA_FORMATS,
+  DATA_MIME_TYPES,
+  DataConfig,
+  DataFormat,
+  DEFAULT_DATA_SCHEMA,
+  generateRows,
+  parseDataSchema,
+  RoundTripResult,
+  serializeData,
+  validateDataConfig,
+  verifyRoundTrip,
+} from '../files/dataGenerator';
+import {FileInspection, inspectFile, uriToPath} from '../files/fileInspector';
+import {logEvent} from '../logging/eventLog';
+import {
+  DEFAULT_UPLOAD_OPTIONS,
+  UploadFileResult,
+  uploadFiles,
+  UploadSource,
+} from '../network/multipartUpload';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+interface PickedFile {
+  id: number;
+  name: string;
+  size: number;
+  type: string | null;
+  uri: string;
+  // Copy in the caches directory, read for checksums and previews
+  localUri: string | null;
+  inspection?: FileInspection;
+  error?: string;
+}
+
+// A picked or saved file offered for upload
+interface UploadCandidate {
+  key: string;
+  name: string;
+  path: string;
+  type: string | null;
+}
+
+interface UploadRow {
+  name: string;
+  sentBytes: number;
+  totalBytes: number;
+  result?: UploadFileResult;
+}
+
+// A file written by the data generator
+interface DataExport {
+  filename: string;
+  path: string;
+  format: DataFormat;
+  config: DataConfig;
+}
+
+const dataFormatOf = (filename: string) =>
+  DATA_FORMATS.find(format => filename.endsWith(`.${format}`)) ?? null;
+
+const formatSize = (bytes: number) => `${(bytes / 1024).toFixed(2)} KB`;
+
+const formatUploadRow = (row: UploadRow) => {
+  if (row.result) {
+    return row.result.error
+      ? `✗ ${row.result.error}`
+      : `${row.result.status! < 400 ? '✓' : '✗'} HTTP ${row.result.status} in ${
+          row.result.durationMs
+        }ms`;
+  }
+  return row.totalBytes > 0
+    ? `${Math.round((row.sentBytes / row.totalBytes) * 100)}% (${formatSize(
+        row.sentBytes,
+      )} of ${formatSize(row.totalBytes)})`
+    : 'Waiting...';
+};
+
+function FilesScreen() {
+  // Files Tab state
+  const [uploadedFiles, setUploadedFiles] = useState<PickedFile[]>([]);
+  const [selectedFileId, setSelectedFileId] = useState<number | null>(null);
+  const nextFileIdRef = useRef(1);
+  const [savedFiles, setSavedFiles] = useState<string[]>([]);
+  const [fileOperationStatus, setFileOperationStatus] = useState('');
+
+  // Data generator state
+  const [dataRows, setDataRows] = useState('100');
+  const [dataSeed, setDataSeed] = useState('42');
+  const [dataSchema, setDataSchema] = useState(DEFAULT_DATA_SCHEMA);
+  const [dataFormat, setDataFormat] = useState<DataFormat>('csv');
+  const [lastExport, setLastExport] = useState<DataExport | null>(null);
+  const [roundTrip, setRoundTrip] = useState<RoundTripResult | null>(null);
+
+  // Upload state
+  const [uploadUrl, setUploadUrl] = useState(DEFAULT_UPLOAD_OPTIONS.url);
+  const [uploadField, setUploadField] = useState(
+    DEFAULT_UPLOAD_OPTIONS.fieldName,
+  );
+  const [uploadSelection, setUploadSelection] = useState<string[]>([]);
+  const [uploadRows, setUploadRows] = useState<UploadRow[]>([]);
+  const [uploadSummary, setUploadSummary] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const cancelUploadRef = useRef<(() => void) | null>(null);
+
+  const selectedFile = uploadedFiles.find(file => file.id === selectedFileId);
+
+  // Picked files are uploaded from their cached copy
+  const uploadCandidates: UploadCandidate[] = [
+    ...uploadedFiles
+      .filter(file => file.localUri)
+      .map(file => ({
+        key: `picked:${file.id}`,
+        name: file.name,
+        path: uriToPath(file.localUri!),
+        type: file.type,
+      })),
+    ...savedFiles.map(filename => ({
+      key: `saved:${filename}`,
+      name: filename,
+      path: `${RNFS.DownloadDirectoryPath}/${filename}`,
+      type: dataFormatOf(filename)
+        ? DATA_MIME_TYPES[dataFormatOf(filename)!]
+        : null,
+    })),
+  ];
+
+  // ==================== FILES TAB HANDLERS ====================
+
+  const handleFilePicker = async () => {
+    try {
+      logEvent('FILES', 'Opening file picker');
+      setFileOperationStatus('Opening file picker...');
+
+      const result = await DocumentPicker.pick({
+        type: [DocumentPicker.types.allFiles],
+        allowMultiSelection: true,
+        copyTo: 'cachesDirectory',
+      });
+
+      if (result && result.length > 0) {
+        const picked: PickedFile[] = result.map((file, index) => ({
+          id: nextFileIdRef.current + index,
+          name: file.name ?? 'unnamed',
+          size: file.size ?? 0,
+          type: file.type,
+          uri: file.uri,
+          localUri: file.fileCopyUri,
+          error: file.copyError,
+        }));
+        nextFileIdRef.current += picked.length;
+        setUploadedFiles(previous => [...previous, ...picked]);
+        setSelectedFileId(picked[0].id);
+        setFileOperationStatus(
+          `✓ ${picked.length} file(s) uploaded, computing checksums...`,
+        );
+        picked.forEach(file =>
+          logEvent(
+            'FILES',
+            `File picked: ${file.name}, Size: ${file.size} bytes, Type: ${file.type}`,
+          ),
+        );
+
+        // One file at a time, so large picks do not hash in parallel
+        for (const file of picked) {
+          await inspectPickedFile(file);
+        }
+        setFileOperationStatus(`✓ ${picked.length} file(s) inspected`);
+        Alert.alert(
+          'Files Uploaded',
+          picked
+            .map(file => `${file.name}\nSize: ${formatSize(file.size)}`)
+            .join('\n\n'),
+        );
+      }
+    } catch (error) {
+      if (DocumentPicker.isCancel(error)) {
+        logEvent('FILES', 'File picker cancelled');
+        setFileOperationStatus('File picker cancelled');
+      } else {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        logEvent('FILES', `File picker error: ${errorMsg}`);
+        setFileOperationStatus(`✗ Error: ${errorMsg}`);
+        Alert.alert('Error', `Failed to pick file: ${errorMsg}`);
+      }
+    }
+  };
+
+  const updatePickedFile = (id: number, changes: Partial<PickedFile>) =>
+    setUploadedFiles(previous =>
+      previous.map(file => (file.id === id ? {...file, ...changes} : file)),
+    );
+
+  const inspectPickedFile = async (file: PickedFile) => {
+    try {
+      if (!file.localUri) {
+        throw new Error(file.error ?? 'File could not be copied for reading');
+      }
+      const inspection = await inspectFile(
+        uriToPath(file.localUri),
+        file.name,
+        file.type,
+        file.size,
+      );
+      updatePickedFile(file.id, {inspection});
+      logEvent(
+        'FILES',
+        `Checksums ${file.name}: sha256=${inspection.sha256} md5=${inspection.md5}`,
+        {
+          payload: {
+            name: file.name,
+            size: file.size,
+            type: file.type,
+            sha256: inspection.sha256,
+            md5: inspection.md5,
+          },
+        },
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      updatePickedFile(file.id, {error: errorMsg});
+      logEvent('FILES', `Inspect ${file.name} error: ${errorMsg}`, {
+        level: 'error',
+      });
+    }
+  };
+
+  // Overrides come from deep links, which set the inputs in the same tick
+  const handleSaveData = async (
+    overrides: {
+      rows?: string;
+      seed?: string;
+      schema?: string;
+      format?: DataFormat;
+    } = {},
+  ) => {
+    const format = overrides.format ?? dataFormat;
+    try {
+      const config = validateDataConfig({
+        rows: Number(overrides.rows ?? dataRows),
+        seed: Number(overrides.seed ?? dataSeed),
+        columns: parseDataSchema(overrides.schema ?? dataSchema),
+      });
+      logEvent(
+        'FILES',
+        `Generating ${config.rows} ${format.toUpperCase()} rows (seed ${
+          config.seed
+        })`,
+      );
+      setFileOperationStatus(`Generating ${format.toUpperCase()}...`);
+
+      // Request storage permissions (only needed up to Android 12L)
+      if (!isUsable(await ensurePermission('write-storage'))) {
+        Alert.alert(
+          'Permission Denied',
+          'Storage permission is required to save files',
+        );
+        return;
+      }
+
+      const data = serializeData(format, config.columns, generateRows(config));
+
+      // Seed and row count in the name make the file reproducible
+      const filename = `nativebridge_data_${config.seed}_${
+        config.rows
+      }_${Date.now()}.${format}`;
+      const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+
+      await RNFS.writeFile(path, data, 'utf8');
+
+      setSavedFiles(files => [...files, filename]);
+      setLastExport({filename, path, format, config});
+      setRoundTrip(null);
+      setFileOperationStatus(`✓ ${format.toUpperCase()} saved: ${filename}`);
+      logEvent('FILES', `Data file saved: ${path}`, {
+        payload: {
+          path,
+          format,
+          rows: config.rows,
+          seed: config.seed,
+          columns: config.columns,
+          length: data.length,
+        },
+      });
+      Alert.alert('File Saved', `${config.rows} rows saved to:\n${path}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('FILES', `Save data error: ${errorMsg}`, {level: 'error'});
+      setFileOperationStatus(`✗ Error: ${errorMsg}`);
+      Alert.alert(
+        'Error',
+        `Failed to save ${format.toUpperCase()}: ${errorMsg}`,
+      );
+    }
+  };
+
+  // Re-reads the last export and compares it with a fresh generation
+  const handleVerifyRoundTrip = async () => {
+    if (!lastExport) {
+      Alert.alert('Round Trip', 'Generate and save a data file first');
+      return;
+    }
+    try {
+      setFileOperationStatus(`Verifying ${lastExport.filename}...`);
+      const text = await RNFS.readFile(lastExport.path, 'utf8');
+      const result = verifyRoundTrip(
+        lastExport.format,
+        text,
+        lastExport.config,
+      );
+      setRoundTrip(result);
+      setFileOperationStatus(
+        `${result.ok ? '✓' : '✗'} Round trip ${lastExport.filename}`,
+      );
+      logEvent(
+        'FILES',
+        `Round trip ${lastExport.filename}: ${
+          result.ok
+            ? 'PASS'
+            : `FAIL (${result.error ?? `${result.mismatchCount} mismatches`})`
+        }`,
+        {level: result.ok ? 'info' : 'error', payload: result},
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('FILES', `Round trip error: ${errorMsg}`, {level: 'error'});
+      setFileOperationStatus(`✗ Error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to verify file: ${errorMsg}`);
+    }
+  };
+
+  const handleListSavedFiles = async () => {
+    try {
+      logEvent('FILES', 'Listing saved files in Downloads');
+      setFileOperationStatus('Reading files...');
+
+      const downloadPath = RNFS.DownloadDirectoryPath;
+      const files = await RNFS.readDir(downloadPath);
+
+      // Filter for data files created by this app
+      const dataFiles = files
+        .filter(
+          file =>
+            file.name.startsWith('nativebridge_') &&
+            dataFormatOf(file.name) !== null,
+        )
+        .map(file => file.name);
+
+      setSavedFiles(dataFiles);
+      setFileOperationStatus(`✓ Found ${dataFiles.length} saved file(s)`);
+      logEvent('FILES', `Found ${dataFiles.length} saved data files`);
+
+      if (dataFiles.length === 0) {
+        Alert.alert(
+          'No Files',
+          'No saved data files found in Downloads folder',
+        );
+      } else {
+        Alert.alert(
+          'Saved Files',
+          `Found ${dataFiles.length} file(s):\n${dataFiles
+            .slice(0, 5)
+            .join('\n')}`,
+        );
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('FILES', `List files error: ${errorMsg}`);
+      setFileOperationStatus(`✗ Error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to list files: ${errorMsg}`);
+    }
+  };
+
+  const handleClearUploadedFiles = () => {
+    // Drop the cached copies along with the list
+    uploadedFiles.forEach(file => {
+      if (file.localUri) {
+        RNFS.unlink(uriToPath(file.localUri)).catch(() => {});
+      }
+    });
+    setUploadedFiles([]);
+    setSelectedFileId(null);
+    setUploadSelection(previous =>
+      previous.filter(key => !key.startsWith('picked:')),
+    );
+    setFileOperationStatus('Uploaded files list cleared');
+    logEvent('FILES', 'Cleared uploaded files list');
+    Alert.alert('Cleared', 'Uploaded files list cleared');
+  };
+
+  const handleDeleteSavedFile = async (filename: string) => {
+    try {
+      const path = `${RNFS.DownloadDirectoryPath}/${filename}`;
+      await RNFS.unlink(path);
+      setSavedFiles(savedFiles.filter(f => f !== filename));
+      setUploadSelection(previous =>
+        previous.filter(key => key !== `saved:${filename}`),
+      );
+      setFileOperationStatus(`✓ Deleted: ${filename}`);
+      logEvent('FILES', `Deleted file: ${filename}`);
+      Alert.alert('Deleted', `File deleted: ${filename}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('FILES', `Delete file error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to delete file: ${errorMsg}`);
+    }
+  };
+
+  const handleToggleUploadSelection = (key: string) =>
+    setUploadSelection(previous =>
+      previous.includes(key)
+        ? previous.filter(selected => selected !== key)
+        : [...previous, key],
+    );
+
+  const updateUploadRow = (index: number, changes: Partial<UploadRow>) =>
+    setUploadRows(previous =>
+      previous.map((row, i) => (i === index ? {...row, ...changes} : row)),
+    );
+
+  // Uploads the selected candidates, or all of them when none are selected
+  const handleStartUpload = async (
+    url = uploadUrl,
+    fieldName = uploadField,
+  ) => {
+    if (isUploading) {
+      Alert.alert('Upload', 'An upload is already running');
+      return;
+    }
+    const candidates = uploadCandidates.filter(
+      candidate =>
+        uploadSelection.length === 0 || uploadSelection.includes(candidate.key),
+    );
+    if (candidates.length === 0) {
+      Alert.alert('Upload', 'Pick or save a file first');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      setUploadSummary('');
+      const sources: UploadSource[] = await Promise.all(
+        candidates.map(async candidate => ({
+          name: candidate.name,
+          path: candidate.path,
+          type: candidate.type,
+          size: Number((await RNFS.stat(candidate.path)).size),
+        })),
+      );
+      setUploadRows(
+        sources.map(source => ({
+          name: source.name,
+          sentBytes: 0,
+          totalBytes: source.size,
+        })),
+      );
+      logEvent(
+        'UPLOAD',
+        `Uploading ${sources.length} file(s) to ${url} as "${fieldName}"`,
+      );
+
+      const startTime = Date.now();
+      const job = uploadFiles(
+        sources,
+        {...DEFAULT_UPLOAD_OPTIONS, url, fieldName},
+        {
+          onProgress: (index, sentBytes, totalBytes) =>
+            updateUploadRow(index, {sentBytes, totalBytes}),
+          onFileDone: (index, result) => {
+            updateUploadRow(index, {result});
+            logEvent(
+              'UPLOAD',
+              result.error
+                ? `✗ ${result.name}: ${result.error}`
+                : `✓ ${result.name}: HTTP ${result.status} in ${result.durationMs}ms`,
+              {
+                level: result.error || result.status! >= 400 ? 'error' : 'info',
+                payload: result,
+              },
+            );
+          },
+        },
+      );
+      cancelUploadRef.current = job.cancel;
+
+      const results = await job.promise;
+      const succeeded = results.filter(
+        result => !result.error && result.status! < 400,
+      ).length;
+      const totalBytes = sources.reduce((sum, source) => sum + source.size, 0);
+      const summary = `${succeeded}/${results.length} uploaded, ${formatSize(
+        totalBytes,
+      )} in ${Date.now() - startTime}ms`;
+      setUploadSummary(summary);
+      logEvent('UPLOAD', `Upload finished: ${summary}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setUploadSummary(`✗ Error: ${errorMsg}`);
+      logEvent('UPLOAD', `Upload error: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to upload: ${errorMsg}`);
+    } finally {
+      cancelUploadRef.current = null;
+      setIsUploading(false);
+    }
+  };
+
+  const handleCancelUpload = () => {
+    if (cancelUploadRef.current) {
+      cancelUploadRef.current();
+      logEvent('UPLOAD', 'Upload cancelled');
+    }
+  };
+
+  useDeepLinkContribution('files', {
+    commands: {
+      // nativebridge://generate-data?rows=5000&seed=7&format=ndjson&columns=id:int,note:commas-quotes
+      'generate-data': {
+        primaryArg: 'format',
+        run: async ({rows, seed, format, columns}) => {
+          if (
+            format !== undefined &&
+            !DATA_FORMATS.includes(format as DataFormat)
+          ) {
+            throw new DeepLinkError(
+              `Unknown format "${format}". Available: ${DATA_FORMATS.join(
+                ', ',
+              )}`,
+            );
+          }
+          if (rows !== undefined) {
+            setDataRows(rows);
+          }
+          if (seed !== undefined) {
+            setDataSeed(seed);
+          }
+          if (columns !== undefined) {
+            setDataSchema(columns);
+          }
+          if (format !== undefined) {
+            setDataFormat(format as DataFormat);
+          }
+          await handleSaveData({
+            rows,
+            seed,
+            schema: columns,
+            format: format as DataFormat | undefined,
+          });
+          return `generated ${rows ?? dataRows} rows as ${
+            format ?? dataFormat
+          }`;
+        },
+      },
+      // nativebridge://upload?url=http://10.0.2.2:8080/upload&field=file
+      upload: {
+        primaryArg: 'url',
+        run: ({url, field}) => {
+          if (url !== undefined && !/^https?:\/\//i.test(url)) {
+            throw new DeepLinkError(`Upload URL must be http(s): ${url}`);
+          }
+          if (url !== undefined) {
+            setUploadUrl(url);
+          }
+          if (field !== undefined) {
+            setUploadField(field);
+          }
+          handleStartUpload(url ?? uploadUrl, field ?? uploadField);
+          return `uploading to ${url ?? uploadUrl}`;
+        },
+      },
+    },
+    actions: {
+      'start-upload': () => handleStartUpload(),
+      'cancel-upload': handleCancelUpload,
+      'pick-file': handleFilePicker,
+      'save-csv': () => handleSaveData({format: 'csv'}),
+      'verify-data': handleVerifyRoundTrip,
+      'list-files': handleListSavedFiles,
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* File Upload Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>File Upload</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleFilePicker}
+          testID="upload-file-button">
+          <Text style={styles.buttonText}>Upload File from Device</Text>
+        </TouchableOpacity>
+
+        <Text
+          style={[styles.sectionTitle, {marginTop: 20, fontSize: 14}]}
+          testID="file-upload-status">
+          Uploaded Files: {uploadedFiles.length}
+        </Text>
+
+        {uploadedFiles.length > 0 ? (
+          <ScrollView style={styles.fileList}>
+            {uploadedFiles.map((file, index) => (
+              <TouchableOpacity
+                key={file.id}
+                style={[
+                  styles.fileItem,
+                  file.id === selectedFileId && styles.selectedFileItem,
+                ]}
+                onPress={() => setSelectedFileId(file.id)}
+                testID={`uploaded-file-${index}`}>
+                <View style={styles.flexFill}>
+                  <Text style={styles.fileName}>{file.name}</Text>
+                  <Text style={styles.fileInfo}>
+                    Size: {formatSize(file.size)} | Type:{' '}
+                    {file.type || 'unknown'}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        ) : null}
+
+        {uploadedFiles.length > 0 ? (
+          <TouchableOpacity
+            style={[styles.button, {marginTop: 10, backgroundColor: '#FF3B30'}]}
+            onPress={handleClearUploadedFiles}
+            testID="clear-uploaded-button">
+            <Text style={styles.buttonText}>Clear Uploaded Files</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {/* File Details */}
+      {selectedFile ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>File Details</Text>
+
+          <Text style={styles.fileName} testID="file-detail-name">
+            {selectedFile.name}
+          </Text>
+          <Text style={styles.fileInfo} testID="file-detail-info">
+            {selectedFile.size} bytes | {selectedFile.type || 'unknown'}
+          </Text>
+
+          {selectedFile.inspection ? (
+            <>
+              <Text style={[styles.label, styles.spacedTitle]}>SHA-256</Text>
+              <Text style={styles.dataText} selectable testID="file-sha256">
+                {selectedFile.inspection.sha256}
+              </Text>
+              <Text style={styles.label}>MD5</Text>
+              <Text style={styles.dataText} selectable testID="file-md5">
+                {selectedFile.inspection.md5}
+              </Text>
+
+              <Text style={[styles.label, styles.spacedTitle]}>
+                Preview ({selectedFile.inspection.previewKind}
+                {selectedFile.inspection.truncated ? ', first bytes only' : ''})
+              </Text>
+              {selectedFile.inspection.previewKind === 'image' ? (
+                <Image
+                  source={{uri: selectedFile.localUri ?? selectedFile.uri}}
+                  style={styles.filePreviewImage}
+                  resizeMode="contain"
+                  testID="file-preview-image"
+                />
+              ) : (
+                <ScrollView style={styles.dataDisplay} nestedScrollEnabled>
+                  <ScrollView horizontal>
+                    <Text
+                      style={styles.dataText}
+                      testID={`file-preview-${selectedFile.inspection.previewKind}`}>
+                      {selectedFile.inspection.preview || '(empty file)'}
+                    </Text>
+                  </ScrollView>
+                </ScrollView>
+              )}
+            </>
+          ) : (
+            <Text style={styles.infoText} testID="file-detail-status">
+              {selectedFile.error
+                ? `✗ Error: ${selectedFile.error}`
+                : 'Computing checksums...'}
+            </Text>
+          )}
+        </View>
+      ) : null}
+
+      {/* Data Generator Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Save Files to Device</Text>
+
+        <Text style={styles.label}>Rows</Text>
+        <TextInput
+          style={styles.textInput}
+          value={dataRows}
+          onChangeText={setDataRows}
+          keyboardType="number-pad"
+          testID="data-rows-input"
+        />
+
+        <Text style={styles.label}>Seed</Text>
+        <TextInput
+          style={styles.textInput}
+          value={dataSeed}
+          onChangeText={setDataSeed}
+          keyboardType="number-pad"
+          testID="data-seed-input"
+        />
+
+        <Text style={styles.label}>Columns (name:type, comma separated)</Text>
+        <TextInput
+          style={[styles.textInput, styles.multilineInput]}
+          value={dataSchema}
+          onChangeText={setDataSchema}
+          autoCapitalize="none"
+          multiline
+          testID="data-columns-input"
+        />
+        <Text style={styles.fileInfo}>Types: {COLUMN_TYPES.join(', ')}</Text>
+
+        <View style={styles.chipRow}>
+          {DATA_FORMATS.map(format => (
+            <TouchableOpacity
+              key={format}
+              style={[styles.chip, dataFormat === format && styles.activeChip]}
+              onPress={() => setDataFormat(format)}
+              testID={`data-format-${format}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  dataFormat === format && styles.activeChipText,
+                ]}>
+                {format.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleSaveData()}
+          testID="save-csv-button">
+          <Text style={styles.buttonText}>
+            Generate & Save {dataFormat.toUpperCase()} File
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleVerifyRoundTrip}
+          disabled={!lastExport}
+          testID="verify-data-button">
+          <Text style={styles.buttonText}>Verify Round Trip</Text>
+        </TouchableOpacity>
+
+        {roundTrip && lastExport ? (
+          <View style={styles.resultBox}>
+            <Text
+              style={[
+                styles.verdict,
+                roundTrip.ok
+                  ? styles.permissionGranted
+                  : styles.permissionDenied,
+              ]}
+              testID="data-roundtrip-result">
+              {roundTrip.ok ? 'PASS' : 'FAIL'}
+            </Text>
+            <Text style={styles.resultText} testID="data-roundtrip-summary">
+              {lastExport.filename}: {roundTrip.actualRows} of{' '}
+              {roundTrip.expectedRows} rows read,{' '}
+              {roundTrip.error ?? `${roundTrip.mismatchCount} mismatched cells`}
+            </Text>
+            {roundTrip.mismatches.map((mismatch, index) => (
+              <Text
+                key={index}
+                style={styles.dataText}
+                testID={`data-mismatch-${index}`}>
+                row {mismatch.row} {mismatch.column}: expected{' '}
+                {JSON.stringify(mismatch.expected)}, got{' '}
+                {JSON.stringify(mismatch.actual)}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handleListSavedFiles}
+          testID="list-files-button">
+          <Text style={styles.buttonText}>List Saved Files</Text>
+        </TouchableOpacity>
+
+        <Text
+          style={[styles.sectionTitle, {marginTop: 20, fontSize: 14}]}
+          testID="saved-files-count">
+          Saved Files: {savedFiles.length}
+        </Text>
+
+        {savedFiles.length > 0 ? (
+          <ScrollView style={styles.fileList}>
+            {savedFiles.map((filename, index) => (
+              <View
+                key={index}
+                style={styles.fileItem}
+                testID={`saved-file-${index}`}>
+                <View style={{flex: 1}}>
+                  <Text style={styles.fileName}>{filename}</Text>
+                  <Text style={styles.fileInfo}>
+                    Location: Downloads folder
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => handleDeleteSavedFile(filename)}
+                  testID={`delete-file-${index}`}>
+                  <Text style={styles.deleteButtonText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        ) : null}
+      </View>
+
+      {/* Upload Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Upload to Server</Text>
+
+        <Text style={styles.label}>URL</Text>
+        <TextInput
+          style={styles.textInput}
+          value={uploadUrl}
+          onChangeText={setUploadUrl}
+          autoCapitalize="none"
+          keyboardType="url"
+          testID="upload-url-input"
+        />
+
+        <Text style={styles.label}>Form field name</Text>
+        <TextInput
+          style={styles.textInput}
+          value={uploadField}
+          onChangeText={setUploadField}
+          autoCapitalize="none"
+          testID="upload-field-input"
+        />
+
+        <Text style={styles.label}>
+          Files (none selected uploads all {uploadCandidates.length})
+        </Text>
+        <View style={styles.chipRow}>
+          {uploadCandidates.map((candidate, index) => (
+            <TouchableOpacity
+              key={candidate.key}
+              style={[
+                styles.chip,
+                uploadSelection.includes(candidate.key) && styles.activeChip,
+              ]}
+              onPress={() => handleToggleUploadSelection(candidate.key)}
+              testID={`upload-select-${index}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  uploadSelection.includes(candidate.key) &&
+                    styles.activeChipText,
+                ]}>
+                {candidate.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isUploading ? (
+          <TouchableOpacity
+            style={[styles.button, styles.dangerButton]}
+            onPress={handleCancelUpload}
+            testID="cancel-upload-button">
+            <Text style={styles.buttonText}>Cancel Upload</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => handleStartUpload()}
+            testID="start-upload-button">
+            <Text style={styles.buttonText}>Upload Files</Text>
+          </TouchableOpacity>
+        )}
+
+        {uploadRows.map((row, index) => (
+          <View key={index} style={styles.fileItem}>
+            <View style={styles.flexFill}>
+              <Text style={styles.fileName}>{row.name}</Text>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      width: `${
+                        row.result && !row.result.error
+                          ? 100
+                          : row.totalBytes > 0
+                          ? Math.round((row.sentBytes / row.totalBytes) * 100)
+                          : 0
+                      }%`,
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.fileInfo} testID={`upload-status-${index}`}>
+                {formatUploadRow(row)}
+              </Text>
+            </View>
+          </View>
+        ))}
+
+        {uploadSummary ? (
+          <Text style={styles.infoText} testID="upload-summary">
+            {uploadSummary}
+          </Text>
+        ) : null}
+      </View>
+
+      {/* Status Display */}
+      {fileOperationStatus ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Status</Text>
+          <Text style={styles.infoText} testID="file-operation-status">
+            {fileOperationStatus}
+          </Text>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'files',
+  label: 'Files',
+  testID: 'tab-files',
+  Screen: FilesScreen,
+});
@@ -0,0 +1,757 @@
+/**
+ * NativeBridge Location Tab
+ *
+ * On-device target for GPS mocking: shows each position fix exactly as the
+ * app received it (coordinates, accuracy, speed, heading, mock flag),
+ * watches continuously with the distance travelled, records a route for GPX
+ * export to Downloads, and checks the latest fix against an expected
+ * coordinate with a PASS/FAIL verdict.
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {DeepLinkError} from '../deeplink/commandRouter';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {
+  checkExpectedCoordinate,
+  compassPoint,
+  Coordinate,
+  DEFAULT_TOLERANCE_M,
+  DEFAULT_WATCH_OPTIONS,
+  exportRouteGpx,
+  getCurrentFix,
+  haversineDistance,
+  LOCATION_PROVIDERS,
+  LocationFix,
+  LocationProvider,
+  parseCoordinate,
+  pathDistance,
+  setLocationProvider,
+  watchFixes,
+} from '../location/locationTracker';
+import {logEvent} from '../logging/eventLog';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+// Number of (newest) fixes shown in the position list
+const FIX_LIST_LIMIT = 50;
+
+// Longest route kept for export, about 2.7 hours at one fix per second
+const MAX_ROUTE_POINTS = 10000;
+
+const PERMISSION_DENIED = 1;
+
+const PROVIDER_LABELS: Record<LocationProvider, string> = {
+  auto: 'Auto',
+  playServices: 'Fused (Play Services)',
+  android: 'Android LocationManager',
+};
+
+interface Expectation {
+  coordinate: Coordinate;
+  toleranceM: number;
+}
+
+interface WatchSession {
+  startedAt: number;
+  fixCount: number;
+  distanceM: number;
+}
+
+const formatDistance = (metres: number) =>
+  metres < 1000 ? `${metres.toFixed(1)} m` : `${(metres / 1000).toFixed(3)} km`;
+
+const formatSpeed = (speed: number | null) =>
+  speed === null ? 'n/a' : `${speed} m/s (${(speed * 3.6).toFixed(1)} km/h)`;
+
+const formatHeading = (heading: number | null) =>
+  heading === null ? 'n/a' : `${heading}° ${compassPoint(heading)}`;
+
+// Readout rows; the key doubles as the testID suffix
+const fixFields = (fix: LocationFix) => [
+  {key: 'latitude', label: 'Latitude', value: String(fix.latitude)},
+  {key: 'longitude', label: 'Longitude', value: String(fix.longitude)},
+  {key: 'accuracy', label: 'Accuracy', value: `±${fix.accuracy} m`},
+  {
+    key: 'altitude',
+    label: 'Altitude',
+    value:
+      fix.altitude === null
+        ? 'n/a'
+        : `${fix.altitude} m${
+            fix.altitudeAccuracy !== null ? ` (±${fix.altitudeAccuracy} m)` : ''
+          }`,
+  },
+  {key: 'speed', label: 'Speed', value: formatSpeed(fix.speed)},
+  {key: 'heading', label: 'Heading', value: formatHeading(fix.heading)},
+  {
+    key: 'timestamp',
+    label: 'Fix time',
+    value: new Date(fix.timestamp).toISOString(),
+  },
+  {
+    key: 'age',
+    label: 'Age on arrival',
+    value: `${fix.receivedAt - fix.timestamp} ms`,
+  },
+  {
+    key: 'mocked',
+    label: 'Mock provider',
+    value: fix.mocked === null ? 'unknown' : fix.mocked ? 'yes' : 'no',
+  },
+];
+
+function LocationScreen() {
+  // Location Tab state
+  const [provider, setProvider] = useState<LocationProvider>('auto');
+  const [highAccuracy, setHighAccuracy] = useState(
+    DEFAULT_WATCH_OPTIONS.enableHighAccuracy,
+  );
+  const [latestFix, setLatestFix] = useState<LocationFix | null>(null);
+  const [locationStatus, setLocationStatus] = useState('');
+
+  // Watch state
+  const [watchInterval, setWatchInterval] = useState(
+    String(DEFAULT_WATCH_OPTIONS.intervalMs),
+  );
+  const [distanceFilter, setDistanceFilter] = useState(
+    String(DEFAULT_WATCH_OPTIONS.distanceFilterM),
+  );
+  const [fixes, setFixes] = useState<LocationFix[]>([]);
+  const [watchSession, setWatchSession] = useState<WatchSession | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+  const stopWatchRef = useRef<(() => void) | null>(null);
+  // Source of watchSession, current inside the watch callback
+  const watchSessionRef = useRef<WatchSession | null>(null);
+  const previousFixRef = useRef<LocationFix | null>(null);
+
+  // Route recording state
+  const [isRecording, setIsRecording] = useState(false);
+  const [route, setRoute] = useState<LocationFix[]>([]);
+  const recordingRef = useRef(false);
+
+  // Expected coordinate check
+  const [expectedText, setExpectedText] = useState('');
+  const [toleranceText, setToleranceText] = useState(
+    String(DEFAULT_TOLERANCE_M),
+  );
+  const [expectation, setExpectation] = useState<Expectation | null>(null);
+  // Read by the watch callback, which outlives the render that started it
+  const expectationRef = useRef<Expectation | null>(null);
+  const lastVerdictRef = useRef<boolean | null>(null);
+
+  useEffect(() => () => stopWatchRef.current?.(), []);
+
+  // ==================== LOCATION TAB HANDLERS ====================
+
+  const ensureLocationPermission = async () => {
+    const status = await ensurePermission('location');
+    if (status === 'partial') {
+      logEvent('LOCATION', 'Only approximate location granted', {
+        level: 'warn',
+      });
+    }
+    if (isUsable(status)) {
+      return true;
+    }
+    logEvent('LOCATION', 'Location permission denied', {level: 'warn'});
+    Alert.alert(
+      'Permission Denied',
+      'Location permission is required to read the position',
+    );
+    return false;
+  };
+
+  // Logs the expected-coordinate verdict when it changes
+  const checkFix = (fix: LocationFix) => {
+    const current = expectationRef.current;
+    if (!current) {
+      return;
+    }
+    const check = checkExpectedCoordinate(
+      fix,
+      current.coordinate,
+      current.toleranceM,
+    );
+    if (check.pass !== lastVerdictRef.current) {
+      lastVerdictRef.current = check.pass;
+      logEvent(
+        'LOCATION',
+        `Expected coordinate ${check.pass ? 'PASS' : 'FAIL'}: ${formatDistance(
+          check.distanceM,
+        )} from ${current.coordinate.latitude},${
+          current.coordinate.longitude
+        } (tolerance ${current.toleranceM} m)`,
+        {level: check.pass ? 'info' : 'warn', payload: {fix, check}},
+      );
+    }
+  };
+
+  const handleFix = (fix: LocationFix) => {
+    const previous = previousFixRef.current;
+    previousFixRef.current = fix;
+    setLatestFix(fix);
+    setFixes(current => [fix, ...current].slice(0, FIX_LIST_LIMIT));
+    const session = watchSessionRef.current;
+    if (session) {
+      watchSessionRef.current = {
+        ...session,
+        fixCount: session.fixCount + 1,
+        distanceM:
+          session.distanceM + (previous ? haversineDistance(previous, fix) : 0),
+      };
+      setWatchSession(watchSessionRef.current);
+    }
+    if (recordingRef.current) {
+      setRoute(current => [...current, fix].slice(-MAX_ROUTE_POINTS));
+    }
+    logEvent(
+      'LOCATION',
+      `Fix ${fix.latitude},${fix.longitude} ±${fix.accuracy} m`,
+      {level: 'debug', payload: fix},
+    );
+    checkFix(fix);
+  };
+
+  const handleCurrentPosition = async () => {
+    try {
+      if (!(await ensureLocationPermission())) {
+        return;
+      }
+      setLocationStatus('Reading position...');
+      setLocationProvider(provider);
+      const fix = await getCurrentFix({
+        ...DEFAULT_WATCH_OPTIONS,
+        enableHighAccuracy: highAccuracy,
+      });
+      setLatestFix(fix);
+      setLocationStatus(`✓ Position received (${PROVIDER_LABELS[provider]})`);
+      logEvent(
+        'LOCATION',
+        `Current position ${fix.latitude},${fix.longitude} ±${fix.accuracy} m`,
+        {payload: fix},
+      );
+      checkFix(fix);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setLocationStatus(`✗ Error: ${errorMsg}`);
+      logEvent('LOCATION', `Position read failed: ${errorMsg}`, {
+        level: 'error',
+      });
+      Alert.alert('Location Error', errorMsg);
+    }
+  };
+
+  const handleStopWatch = () => {
+    if (!stopWatchRef.current) {
+      return;
+    }
+    stopWatchRef.current();
+    stopWatchRef.current = null;
+    recordingRef.current = false;
+    setIsRecording(false);
+    setIsWatching(false);
+    const session = watchSessionRef.current;
+    if (session) {
+      logEvent(
+        'LOCATION',
+        `Watch stopped: ${session.fixCount} fixes, ${formatDistance(
+          session.distanceM,
+        )} travelled`,
+        {payload: session},
+      );
+    }
+    setLocationStatus('Watch stopped');
+  };
+
+  const handleStartWatch = async (
+    interval = watchInterval,
+    distance = distanceFilter,
+    source = provider,
+  ) => {
+    try {
+      const intervalMs = Number(interval);
+      const distanceFilterM = Number(distance);
+      if (!Number.isFinite(intervalMs) || intervalMs < 100) {
+        throw new Error('Interval must be at least 100 ms');
+      }
+      if (!Number.isFinite(distanceFilterM) || distanceFilterM < 0) {
+        throw new Error('Distance filter must be 0 m or more');
+      }
+      if (!(await ensureLocationPermission())) {
+        return;
+      }
+
+      stopWatchRef.current?.();
+      setLocationProvider(source);
+      previousFixRef.current = null;
+      setFixes([]);
+      watchSessionRef.current = {
+        startedAt: Date.now(),
+        fixCount: 0,
+        distanceM: 0,
+      };
+      setWatchSession(watchSessionRef.current);
+      stopWatchRef.current = watchFixes(
+        {
+          ...DEFAULT_WATCH_OPTIONS,
+          enableHighAccuracy: highAccuracy,
+          intervalMs,
+          distanceFilterM,
+        },
+        handleFix,
+        error => {
+          setLocationStatus(`✗ Watch error: ${error.message}`);
+          logEvent('LOCATION', `Watch error: ${error.message}`, {
+            level: 'error',
+          });
+          if (error.code === PERMISSION_DENIED) {
+            handleStopWatch();
+          }
+        },
+      );
+      setIsWatching(true);
+      setLocationStatus(
+        `Watching every ${intervalMs} ms, ${distanceFilterM} m filter (${PROVIDER_LABELS[source]})`,
+      );
+      logEvent(
+        'LOCATION',
+        `Watch started: ${intervalMs} ms, ${distanceFilterM} m filter, ${source} provider`,
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setLocationStatus(`✗ Error: ${errorMsg}`);
+      Alert.alert('Location Error', errorMsg);
+      throw error;
+    }
+  };
+
+  // Recording needs the watch; starting it also starts watching
+  const handleSetRecording = async (enabled: boolean) => {
+    if (enabled && !stopWatchRef.current) {
+      await handleStartWatch();
+      if (!stopWatchRef.current) {
+        return;
+      }
+    }
+    if (enabled) {
+      setRoute([]);
+    }
+    recordingRef.current = enabled;
+    setIsRecording(enabled);
+    logEvent(
+      'LOCATION',
+      enabled ? 'Route recording started' : 'Route recording stopped',
+    );
+  };
+
+  const handleExportGpx = async () => {
+    try {
+      if (route.length === 0) {
+        throw new Error('No route recorded yet');
+      }
+      if (!isUsable(await ensurePermission('write-storage'))) {
+        Alert.alert(
+          'Permission Denied',
+          'Storage permission is required to export the route',
+        );
+        return;
+      }
+      const path = await exportRouteGpx(route);
+      setLocationStatus(`✓ Exported: ${path}`);
+      logEvent(
+        'LOCATION',
+        `Route exported to ${path}: ${route.length} points, ${formatDistance(
+          pathDistance(route),
+        )}`,
+      );
+      Alert.alert('Route Exported', `Saved to:\n${path}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setLocationStatus(`✗ Error: ${errorMsg}`);
+      logEvent('LOCATION', `GPX export failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to export route: ${errorMsg}`);
+    }
+  };
+
+  const handleClearRoute = () => {
+    setRoute([]);
+    logEvent('LOCATION', 'Route cleared');
+  };
+
+  // Null turns the check off
+  const handleSetExpectation = (
+    coordinateText: string | null,
+    tolerance = toleranceText,
+  ) => {
+    let next: Expectation | null = null;
+    if (coordinateText !== null) {
+      const toleranceM = Number(tolerance);
+      if (!Number.isFinite(toleranceM) || toleranceM <= 0) {
+        throw new Error('Tolerance must be a positive number of metres');
+      }
+      next = {coordinate: parseCoordinate(coordinateText), toleranceM};
+    }
+    expectationRef.current = next;
+    lastVerdictRef.current = null;
+    setExpectation(next);
+    logEvent(
+      'LOCATION',
+      next
+        ? `Expecting ${next.coordinate.latitude},${next.coordinate.longitude} within ${next.toleranceM} m`
+        : 'Expected coordinate check off',
+    );
+    if (next && latestFix) {
+      checkFix(latestFix);
+    }
+  };
+
+  const handleApplyExpectation = () => {
+    try {
+      handleSetExpectation(expectedText);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Invalid Expectation', errorMsg);
+    }
+  };
+
+  useDeepLinkContribution('location', {
+    commands: {
+      // nativebridge://location-watch/on?interval=500&distance=0&provider=android
+      'location-watch': {
+        primaryArg: 'state',
+        run: async ({state, interval, distance, provider: source}) => {
+          if (state === 'off') {
+            handleStopWatch();
+            return 'watch stopped';
+          }
+          if (
+            source !== undefined &&
+            !LOCATION_PROVIDERS.includes(source as LocationProvider)
+          ) {
+            throw new DeepLinkError(
+              `Unknown provider "${source}" (${LOCATION_PROVIDERS.join(', ')})`,
+            );
+          }
+          const target = (source as LocationProvider | undefined) ?? provider;
+          if (interval !== undefined) {
+            setWatchInterval(interval);
+          }
+          if (distance !== undefined) {
+            setDistanceFilter(distance);
+          }
+          setProvider(target);
+          await handleStartWatch(
+            interval ?? watchInterval,
+            distance ?? distanceFilter,
+            target,
+          );
+          return stopWatchRef.current ? 'watching' : 'permission denied';
+        },
+      },
+      // nativebridge://location-record/on starts watching if needed
+      'location-record': {
+        primaryArg: 'state',
+        run: async ({state}) => {
+          await handleSetRecording(state !== 'off');
+          return recordingRef.current ? 'recording' : 'not recording';
+        },
+      },
+      // nativebridge://location-expect/52.5163,13.3777?tolerance=10;
+      // without a coordinate it turns the check off
+      'location-expect': {
+        primaryArg: 'coordinate',
+        run: ({coordinate, tolerance}) => {
+          if (coordinate !== undefined) {
+            setExpectedText(coordinate);
+          }
+          if (tolerance !== undefined) {
+            setToleranceText(tolerance);
+          }
+          try {
+            handleSetExpectation(
+              coordinate ?? null,
+              tolerance ?? toleranceText,
+            );
+          } catch (error) {
+            throw new DeepLinkError((error as Error).message);
+          }
+          return coordinate !== undefined
+            ? `expecting ${coordinate}`
+            : 'expect off';
+        },
+      },
+    },
+    actions: {
+      'location-current': handleCurrentPosition,
+      'export-gpx': handleExportGpx,
+      'clear-route': handleClearRoute,
+    },
+  });
+
+  const check =
+    expectation && latestFix
+      ? checkExpectedCoordinate(
+          latestFix,
+          expectation.coordinate,
+          expectation.toleranceM,
+        )
+      : null;
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Current Position */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Position</Text>
+
+        <Text style={styles.label}>Provider</Text>
+        <View style={styles.chipRow}>
+          {LOCATION_PROVIDERS.map(source => (
+            <TouchableOpacity
+              key={source}
+              style={[styles.chip, provider === source && styles.activeChip]}
+              onPress={() => setProvider(source)}
+              testID={`location-provider-${source}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  provider === source && styles.activeChipText,
+                ]}>
+                {PROVIDER_LABELS[source]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>High accuracy (GPS):</Text>
+          <Switch
+            value={highAccuracy}
+            onValueChange={setHighAccuracy}
+            testID="location-high-accuracy-switch"
+          />
+        </View>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleCurrentPosition}
+          testID="location-current-button">
+          <Text style={styles.buttonText}>Get Current Position</Text>
+        </TouchableOpacity>
+
+        {locationStatus ? (
+          <Text style={styles.infoText} testID="location-status">
+            {locationStatus}
+          </Text>
+        ) : null}
+
+        {latestFix ? (
+          <View style={styles.resultBox}>
+            {fixFields(latestFix).map(field => (
+              <View key={field.key} style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>{field.label}</Text>
+                <Text
+                  style={styles.fieldValue}
+                  testID={`location-${field.key}`}>
+                  {field.value}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+      </View>
+
+      {/* Expected Coordinate */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Expected Coordinate</Text>
+
+        <Text style={styles.label}>Latitude,longitude</Text>
+        <TextInput
+          style={styles.textInput}
+          value={expectedText}
+          onChangeText={setExpectedText}
+          placeholder="52.5163,13.3777"
+          autoCapitalize="none"
+          keyboardType="numbers-and-punctuation"
+          testID="location-expected-input"
+        />
+
+        <Text style={styles.label}>Tolerance (m)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={toleranceText}
+          onChangeText={setToleranceText}
+          keyboardType="decimal-pad"
+          testID="location-tolerance-input"
+        />
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleApplyExpectation}
+          testID="location-expect-button">
+          <Text style={styles.buttonText}>Check Against Latest Fix</Text>
+        </TouchableOpacity>
+
+        {expectation ? (
+          <TouchableOpacity
+            style={[styles.button, styles.stackedButton, styles.dangerButton]}
+            onPress={() => handleSetExpectation(null)}
+            testID="location-expect-off-button">
+            <Text style={styles.buttonText}>Turn Check Off</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {expectation && !check ? (
+          <Text style={styles.infoText} testID="location-expected-verdict">
+            Waiting for a fix...
+          </Text>
+        ) : null}
+        {check ? (
+          <View style={styles.resultBox}>
+            <Text
+              style={[
+                styles.verdict,
+                check.pass ? styles.permissionGranted : styles.permissionDenied,
+              ]}
+              testID="location-expected-verdict">
+              {check.pass ? 'PASS' : 'FAIL'}
+            </Text>
+            <Text style={styles.resultText} testID="location-expected-distance">
+              {formatDistance(check.distanceM)} from {check.expected.latitude},
+              {check.expected.longitude} (tolerance {check.toleranceM} m, fix
+              accuracy ±{latestFix?.accuracy} m)
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      {/* Watch and Route */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Watch</Text>
+
+        <Text style={styles.label}>Interval (ms)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={watchInterval}
+          onChangeText={setWatchInterval}
+          keyboardType="number-pad"
+          testID="location-interval-input"
+        />
+
+        <Text style={styles.label}>Distance filter (m)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={distanceFilter}
+          onChangeText={setDistanceFilter}
+          keyboardType="decimal-pad"
+          testID="location-distance-filter-input"
+        />
+
+        {isWatching ? (
+          <TouchableOpacity
+            style={[styles.button, styles.dangerButton]}
+            onPress={handleStopWatch}
+            testID="location-watch-stop-button">
+            <Text style={styles.buttonText}>Stop Watch</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => handleStartWatch().catch(() => {})}
+            testID="location-watch-start-button">
+            <Text style={styles.buttonText}>Start Watch</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Record route:</Text>
+          <Switch
+            value={isRecording}
+            onValueChange={enabled => {
+              handleSetRecording(enabled).catch(() => {});
+            }}
+            testID="location-record-switch"
+          />
+        </View>
+
+        {watchSession ? (
+          <View style={styles.resultBox}>
+            <Text style={styles.resultText} testID="location-distance">
+              Distance travelled: {formatDistance(watchSession.distanceM)}
+            </Text>
+            <Text style={styles.resultText} testID="location-fix-count">
+              Fixes: {watchSession.fixCount} since{' '}
+              {new Date(watchSession.startedAt).toISOString()}
+            </Text>
+          </View>
+        ) : null}
+
+        <Text style={[styles.sectionTitle, styles.spacedTitle]}>
+          Route: {route.length} points
+        </Text>
+        {route.length > 0 ? (
+          <Text style={styles.resultText} testID="location-route-summary">
+            {formatDistance(pathDistance(route))} over{' '}
+            {Math.round(
+              (route[route.length - 1].timestamp - route[0].timestamp) / 1000,
+            )}{' '}
+            s
+          </Text>
+        ) : null}
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleExportGpx}
+          disabled={route.length === 0}
+          testID="location-export-gpx-button">
+          <Text style={styles.buttonText}>Export GPX</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton, styles.dangerButton]}
+          onPress={handleClearRoute}
+          disabled={route.length === 0}
+          testID="location-clear-route-button">
+          <Text style={styles.buttonText}>Clear Route</Text>
+        </TouchableOpacity>
+
+        <Text
+          style={[styles.sectionTitle, styles.spacedTitle]}
+          testID="location-fix-list-count">
+          Positions: {fixes.length}
+        </Text>
+        {fixes.map((fix, index) => (
+          <View
+            key={`${fix.receivedAt}-${index}`}
+            style={styles.logItem}
+            testID={`location-fix-${index}`}>
+            <Text style={styles.logMeta}>
+              {new Date(fix.timestamp).toISOString()} · ±{fix.accuracy} m
+              {fix.mocked ? ' · mock' : ''}
+            </Text>
+            <Text style={styles.resultText}>
+              {fix.latitude}, {fix.longitude} · {formatSpeed(fix.speed)} ·{' '}
+              {formatHeading(fix.heading)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'location',
+  label: 'Location',
+  testID: 'tab-location',
+  Screen: LocationScreen,
+});
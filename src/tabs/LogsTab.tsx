@@ -0,0 +1,202 @@
+/**
+ * NativeBridge Logs Tab
+ *
+ * Browses the persistent event log with category and level filters, and
+ * exports it to Downloads.
+ */
+
+import React, {useState} from 'react';
+import {Alert, ScrollView, Text, TouchableOpacity, View} from 'react-native';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {
+  clearEventLog,
+  exportEventLog,
+  LOG_LEVELS,
+  LogExportFormat,
+  LogLevel,
+  logEvent,
+  queryLogEntries,
+} from '../logging/eventLog';
+import {useEventLog} from '../logging/useEventLog';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+// Number of (newest) entries rendered
+const LOG_DISPLAY_LIMIT = 200;
+
+function LogsScreen() {
+  // Logs Tab state
+  const logEntries = useEventLog();
+  const [logCategoryFilter, setLogCategoryFilter] = useState('');
+  const [logLevelFilter, setLogLevelFilter] = useState<LogLevel>('debug');
+  const [logStatus, setLogStatus] = useState('');
+
+  // ==================== LOGS TAB HANDLERS ====================
+
+  const handleExportLogs = async (format: LogExportFormat) => {
+    try {
+      setLogStatus(`Exporting ${format.toUpperCase()}...`);
+
+      if (!isUsable(await ensurePermission('write-storage'))) {
+        Alert.alert(
+          'Permission Denied',
+          'Storage permission is required to export logs',
+        );
+        return;
+      }
+
+      const {path, count} = await exportEventLog(format, {
+        category: logCategoryFilter || undefined,
+        level: logLevelFilter,
+      });
+
+      setLogStatus(`✓ Exported ${count} entries: ${path}`);
+      logEvent('LOGS', `Exported ${count} log entries to ${path}`, {
+        payload: {format, path, count},
+      });
+      Alert.alert('Logs Exported', `${count} entries saved to:\n${path}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setLogStatus(`✗ Error: ${errorMsg}`);
+      logEvent('LOGS', `Log export failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to export logs: ${errorMsg}`);
+    }
+  };
+
+  const handleClearLogs = async () => {
+    try {
+      await clearEventLog();
+      setLogStatus('✓ Log cleared');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setLogStatus(`✗ Error: ${errorMsg}`);
+    }
+  };
+
+  useDeepLinkContribution('logs', {
+    actions: {
+      'export-logs': () => handleExportLogs('ndjson'),
+    },
+  });
+
+  const categories = Array.from(
+    new Set(logEntries.map(entry => entry.category)),
+  ).sort();
+  const filteredEntries = queryLogEntries({
+    category: logCategoryFilter || undefined,
+    level: logLevelFilter,
+  });
+  const visibleEntries = filteredEntries.slice(-LOG_DISPLAY_LIMIT).reverse();
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Filters */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Filter by Category</Text>
+        <View style={styles.chipRow}>
+          {['', ...categories].map(category => (
+            <TouchableOpacity
+              key={category || 'ALL'}
+              style={[
+                styles.chip,
+                logCategoryFilter === category && styles.activeChip,
+              ]}
+              onPress={() => setLogCategoryFilter(category)}
+              testID={`log-filter-${category || 'ALL'}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  logCategoryFilter === category && styles.activeChipText,
+                ]}>
+                {category || 'ALL'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.spacedTitle]}>
+          Minimum Level
+        </Text>
+        <View style={styles.chipRow}>
+          {LOG_LEVELS.map(level => (
+            <TouchableOpacity
+              key={level}
+              style={[
+                styles.chip,
+                logLevelFilter === level && styles.activeChip,
+              ]}
+              onPress={() => setLogLevelFilter(level)}
+              testID={`log-level-${level}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  logLevelFilter === level && styles.activeChipText,
+                ]}>
+                {level.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Export */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Export</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleExportLogs('json')}
+          testID="export-logs-json-button">
+          <Text style={styles.buttonText}>Export JSON to Downloads</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() => handleExportLogs('ndjson')}
+          testID="export-logs-ndjson-button">
+          <Text style={styles.buttonText}>Export NDJSON to Downloads</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton, styles.dangerButton]}
+          onPress={handleClearLogs}
+          testID="clear-logs-button">
+          <Text style={styles.buttonText}>Clear Log</Text>
+        </TouchableOpacity>
+
+        {logStatus ? (
+          <Text style={styles.infoText} testID="log-status">
+            {logStatus}
+          </Text>
+        ) : null}
+      </View>
+
+      {/* Entries */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle} testID="log-count">
+          Entries: {filteredEntries.length} of {logEntries.length}
+        </Text>
+
+        {visibleEntries.map(entry => (
+          <View
+            key={entry.id}
+            style={styles.logItem}
+            testID={`log-entry-${entry.id}`}>
+            <Text style={styles.logMeta}>
+              {entry.timestamp} · {entry.level.toUpperCase()} · {entry.category}
+            </Text>
+            <Text style={styles.dataText}>{entry.message}</Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'logs',
+  label: 'Logs',
+  testID: 'tab-logs',
+  Screen: LogsScreen,
+});
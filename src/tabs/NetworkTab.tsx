@@ -0,0 +1,1648 @@
+/**
+ * NativeBridge Network Tab
+ *
+ * Connectivity state with a latency probe, quick GET/POST checks with a
+ * retry policy, a request console with replayable history, the transport
+ * controls for record/replay fixtures and fault injection, a WebSocket
+ * panel with echo round-trip measurement, and a resumable download manager
+ * for bandwidth and network-condition tests.
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import NetInfo, {NetInfoState} from '@react-native-community/netinfo';
+import {DeepLinkError} from '../deeplink/commandRouter';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {
+  createLatencyProbe,
+  DEFAULT_PROBE_OPTIONS,
+  ProbeSample,
+  ProbeStats,
+  summarizeProbes,
+  validateProbeOptions,
+} from '../network/connectivityProbe';
+import {
+  DEFAULT_TIMEOUT_MS,
+  formatBody,
+  formatHeaders,
+  HTTP_METHODS,
+  HttpHistoryEntry,
+  HttpMethod,
+  HttpRequestSpec,
+  HttpResponseSummary,
+  HttpStatusError,
+  methodAllowsBody,
+  parseHeaders,
+  sendHttpRequest,
+  validateRequest,
+} from '../network/httpRequest';
+import {
+  createDownload,
+  DOWNLOAD_DESTINATIONS,
+  DownloadDestination,
+  DownloadState,
+  fileNameFromUrl,
+  formatBytes,
+  parseChecksum,
+} from '../network/resumableDownload';
+import {
+  DEFAULT_RETRY_POLICY,
+  policyForMethod,
+  RetryAttempt,
+  RetryPolicy,
+  validateRetryPolicy,
+  withRetry,
+} from '../network/retryPolicy';
+import {
+  clearFixtures,
+  configureTransport,
+  FIXTURE_DIRECTORY,
+  getTransportConfig,
+  listFixtures,
+  TRANSPORT_FAULTS,
+  TRANSPORT_MODES,
+  TransportConfig,
+} from '../network/transport';
+import {
+  createWebSocketSession,
+  DEFAULT_ECHO_INTERVAL_MS,
+  DEFAULT_WEBSOCKET_OPTIONS,
+  describeWebSocketFrame,
+  WebSocketSessionState,
+} from '../network/webSocketSession';
+import {ensurePermission, isUsable} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+// Number of sent requests kept for replay
+const REQUEST_HISTORY_LIMIT = 20;
+
+const DOWNLOAD_DESTINATION_LABELS: Record<DownloadDestination, string> = {
+  downloads: 'Downloads',
+  app: 'App storage',
+};
+
+const DEFAULT_DOWNLOAD_URL = 'https://proof.ovh.net/files/10Mb.dat';
+
+type DownloadJob = ReturnType<typeof createDownload>;
+
+const formatDownloadProgress = ({receivedBytes, totalBytes}: DownloadState) =>
+  totalBytes
+    ? `${formatBytes(receivedBytes)} of ${formatBytes(totalBytes)} (${(
+        (receivedBytes / totalBytes) *
+        100
+      ).toFixed(1)}%)`
+    : `${formatBytes(receivedBytes)} received`;
+
+type LatencyProbe = ReturnType<typeof createLatencyProbe>;
+
+// Probe results between reachability changes are only logged as a summary
+// this often; every log entry is a disk write and, on Android, a toast
+const PROBE_SUMMARY_INTERVAL_MS = 60000;
+
+// "wifi", "cellular 4g", "none", ...
+const describeConnection = (state: NetInfoState) =>
+  state.type === 'cellular' && state.details.cellularGeneration
+    ? `cellular ${state.details.cellularGeneration}`
+    : state.type;
+
+// Reachability is null until NetInfo's own check has run
+const isOnline = (state: NetInfoState) =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+const formatProbeStats = (stats: ProbeStats) =>
+  stats.avgMs === null
+    ? 'no replies'
+    : `min ${stats.minMs}ms · avg ${stats.avgMs}ms · max ${stats.maxMs}ms`;
+
+// Connectivity: NetInfo state plus a periodic latency probe
+function ConnectivitySection() {
+  const [netState, setNetState] = useState<NetInfoState | null>(null);
+  const [probeUrl, setProbeUrl] = useState(DEFAULT_PROBE_OPTIONS.url);
+  const [probeInterval, setProbeInterval] = useState(
+    String(DEFAULT_PROBE_OPTIONS.intervalMs),
+  );
+  const [lastSample, setLastSample] = useState<ProbeSample | null>(null);
+  const [probeStats, setProbeStats] = useState<ProbeStats | null>(null);
+  const [isProbing, setIsProbing] = useState(false);
+  const probeRef = useRef<LatencyProbe | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(state => {
+      setNetState(state);
+      logEvent(
+        'CONNECTIVITY',
+        `${isOnline(state) ? 'Online' : 'Offline'} (${describeConnection(
+          state,
+        )}, reachable: ${state.isInternetReachable ?? 'unknown'})`,
+        {
+          level: isOnline(state) ? 'info' : 'warn',
+          payload: {
+            type: state.type,
+            isConnected: state.isConnected,
+            isInternetReachable: state.isInternetReachable,
+            details: state.details,
+          },
+        },
+      );
+    });
+    return () => {
+      unsubscribe();
+      probeRef.current?.stop();
+    };
+  }, []);
+
+  const handleStartProbe = (url = probeUrl, interval = probeInterval) => {
+    try {
+      const options = validateProbeOptions({
+        ...DEFAULT_PROBE_OPTIONS,
+        url: url.trim(),
+        intervalMs: Number(interval),
+      });
+      probeRef.current?.stop();
+      setLastSample(null);
+      setProbeStats(null);
+
+      let lastOk: boolean | null = null;
+      let lastSummaryAt = Date.now();
+      const probe = createLatencyProbe(options, (sample, window) => {
+        const stats = summarizeProbes(window);
+        setLastSample(sample);
+        setProbeStats(stats);
+        if (sample.ok !== lastOk) {
+          lastOk = sample.ok;
+          logEvent(
+            'CONNECTIVITY',
+            sample.ok
+              ? `Probe reachable: ${sample.latencyMs}ms (HTTP ${sample.status})`
+              : `Probe lost: ${sample.error}`,
+            {level: sample.ok ? 'info' : 'warn', payload: {sample, stats}},
+          );
+        } else if (sample.at - lastSummaryAt >= PROBE_SUMMARY_INTERVAL_MS) {
+          lastSummaryAt = sample.at;
+          logEvent(
+            'CONNECTIVITY',
+            `Probe ${stats.received}/${stats.sent}: ${formatProbeStats(stats)}`,
+            {level: 'debug', payload: stats},
+          );
+        }
+      });
+      probeRef.current = probe;
+      probe.start();
+      setIsProbing(true);
+      logEvent(
+        'CONNECTIVITY',
+        `Probing ${options.url} every ${options.intervalMs}ms`,
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Invalid Probe', errorMsg);
+      throw error;
+    }
+  };
+
+  const handleStopProbe = () => {
+    probeRef.current?.stop();
+    probeRef.current = null;
+    setIsProbing(false);
+    logEvent(
+      'CONNECTIVITY',
+      `Probe stopped${probeStats ? `: ${formatProbeStats(probeStats)}` : ''}`,
+      {payload: probeStats},
+    );
+  };
+
+  useDeepLinkContribution('connectivity', {
+    commands: {
+      // nativebridge://probe?url=https://example.com/health&interval=1000
+      probe: {
+        primaryArg: 'url',
+        run: ({url, interval}) => {
+          if (url !== undefined) {
+            setProbeUrl(url);
+          }
+          if (interval !== undefined) {
+            setProbeInterval(interval);
+          }
+          handleStartProbe(url ?? probeUrl, interval ?? probeInterval);
+          return `probing ${url ?? probeUrl}`;
+        },
+      },
+    },
+    actions: {
+      'stop-probe': handleStopProbe,
+    },
+  });
+
+  const online = netState ? isOnline(netState) : null;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Connectivity</Text>
+
+      <Text
+        style={[
+          styles.verdict,
+          online === null
+            ? null
+            : online
+            ? styles.permissionGranted
+            : styles.permissionDenied,
+        ]}
+        testID="connectivity-state">
+        {online === null ? 'Checking...' : online ? 'ONLINE' : 'OFFLINE'}
+      </Text>
+      {netState ? (
+        <Text style={styles.resultText} testID="connectivity-type">
+          {describeConnection(netState)} · reachable:{' '}
+          {String(netState.isInternetReachable ?? 'unknown')}
+        </Text>
+      ) : null}
+
+      <Text style={styles.label}>Probe endpoint</Text>
+      <TextInput
+        style={styles.textInput}
+        value={probeUrl}
+        onChangeText={setProbeUrl}
+        autoCapitalize="none"
+        keyboardType="url"
+        testID="probe-url-input"
+      />
+
+      <Text style={styles.label}>Interval (ms)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={probeInterval}
+        onChangeText={setProbeInterval}
+        keyboardType="number-pad"
+        testID="probe-interval-input"
+      />
+
+      {isProbing ? (
+        <TouchableOpacity
+          style={[styles.button, styles.dangerButton]}
+          onPress={handleStopProbe}
+          testID="probe-stop-button">
+          <Text style={styles.buttonText}>Stop Probe</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => {
+            try {
+              handleStartProbe();
+            } catch {
+              // Already reported
+            }
+          }}
+          testID="probe-start-button">
+          <Text style={styles.buttonText}>Start Probe</Text>
+        </TouchableOpacity>
+      )}
+
+      {probeStats ? (
+        <View style={styles.resultBox}>
+          <Text style={styles.resultText} testID="probe-stats">
+            {formatProbeStats(probeStats)}
+          </Text>
+          <Text style={styles.resultText} testID="probe-loss">
+            Loss: {probeStats.lossPercent.toFixed(1)}% (
+            {probeStats.sent - probeStats.received} of {probeStats.sent})
+          </Text>
+          {lastSample ? (
+            <Text style={styles.label} testID="probe-last">
+              Last: {new Date(lastSample.at).toISOString()}{' '}
+              {lastSample.ok
+                ? `${lastSample.latencyMs}ms, HTTP ${lastSample.status}`
+                : `lost (${lastSample.error})`}
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+// Download manager: start, pause/resume via HTTP Range, cancel, verify
+function DownloadSection() {
+  const [downloadUrl, setDownloadUrl] = useState(DEFAULT_DOWNLOAD_URL);
+  const [downloadName, setDownloadName] = useState('');
+  const [destination, setDestination] =
+    useState<DownloadDestination>('downloads');
+  const [expectedChecksum, setExpectedChecksum] = useState('');
+  const [download, setDownload] = useState<DownloadState | null>(null);
+  const downloadRef = useRef<DownloadJob | null>(null);
+
+  const isRunning =
+    download?.status === 'downloading' || download?.status === 'verifying';
+
+  const handleDownloadChange = (state: DownloadState) => {
+    setDownload(state);
+    if (state.status === 'completed' || state.status === 'failed') {
+      const summary = `${state.status} ${state.path}: ${formatBytes(
+        state.receivedBytes,
+      )} at avg ${formatBytes(state.averageBytesPerSecond)}/s${
+        state.verification
+          ? `, ${state.verification.algorithm} ${
+              state.verification.pass ? 'PASS' : 'FAIL'
+            }`
+          : ''
+      }${state.error ? ` (${state.error})` : ''}`;
+      logEvent('DOWNLOAD', summary, {
+        level: state.status === 'completed' ? 'info' : 'error',
+        payload: state,
+      });
+    }
+  };
+
+  const handleStartDownload = async (
+    url = downloadUrl,
+    name = downloadName,
+    target = destination,
+    checksum = expectedChecksum,
+  ) => {
+    if (isRunning) {
+      Alert.alert('Download', 'A download is already running');
+      return;
+    }
+    try {
+      if (!/^https?:\/\//i.test(url)) {
+        throw new Error(`URL must be http(s): ${url}`);
+      }
+      if (checksum) {
+        parseChecksum(checksum);
+      }
+      if (
+        target === 'downloads' &&
+        !isUsable(await ensurePermission('write-storage'))
+      ) {
+        Alert.alert(
+          'Permission Denied',
+          'Storage permission is required to save to Downloads',
+        );
+        return;
+      }
+
+      const fileName = name || fileNameFromUrl(url);
+      const job = createDownload(
+        {
+          url,
+          fileName,
+          destination: target,
+          expectedChecksum: checksum || undefined,
+        },
+        handleDownloadChange,
+      );
+      downloadRef.current = job;
+      logEvent('DOWNLOAD', `Downloading ${url} to ${job.getState().path}`);
+      await job.start();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('DOWNLOAD', `Download error: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to download: ${errorMsg}`);
+    }
+  };
+
+  const handlePauseDownload = () => {
+    if (downloadRef.current?.pause()) {
+      logEvent('DOWNLOAD', 'Download paused');
+    }
+  };
+
+  const handleResumeDownload = async () => {
+    if (downloadRef.current?.getState().status !== 'paused') {
+      return;
+    }
+    try {
+      logEvent(
+        'DOWNLOAD',
+        `Resuming from byte ${downloadRef.current.getState().receivedBytes}`,
+      );
+      await downloadRef.current.resume();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('DOWNLOAD', `Resume error: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to resume download: ${errorMsg}`);
+    }
+  };
+
+  const handleCancelDownload = async () => {
+    if (downloadRef.current) {
+      await downloadRef.current.cancel();
+      logEvent('DOWNLOAD', 'Download cancelled');
+    }
+  };
+
+  useDeepLinkContribution('downloads', {
+    commands: {
+      // nativebridge://download?url=https://host/file.bin&dest=app&checksum=sha256:...
+      download: {
+        primaryArg: 'url',
+        requiredArgs: ['url'],
+        run: ({url, name, dest, checksum}) => {
+          if (
+            dest !== undefined &&
+            !DOWNLOAD_DESTINATIONS.includes(dest as DownloadDestination)
+          ) {
+            throw new DeepLinkError(
+              `Unknown destination "${dest}". Available: ${DOWNLOAD_DESTINATIONS.join(
+                ', ',
+              )}`,
+            );
+          }
+          if (checksum) {
+            parseChecksum(checksum);
+          }
+          const target = (dest as DownloadDestination) ?? destination;
+          setDownloadUrl(url);
+          setDownloadName(name ?? '');
+          setDestination(target);
+          setExpectedChecksum(checksum ?? '');
+          handleStartDownload(url, name ?? '', target, checksum ?? '');
+          return `downloading ${url}`;
+        },
+      },
+    },
+    actions: {
+      'pause-download': handlePauseDownload,
+      'resume-download': handleResumeDownload,
+      'cancel-download': handleCancelDownload,
+    },
+  });
+
+  const percent =
+    download?.totalBytes && download.totalBytes > 0
+      ? Math.min((download.receivedBytes / download.totalBytes) * 100, 100)
+      : 0;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Download Manager</Text>
+
+      <Text style={styles.label}>URL</Text>
+      <TextInput
+        style={styles.textInput}
+        value={downloadUrl}
+        onChangeText={setDownloadUrl}
+        autoCapitalize="none"
+        keyboardType="url"
+        testID="download-url-input"
+      />
+
+      <Text style={styles.label}>File name (defaults to the URL's)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={downloadName}
+        onChangeText={setDownloadName}
+        placeholder={fileNameFromUrl(downloadUrl)}
+        autoCapitalize="none"
+        testID="download-filename-input"
+      />
+
+      <Text style={styles.label}>Expected checksum (md5/sha1/sha256)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={expectedChecksum}
+        onChangeText={setExpectedChecksum}
+        placeholder="sha256:... (optional)"
+        autoCapitalize="none"
+        testID="download-checksum-input"
+      />
+
+      <View style={styles.chipRow}>
+        {DOWNLOAD_DESTINATIONS.map(target => (
+          <TouchableOpacity
+            key={target}
+            style={[styles.chip, destination === target && styles.activeChip]}
+            onPress={() => setDestination(target)}
+            testID={`download-dest-${target}`}>
+            <Text
+              style={[
+                styles.chipText,
+                destination === target && styles.activeChipText,
+              ]}>
+              {DOWNLOAD_DESTINATION_LABELS[target]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {download?.status === 'downloading' ? (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handlePauseDownload}
+          testID="download-pause-button">
+          <Text style={styles.buttonText}>Pause</Text>
+        </TouchableOpacity>
+      ) : download?.status === 'paused' ? (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleResumeDownload}
+          testID="download-resume-button">
+          <Text style={styles.buttonText}>Resume</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleStartDownload()}
+          disabled={isRunning}
+          testID="download-start-button">
+          <Text style={styles.buttonText}>Start Download</Text>
+        </TouchableOpacity>
+      )}
+
+      {download?.status === 'downloading' || download?.status === 'paused' ? (
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton, styles.dangerButton]}
+          onPress={handleCancelDownload}
+          testID="download-cancel-button">
+          <Text style={styles.buttonText}>Cancel</Text>
+        </TouchableOpacity>
+      ) : null}
+
+      {download ? (
+        <View style={styles.resultBox}>
+          <Text style={styles.resultText} testID="download-status">
+            Status: {download.status}
+            {download.resumedWithRange === false
+              ? ' (server ignored Range, restarted)'
+              : ''}
+            {download.error ? ` - ${download.error}` : ''}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, {width: `${percent}%`}]} />
+          </View>
+          <Text style={styles.resultText} testID="download-progress">
+            {formatDownloadProgress(download)}
+          </Text>
+          <Text style={styles.resultText} testID="download-throughput">
+            {formatBytes(download.currentBytesPerSecond)}/s now · avg{' '}
+            {formatBytes(download.averageBytesPerSecond)}/s
+          </Text>
+          {download.verification ? (
+            <>
+              <Text
+                style={[
+                  styles.verdict,
+                  download.verification.pass
+                    ? styles.permissionGranted
+                    : styles.permissionDenied,
+                ]}
+                testID="download-verify">
+                {download.verification.pass ? 'PASS' : 'FAIL'}
+              </Text>
+              <Text style={styles.label} testID="download-checksum">
+                {download.verification.algorithm}:{' '}
+                {download.verification.actual}
+              </Text>
+            </>
+          ) : null}
+          <Text style={styles.label} testID="download-path">
+            {download.path}
+          </Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+type WebSocketSession = ReturnType<typeof createWebSocketSession>;
+
+// Entries shown in the panel; the session keeps MAX_WEBSOCKET_LOG
+const WEBSOCKET_LOG_VISIBLE = 50;
+
+// One character per echo probe, oldest first: "·" answered, "✗" dropped
+const formatEchoTimeline = (window: ProbeSample[]) =>
+  window.map(sample => (sample.ok ? '·' : '✗')).join('');
+
+const formatEchoSummary = ({echo}: WebSocketSessionState) =>
+  `${echo.sent} sent, ${echo.received} echoed, ${echo.dropped} dropped${
+    echo.late > 0 ? `, ${echo.late} late` : ''
+  }`;
+
+// WebSocket panel: connect, send text/binary, message log, echo RTT
+function WebSocketSection() {
+  const [wsUrl, setWsUrl] = useState(DEFAULT_WEBSOCKET_OPTIONS.url);
+  const [autoReconnect, setAutoReconnect] = useState(
+    DEFAULT_WEBSOCKET_OPTIONS.autoReconnect,
+  );
+  const [wsMessage, setWsMessage] = useState('hello from NativeBridge');
+  const [echoInterval, setEchoInterval] = useState(
+    String(DEFAULT_ECHO_INTERVAL_MS),
+  );
+  const [session, setSession] = useState<WebSocketSessionState | null>(null);
+  const sessionRef = useRef<WebSocketSession | null>(null);
+  const lastStatusRef = useRef<WebSocketSessionState['status'] | null>(null);
+
+  const isActive = session !== null && session.status !== 'closed';
+
+  const handleSessionChange = (state: WebSocketSessionState) => {
+    setSession(state);
+    if (state.status === lastStatusRef.current) {
+      return;
+    }
+    lastStatusRef.current = state.status;
+    if (state.status === 'open') {
+      logEvent(
+        'WEBSOCKET',
+        `Connected to ${state.url}${
+          state.reconnects > 0 ? ` (reconnect ${state.reconnects})` : ''
+        }`,
+      );
+    } else if (state.status === 'reconnecting') {
+      logEvent(
+        'WEBSOCKET',
+        `Connection lost (${state.lastClose}), reconnect attempt ${state.reconnectAttempt}`,
+        {level: 'warn'},
+      );
+    } else if (state.status === 'closed') {
+      logEvent('WEBSOCKET', `Closed (${state.lastClose ?? 'not connected'})`, {
+        payload: {
+          framesSent: state.framesSent,
+          framesReceived: state.framesReceived,
+          echo: formatEchoSummary(state),
+        },
+      });
+    }
+  };
+
+  useEffect(() => {
+    // Skip the backoff wait once the device is back online
+    const unsubscribe = NetInfo.addEventListener(state => {
+      if (isOnline(state)) {
+        sessionRef.current?.reconnectNow(
+          `network back (${describeConnection(state)})`,
+        );
+      }
+    });
+    return () => {
+      unsubscribe();
+      sessionRef.current?.disconnect();
+    };
+  }, []);
+
+  const handleConnect = (url = wsUrl, reconnect = autoReconnect) => {
+    sessionRef.current?.disconnect();
+    lastStatusRef.current = null;
+    try {
+      const next = createWebSocketSession(
+        {
+          ...DEFAULT_WEBSOCKET_OPTIONS,
+          url: url.trim(),
+          autoReconnect: reconnect,
+        },
+        state => {
+          // A replaced session's late close must not overwrite the new one
+          if (sessionRef.current === next) {
+            handleSessionChange(state);
+          }
+        },
+      );
+      sessionRef.current = next;
+      next.connect();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      sessionRef.current = null;
+      logEvent('WEBSOCKET', `Connect failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('WebSocket', errorMsg);
+      throw error;
+    }
+  };
+
+  const handleDisconnect = () => {
+    sessionRef.current?.disconnect();
+  };
+
+  const handleAutoReconnectChange = (enabled: boolean) => {
+    setAutoReconnect(enabled);
+    sessionRef.current?.setAutoReconnect(enabled);
+  };
+
+  const handleSend = (kind: 'text' | 'binary', text = wsMessage) => {
+    const current = sessionRef.current;
+    try {
+      if (!current) {
+        throw new Error('WebSocket is not open');
+      }
+      if (kind === 'binary') {
+        current.sendBinary(text);
+      } else {
+        current.sendText(text);
+      }
+      const [entry] = current.getState().log;
+      logEvent('WEBSOCKET', `Sent ${describeWebSocketFrame(entry)}`, {
+        level: 'debug',
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('WebSocket', errorMsg);
+      throw error;
+    }
+  };
+
+  const handleStartEcho = (interval = echoInterval) => {
+    try {
+      if (!sessionRef.current) {
+        throw new Error('Connect to an echo server first');
+      }
+      sessionRef.current.startEcho(Number(interval));
+      logEvent('WEBSOCKET', `Echo probes every ${interval}ms`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('WebSocket', errorMsg);
+      throw error;
+    }
+  };
+
+  const handleStopEcho = () => {
+    const current = sessionRef.current;
+    if (!current) {
+      return;
+    }
+    current.stopEcho();
+    const state = current.getState();
+    logEvent(
+      'WEBSOCKET',
+      `Echo stopped: ${formatEchoSummary(state)}; last ${
+        state.echo.window.length
+      }: ${formatProbeStats(state.echo.windowStats)}`,
+      {payload: state.echo},
+    );
+  };
+
+  // Buttons report through Alert; the deep-link router logs the rethrow
+  const ignoreReported = (action: () => void) => () => {
+    try {
+      action();
+    } catch {
+      // Already reported
+    }
+  };
+
+  useDeepLinkContribution('websocket', {
+    commands: {
+      // nativebridge://ws-connect?url=ws://10.0.2.2:8090/echo&reconnect=off
+      'ws-connect': {
+        primaryArg: 'url',
+        run: ({url, reconnect}) => {
+          const target = url ?? wsUrl;
+          const enabled =
+            reconnect === undefined ? autoReconnect : reconnect !== 'off';
+          setWsUrl(target);
+          setAutoReconnect(enabled);
+          handleConnect(target, enabled);
+          return `connecting to ${target}`;
+        },
+      },
+      // nativebridge://ws-send?text=hello&type=binary
+      'ws-send': {
+        primaryArg: 'text',
+        run: ({text, type}) => {
+          if (type !== undefined && type !== 'text' && type !== 'binary') {
+            throw new DeepLinkError(
+              `Unknown frame type "${type}" (text or binary)`,
+            );
+          }
+          handleSend(type === 'binary' ? 'binary' : 'text', text ?? wsMessage);
+          return `sent ${type ?? 'text'} frame`;
+        },
+      },
+      // nativebridge://ws-echo/on?interval=500
+      'ws-echo': {
+        primaryArg: 'state',
+        run: ({state, interval}) => {
+          if (state === 'off') {
+            handleStopEcho();
+            return 'echo stopped';
+          }
+          if (interval !== undefined) {
+            setEchoInterval(interval);
+          }
+          handleStartEcho(interval ?? echoInterval);
+          return `echo every ${interval ?? echoInterval}ms`;
+        },
+      },
+    },
+    actions: {
+      'ws-disconnect': handleDisconnect,
+      'ws-clear-log': () => sessionRef.current?.clearLog(),
+    },
+  });
+
+  const visibleLog = session?.log.slice(0, WEBSOCKET_LOG_VISIBLE) ?? [];
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>WebSocket</Text>
+
+      <Text style={styles.label}>URL</Text>
+      <TextInput
+        style={styles.textInput}
+        value={wsUrl}
+        onChangeText={setWsUrl}
+        autoCapitalize="none"
+        keyboardType="url"
+        testID="ws-url-input"
+      />
+
+      <View style={styles.switchContainer}>
+        <Text style={styles.label}>Auto-reconnect:</Text>
+        <Switch
+          value={autoReconnect}
+          onValueChange={handleAutoReconnectChange}
+          testID="ws-reconnect-switch"
+        />
+      </View>
+
+      {isActive ? (
+        <TouchableOpacity
+          style={[styles.button, styles.dangerButton]}
+          onPress={handleDisconnect}
+          testID="ws-disconnect-button">
+          <Text style={styles.buttonText}>Disconnect</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={ignoreReported(() => handleConnect())}
+          testID="ws-connect-button">
+          <Text style={styles.buttonText}>Connect</Text>
+        </TouchableOpacity>
+      )}
+
+      {session ? (
+        <View style={styles.resultBox}>
+          <Text
+            style={[
+              styles.verdict,
+              session.status === 'open'
+                ? styles.permissionGranted
+                : styles.permissionDenied,
+            ]}
+            testID="ws-status">
+            {session.status.toUpperCase()}
+          </Text>
+          {session.status === 'reconnecting' && session.nextReconnectAt ? (
+            <Text style={styles.label} testID="ws-reconnect-info">
+              Attempt {session.reconnectAttempt}, next at{' '}
+              {new Date(session.nextReconnectAt).toISOString()}
+            </Text>
+          ) : null}
+          <Text style={styles.resultText} testID="ws-stats">
+            Sent {session.framesSent} frames ({formatBytes(session.bytesSent)})
+            · received {session.framesReceived} (
+            {formatBytes(session.bytesReceived)}) · reconnects{' '}
+            {session.reconnects}
+          </Text>
+          {session.lastClose ? (
+            <Text style={styles.label} testID="ws-last-close">
+              Last close: {session.lastClose}
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+
+      <Text style={styles.label}>Message</Text>
+      <TextInput
+        style={[styles.textInput, styles.multilineInput]}
+        value={wsMessage}
+        onChangeText={setWsMessage}
+        multiline
+        autoCapitalize="none"
+        testID="ws-message-input"
+      />
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={ignoreReported(() => handleSend('text'))}
+        disabled={session?.status !== 'open'}
+        testID="ws-send-text-button">
+        <Text style={styles.buttonText}>Send Text</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.button, styles.stackedButton]}
+        onPress={ignoreReported(() => handleSend('binary'))}
+        disabled={session?.status !== 'open'}
+        testID="ws-send-binary-button">
+        <Text style={styles.buttonText}>Send Binary (UTF-8 bytes)</Text>
+      </TouchableOpacity>
+
+      <Text style={[styles.sectionTitle, styles.spacedTitle]}>Echo</Text>
+      <Text style={styles.infoText}>
+        Against an echo server: numbered probe frames measure round-trip time;
+        probes unanswered for {DEFAULT_WEBSOCKET_OPTIONS.echoTimeoutMs / 1000}s
+        count as dropped.
+      </Text>
+
+      <Text style={styles.label}>Interval (ms)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={echoInterval}
+        onChangeText={setEchoInterval}
+        keyboardType="number-pad"
+        testID="ws-echo-interval-input"
+      />
+
+      {session?.echo.running ? (
+        <TouchableOpacity
+          style={[styles.button, styles.dangerButton]}
+          onPress={handleStopEcho}
+          testID="ws-echo-stop-button">
+          <Text style={styles.buttonText}>Stop Echo</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={ignoreReported(() => handleStartEcho())}
+          disabled={!isActive}
+          testID="ws-echo-start-button">
+          <Text style={styles.buttonText}>Start Echo</Text>
+        </TouchableOpacity>
+      )}
+
+      {session && session.echo.sent > 0 ? (
+        <View style={styles.resultBox}>
+          <Text style={styles.resultText} testID="ws-echo-rtt">
+            RTT {formatProbeStats(session.echo.windowStats)}
+          </Text>
+          <Text style={styles.resultText} testID="ws-echo-counts">
+            {formatEchoSummary(session)}
+          </Text>
+          <Text style={styles.resultText} testID="ws-echo-loss">
+            Loss (last {session.echo.window.length}):{' '}
+            {session.echo.windowStats.lossPercent.toFixed(1)}%
+          </Text>
+          <Text style={styles.dataText} testID="ws-echo-timeline">
+            {formatEchoTimeline(session.echo.window)}
+          </Text>
+        </View>
+      ) : null}
+
+      <Text
+        style={[styles.sectionTitle, styles.spacedTitle]}
+        testID="ws-log-count">
+        Messages: {session?.log.length ?? 0}
+      </Text>
+      {session && session.log.length > 0 ? (
+        <TouchableOpacity
+          style={styles.smallButton}
+          onPress={() => sessionRef.current?.clearLog()}
+          testID="ws-clear-log-button">
+          <Text style={styles.buttonText}>Clear</Text>
+        </TouchableOpacity>
+      ) : null}
+      {visibleLog.map((entry, index) => (
+        <View key={entry.id} style={styles.logItem} testID={`ws-log-${index}`}>
+          <Text style={styles.logMeta}>
+            {new Date(entry.at).toISOString()} · {entry.direction}
+            {entry.kind !== 'event'
+              ? ` · ${entry.kind} · ${entry.bytes} B`
+              : ''}
+          </Text>
+          <Text style={styles.resultText}>{entry.preview}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function NetworkScreen() {
+  // Network Tab state
+  const [networkStatus, setNetworkStatus] = useState('');
+  const [networkData, setNetworkData] = useState('');
+
+  // Request console state
+  const [requestUrl, setRequestUrl] = useState(
+    'https://jsonplaceholder.typicode.com/posts/1',
+  );
+  const [requestMethod, setRequestMethod] = useState<HttpMethod>('GET');
+  const [requestHeadersText, setRequestHeadersText] = useState(
+    'Content-Type: application/json',
+  );
+  const [requestBody, setRequestBody] = useState('');
+  const [requestTimeout, setRequestTimeout] = useState(
+    String(DEFAULT_TIMEOUT_MS),
+  );
+  const [requestResponse, setRequestResponse] =
+    useState<HttpResponseSummary | null>(null);
+  const [requestError, setRequestError] = useState('');
+  const [isRequestInFlight, setIsRequestInFlight] = useState(false);
+  const [requestHistory, setRequestHistory] = useState<HttpHistoryEntry[]>([]);
+  // Numbers history entries; timestamps collide within a replay burst
+  const nextHistoryIdRef = useRef(1);
+
+  // Retry policy for the quick GET/POST checks
+  const [retryPolicy, setRetryPolicy] = useState(DEFAULT_RETRY_POLICY);
+
+  // Transport state
+  const [transportConfig, setTransportConfig] = useState(getTransportConfig);
+  const [fixtureStatus, setFixtureStatus] = useState('');
+
+  // ==================== NETWORK TAB HANDLERS ====================
+
+  const handleRetry = ({
+    attempt,
+    maxAttempts,
+    delayMs,
+    error,
+  }: RetryAttempt) => {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    setNetworkStatus(
+      `Attempt ${attempt}/${maxAttempts} failed (${errorMsg}), retrying in ${delayMs}ms...`,
+    );
+    logEvent(
+      'NETWORK',
+      `Attempt ${attempt}/${maxAttempts} failed: ${errorMsg}; retrying in ${delayMs}ms`,
+      {level: 'warn'},
+    );
+  };
+
+  // Non-2xx answers fail the attempt, so 5xx and 429 are retried as well
+  const sendWithRetry = (spec: HttpRequestSpec) =>
+    withRetry(
+      policyForMethod(validateRetryPolicy(retryPolicy), spec.method),
+      async () => {
+        const response = await sendHttpRequest(spec);
+        if (!response.ok) {
+          throw new HttpStatusError(response.status, response.statusText);
+        }
+        return response;
+      },
+      handleRetry,
+    );
+
+  const handleRetryPolicyChange = (changes: Partial<RetryPolicy>) =>
+    setRetryPolicy(previous => ({...previous, ...changes}));
+
+  const handleNetworkGet = async () => {
+    try {
+      logEvent('NETWORK', 'Starting GET request to JSONPlaceholder');
+      setNetworkStatus('Downloading...');
+
+      const response = await sendWithRetry({
+        url: 'https://jsonplaceholder.typicode.com/posts/1',
+        method: 'GET',
+        headers: {},
+        body: '',
+        timeoutMs: DEFAULT_TIMEOUT_MS,
+      });
+      const data = JSON.parse(response.body);
+
+      setNetworkData(JSON.stringify(data, null, 2));
+      setNetworkStatus(`✓ Downloaded: ${data.title}`);
+      logEvent('NETWORK', `GET request successful. Title: ${data.title}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setNetworkStatus(`✗ Error: ${errorMsg}`);
+      logEvent('NETWORK', `GET request failed: ${errorMsg}`, {level: 'error'});
+    }
+  };
+
+  const handleNetworkPost = async () => {
+    try {
+      logEvent('NETWORK', 'Starting POST request to JSONPlaceholder');
+      setNetworkStatus('Uploading...');
+
+      const postData = {
+        title: 'NativeBridge Test',
+        body: 'Test data from NativeBridge app',
+        userId: 1,
+      };
+
+      const response = await sendWithRetry({
+        url: 'https://jsonplaceholder.typicode.com/posts',
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(postData),
+        timeoutMs: DEFAULT_TIMEOUT_MS,
+      });
+
+      const data = JSON.parse(response.body);
+      setNetworkData(JSON.stringify(data, null, 2));
+      setNetworkStatus(`✓ Uploaded: Created post ID ${data.id}`);
+      logEvent('NETWORK', `POST request successful. Created ID: ${data.id}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setNetworkStatus(`✗ Error: ${errorMsg}`);
+      logEvent('NETWORK', `POST request failed: ${errorMsg}`, {level: 'error'});
+    }
+  };
+
+  // ==================== NETWORK TRANSPORT HANDLERS ====================
+
+  const handleTransportChange = (changes: Partial<TransportConfig>) => {
+    const updated = configureTransport(changes);
+    setTransportConfig(updated);
+    logEvent('NETWORK', 'Transport config changed', {
+      level: 'debug',
+      payload: updated,
+    });
+  };
+
+  const handleListFixtures = async () => {
+    try {
+      const fixtures = await listFixtures();
+      setFixtureStatus(`${fixtures.length} fixture(s) in ${FIXTURE_DIRECTORY}`);
+      logEvent('NETWORK', `Found ${fixtures.length} recorded fixtures`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setFixtureStatus(`✗ Error: ${errorMsg}`);
+    }
+  };
+
+  const handleClearFixtures = async () => {
+    try {
+      await clearFixtures();
+      setFixtureStatus('✓ Fixtures cleared');
+      logEvent('NETWORK', 'Recorded fixtures cleared');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setFixtureStatus(`✗ Error: ${errorMsg}`);
+    }
+  };
+
+  const buildRequestSpec = (): HttpRequestSpec => ({
+    url: requestUrl,
+    method: requestMethod,
+    headers: parseHeaders(requestHeadersText),
+    body: requestBody,
+    timeoutMs: Number(requestTimeout),
+  });
+
+  const handleSendRequest = async (
+    spec: HttpRequestSpec = buildRequestSpec(),
+  ) => {
+    const validationError = validateRequest(spec);
+    if (validationError) {
+      setRequestError(validationError);
+      Alert.alert('Invalid Request', validationError);
+      return;
+    }
+
+    const entry: HttpHistoryEntry = {
+      id: nextHistoryIdRef.current++,
+      sentAt: new Date().toISOString(),
+      request: spec,
+    };
+
+    setIsRequestInFlight(true);
+    setRequestError('');
+    setRequestResponse(null);
+    logEvent('NETWORK', `${spec.method} ${spec.url}`, {payload: spec});
+
+    try {
+      const response = await sendHttpRequest(spec);
+      entry.status = response.status;
+      entry.durationMs = response.durationMs;
+
+      setRequestResponse(response);
+      logEvent(
+        'NETWORK',
+        `${spec.method} ${spec.url} → ${response.status} in ${response.durationMs}ms`,
+        {
+          level: response.ok ? 'info' : 'warn',
+          payload: {status: response.status, headers: response.headers},
+        },
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      entry.error = errorMsg;
+
+      setRequestError(errorMsg);
+      logEvent('NETWORK', `${spec.method} ${spec.url} failed: ${errorMsg}`, {
+        level: 'error',
+      });
+    } finally {
+      setIsRequestInFlight(false);
+      setRequestHistory(history =>
+        [entry, ...history].slice(0, REQUEST_HISTORY_LIMIT),
+      );
+    }
+  };
+
+  // Loads a past request back into the builder and sends it again
+  const handleReplayRequest = (entry: HttpHistoryEntry) => {
+    const {request} = entry;
+    setRequestUrl(request.url);
+    setRequestMethod(request.method);
+    setRequestHeadersText(formatHeaders(request.headers));
+    setRequestBody(request.body);
+    setRequestTimeout(String(request.timeoutMs));
+    logEvent('NETWORK', `Replaying ${request.method} ${request.url}`);
+    handleSendRequest(request);
+  };
+
+  useDeepLinkContribution('network', {
+    commands: {
+      // nativebridge://network-retry?attempts=5&base=200&max=4000&jitter=off&post=on
+      'network-retry': {
+        primaryArg: 'state',
+        run: ({state, attempts, base, max, jitter, post}) => {
+          const next = {...retryPolicy};
+          if (state !== undefined) {
+            next.enabled = state !== 'off';
+          }
+          if (attempts !== undefined) {
+            next.maxAttempts = Number(attempts);
+          }
+          if (base !== undefined) {
+            next.baseDelayMs = Number(base);
+          }
+          if (max !== undefined) {
+            next.maxDelayMs = Number(max);
+          }
+          if (jitter !== undefined) {
+            next.jitter = jitter !== 'off';
+          }
+          if (post !== undefined) {
+            next.retryNonIdempotent = post === 'on';
+          }
+          try {
+            validateRetryPolicy(next);
+          } catch (error) {
+            throw new DeepLinkError((error as Error).message);
+          }
+          setRetryPolicy(next);
+          return `retry ${next.enabled ? 'on' : 'off'}: ${
+            next.maxAttempts
+          } attempts, ${next.baseDelayMs}-${next.maxDelayMs}ms, jitter ${
+            next.jitter ? 'on' : 'off'
+          }, POST ${next.retryNonIdempotent ? 'retried' : 'not retried'}`;
+        },
+      },
+    },
+    actions: {
+      'network-get': handleNetworkGet,
+      'network-post': handleNetworkPost,
+      'send-request': () => handleSendRequest(),
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      <ConnectivitySection />
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Network Operations</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleNetworkGet}
+          testID="network-get-button">
+          <Text style={styles.buttonText}>GET Request (Download)</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handleNetworkPost}
+          testID="network-post-button">
+          <Text style={styles.buttonText}>POST Request (Upload)</Text>
+        </TouchableOpacity>
+
+        <Text
+          style={[styles.sectionTitle, {marginTop: 20}]}
+          testID="network-status">
+          Status: {networkStatus || 'Ready'}
+        </Text>
+
+        {networkData ? (
+          <ScrollView style={styles.dataDisplay}>
+            <Text style={styles.dataText} testID="network-data">
+              {networkData}
+            </Text>
+          </ScrollView>
+        ) : null}
+      </View>
+
+      {/* Retry Policy */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Retry Policy</Text>
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Retry GET/POST:</Text>
+          <Switch
+            value={retryPolicy.enabled}
+            onValueChange={enabled => handleRetryPolicyChange({enabled})}
+            testID="retry-enabled-switch"
+          />
+        </View>
+
+        <Text style={styles.label}>Max attempts</Text>
+        <TextInput
+          style={styles.textInput}
+          value={String(retryPolicy.maxAttempts)}
+          onChangeText={text =>
+            handleRetryPolicyChange({maxAttempts: Number(text) || 0})
+          }
+          keyboardType="number-pad"
+          testID="retry-attempts-input"
+        />
+
+        <Text style={styles.label}>Base delay (ms)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={String(retryPolicy.baseDelayMs)}
+          onChangeText={text =>
+            handleRetryPolicyChange({baseDelayMs: Number(text) || 0})
+          }
+          keyboardType="number-pad"
+          testID="retry-base-delay-input"
+        />
+
+        <Text style={styles.label}>Max delay (ms)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={String(retryPolicy.maxDelayMs)}
+          onChangeText={text =>
+            handleRetryPolicyChange({maxDelayMs: Number(text) || 0})
+          }
+          keyboardType="number-pad"
+          testID="retry-max-delay-input"
+        />
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Full jitter:</Text>
+          <Switch
+            value={retryPolicy.jitter}
+            onValueChange={jitter => handleRetryPolicyChange({jitter})}
+            testID="retry-jitter-switch"
+          />
+        </View>
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Retry POST (may duplicate writes):</Text>
+          <Switch
+            value={retryPolicy.retryNonIdempotent}
+            onValueChange={retryNonIdempotent =>
+              handleRetryPolicyChange({retryNonIdempotent})
+            }
+            testID="retry-post-switch"
+          />
+        </View>
+      </View>
+
+      {/* Transport */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Transport</Text>
+
+        <View style={styles.chipRow}>
+          {TRANSPORT_MODES.map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.chip,
+                transportConfig.mode === mode && styles.activeChip,
+              ]}
+              onPress={() => handleTransportChange({mode})}
+              testID={`transport-mode-${mode}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  transportConfig.mode === mode && styles.activeChipText,
+                ]}>
+                {mode.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {transportConfig.mode === 'replay' ? (
+          <>
+            <Text style={styles.label}>Latency (ms)</Text>
+            <TextInput
+              style={styles.textInput}
+              value={String(transportConfig.latencyMs)}
+              onChangeText={text =>
+                handleTransportChange({latencyMs: Number(text) || 0})
+              }
+              keyboardType="number-pad"
+              testID="transport-latency-input"
+            />
+
+            <Text style={styles.label}>Fault Injection</Text>
+            <View style={styles.chipRow}>
+              {TRANSPORT_FAULTS.map(fault => (
+                <TouchableOpacity
+                  key={fault}
+                  style={[
+                    styles.chip,
+                    transportConfig.fault === fault && styles.activeChip,
+                  ]}
+                  onPress={() => handleTransportChange({fault})}
+                  testID={`transport-fault-${fault}`}>
+                  <Text
+                    style={[
+                      styles.chipText,
+                      transportConfig.fault === fault && styles.activeChipText,
+                    ]}>
+                    {fault}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Fault Rate (%)</Text>
+            <TextInput
+              style={styles.textInput}
+              value={String(Math.round(transportConfig.faultRate * 100))}
+              onChangeText={text =>
+                handleTransportChange({
+                  faultRate:
+                    Math.min(Math.max(Number(text) || 0, 0), 100) / 100,
+                })
+              }
+              keyboardType="number-pad"
+              testID="transport-fault-rate-input"
+            />
+          </>
+        ) : null}
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleListFixtures}
+          testID="list-fixtures-button">
+          <Text style={styles.buttonText}>List Recorded Fixtures</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton, styles.dangerButton]}
+          onPress={handleClearFixtures}
+          testID="clear-fixtures-button">
+          <Text style={styles.buttonText}>Clear Fixtures</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.infoText} testID="transport-status">
+          Mode: {transportConfig.mode.toUpperCase()}
+          {fixtureStatus ? ` | ${fixtureStatus}` : ''}
+        </Text>
+      </View>
+
+      {/* Request Builder */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Request Builder</Text>
+
+        <Text style={styles.label}>URL</Text>
+        <TextInput
+          style={styles.textInput}
+          value={requestUrl}
+          onChangeText={setRequestUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          testID="request-url-input"
+        />
+
+        <Text style={styles.label}>Method</Text>
+        <View style={styles.chipRow}>
+          {HTTP_METHODS.map(method => (
+            <TouchableOpacity
+              key={method}
+              style={[
+                styles.chip,
+                requestMethod === method && styles.activeChip,
+              ]}
+              onPress={() => setRequestMethod(method)}
+              testID={`request-method-${method}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  requestMethod === method && styles.activeChipText,
+                ]}>
+                {method}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Headers (one "Name: value" per line)</Text>
+        <TextInput
+          style={[styles.textInput, styles.multilineInput]}
+          value={requestHeadersText}
+          onChangeText={setRequestHeadersText}
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+          testID="request-headers-input"
+        />
+
+        {methodAllowsBody(requestMethod) ? (
+          <>
+            <Text style={styles.label}>Body</Text>
+            <TextInput
+              style={[styles.textInput, styles.multilineInput]}
+              value={requestBody}
+              onChangeText={setRequestBody}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+              placeholder='{"title": "NativeBridge Test"}'
+              testID="request-body-input"
+            />
+          </>
+        ) : null}
+
+        <Text style={styles.label}>Timeout (ms)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={requestTimeout}
+          onChangeText={setRequestTimeout}
+          keyboardType="number-pad"
+          testID="request-timeout-input"
+        />
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleSendRequest()}
+          disabled={isRequestInFlight}
+          testID="send-request-button">
+          <Text style={styles.buttonText}>
+            {isRequestInFlight ? 'Sending...' : `Send ${requestMethod}`}
+          </Text>
+        </TouchableOpacity>
+
+        {requestError ? (
+          <Text style={styles.infoText} testID="request-error">
+            ✗ Error: {requestError}
+          </Text>
+        ) : null}
+
+        {requestResponse ? (
+          <View style={styles.resultBox}>
+            <Text style={styles.resultText} testID="request-response-status">
+              {requestResponse.status} {requestResponse.statusText} ·{' '}
+              {requestResponse.durationMs}ms
+            </Text>
+            <ScrollView style={styles.dataDisplay}>
+              <Text style={styles.dataText} testID="request-response-headers">
+                {formatHeaders(requestResponse.headers)}
+              </Text>
+            </ScrollView>
+            <ScrollView style={styles.dataDisplay}>
+              <Text style={styles.dataText} testID="request-response-body">
+                {formatBody(requestResponse.body)}
+              </Text>
+            </ScrollView>
+          </View>
+        ) : null}
+      </View>
+
+      {/* Request History */}
+      {requestHistory.length > 0 ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Request History ({requestHistory.length})
+          </Text>
+
+          {requestHistory.map((entry, index) => (
+            <View
+              key={entry.id}
+              style={styles.fileItem}
+              testID={`request-history-${index}`}>
+              <View style={styles.flexFill}>
+                <Text style={styles.fileName}>
+                  {entry.request.method} {entry.request.url}
+                </Text>
+                <Text style={styles.fileInfo}>
+                  {entry.error
+                    ? `✗ ${entry.error}`
+                    : `${entry.status} in ${entry.durationMs}ms`}{' '}
+                  | {entry.sentAt}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => handleReplayRequest(entry)}
+                disabled={isRequestInFlight}
+                testID={`replay-request-${index}`}>
+                <Text style={styles.deleteButtonText}>Replay</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      <WebSocketSection />
+
+      <DownloadSection />
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'network',
+  label: 'Network',
+  testID: 'tab-network',
+  Screen: NetworkScreen,
+});
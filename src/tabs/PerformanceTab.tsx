@@ -0,0 +1,476 @@
+/**
+ * NativeBridge Performance Tab
+ *
+ * Quick CPU and memory tests plus the benchmark registry, run on the
+ * cooperative scheduler with live progress and cancellation.
+ */
+
+import React, {useRef, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {
+  BenchmarkParams,
+  BenchmarkResult,
+  DEFAULT_RUN_OPTIONS,
+  defaultParams,
+  exportBenchmarkSuite,
+  formatFrameStats,
+  formatStats,
+  getBenchmark,
+  getBenchmarks,
+  runBenchmark,
+  RunOptions,
+} from '../perf/benchmarks';
+import {CancelledError} from '../perf/scheduler';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+interface BenchmarkJob {
+  id: string;
+  params: BenchmarkParams;
+  options: RunOptions;
+}
+
+// Whole run counts from a text field; unparsable input gets the default
+const parseRunCount = (text: string, fallback: number, min: number) => {
+  const count = Math.floor(Number(text));
+  return Number.isFinite(count) ? Math.max(count, min) : fallback;
+};
+
+function PerformanceScreen() {
+  // Performance Tab state
+  const [performanceResult, setPerformanceResult] = useState('');
+  const [isPerformanceLoading, setIsPerformanceLoading] = useState(false);
+
+  // Benchmark registry state
+  const [selectedBenchmarkId, setSelectedBenchmarkId] = useState(
+    getBenchmarks()[0].id,
+  );
+  const [benchmarkParams, setBenchmarkParams] = useState<
+    Record<string, string>
+  >({});
+  const [benchmarkWarmup, setBenchmarkWarmup] = useState(
+    String(DEFAULT_RUN_OPTIONS.warmup),
+  );
+  const [benchmarkRepetitions, setBenchmarkRepetitions] = useState(
+    String(DEFAULT_RUN_OPTIONS.repetitions),
+  );
+  const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult[]>(
+    [],
+  );
+  const [benchmarkStatus, setBenchmarkStatus] = useState('');
+  const [performanceProgress, setPerformanceProgress] = useState(0);
+  const benchmarkAbortRef = useRef<AbortController | null>(null);
+  const lastProgressUpdateRef = useRef(0);
+
+  // ==================== PERFORMANCE TAB HANDLERS ====================
+
+  // Progress updates are throttled so re-rendering does not eat into the
+  // slices the benchmark itself runs in
+  const updatePerformanceProgress = (fraction: number) => {
+    const now = Date.now();
+    if (now - lastProgressUpdateRef.current >= 100 || fraction >= 1) {
+      lastProgressUpdateRef.current = now;
+      setPerformanceProgress(fraction);
+    }
+  };
+
+  // Runs benchmarks one after another on the cooperative scheduler. Resolves
+  // with their results, or null if the run was cancelled. Deep links bypass
+  // the disabled buttons, so a second job while one runs is refused here.
+  const runBenchmarkJob = async (jobs: BenchmarkJob[]) => {
+    if (benchmarkAbortRef.current) {
+      throw new Error('A benchmark is already running');
+    }
+    const controller = new AbortController();
+    benchmarkAbortRef.current = controller;
+    setIsPerformanceLoading(true);
+    setPerformanceProgress(0);
+
+    try {
+      const results: BenchmarkResult[] = [];
+      for (let index = 0; index < jobs.length; index++) {
+        const {id, params, options} = jobs[index];
+        results.push(
+          await runBenchmark(getBenchmark(id)!, params, options, {
+            signal: controller.signal,
+            onProgress: fraction =>
+              updatePerformanceProgress((index + fraction) / jobs.length),
+          }),
+        );
+      }
+      return results;
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        logEvent('PERFORMANCE', 'Benchmark cancelled', {level: 'warn'});
+        return null;
+      }
+      throw error;
+    } finally {
+      benchmarkAbortRef.current = null;
+      setIsPerformanceLoading(false);
+    }
+  };
+
+  const handleCancelBenchmark = () => {
+    logEvent('PERFORMANCE', 'Cancelling benchmark');
+    benchmarkAbortRef.current?.abort();
+  };
+
+  const handleCPUTest = async () => {
+    logEvent('PERFORMANCE', 'Starting CPU intensive test (Fibonacci 40)');
+    setPerformanceResult('');
+
+    try {
+      const results = await runBenchmarkJob([
+        {
+          id: 'fibonacci',
+          params: {n: 40},
+          options: {warmup: 0, repetitions: 1},
+        },
+      ]);
+      if (!results) {
+        setPerformanceResult('✗ CPU test cancelled');
+        return;
+      }
+
+      const [result] = results;
+      const duration = Math.round(result.samples[0]);
+      const resultText = [
+        result.summary,
+        `Time: ${duration}ms`,
+        `Frames: ${formatFrameStats(result.frames)}`,
+      ].join('\n');
+      setPerformanceResult(resultText);
+      logEvent('PERFORMANCE', `CPU test completed in ${duration}ms`, {
+        payload: result,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setPerformanceResult(`✗ Error: ${errorMsg}`);
+      logEvent('PERFORMANCE', `CPU test failed: ${errorMsg}`, {level: 'error'});
+    }
+  };
+
+  const handleMemoryTest = async () => {
+    logEvent(
+      'PERFORMANCE',
+      'Starting Memory intensive test (sorting 1M elements)',
+    );
+    setPerformanceResult('');
+
+    try {
+      const results = await runBenchmarkJob([
+        {
+          id: 'sort',
+          params: {size: 1000000},
+          options: {warmup: 0, repetitions: 1},
+        },
+      ]);
+      if (!results) {
+        setPerformanceResult('✗ Memory test cancelled');
+        return;
+      }
+
+      const [result] = results;
+      const duration = Math.round(result.samples[0]);
+      const resultText = [
+        result.summary,
+        `Time: ${duration}ms`,
+        `Frames: ${formatFrameStats(result.frames)}`,
+      ].join('\n');
+      setPerformanceResult(resultText);
+      logEvent('PERFORMANCE', `Memory test completed in ${duration}ms`, {
+        payload: result,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setPerformanceResult(`✗ Error: ${errorMsg}`);
+      logEvent('PERFORMANCE', `Memory test failed: ${errorMsg}`, {
+        level: 'error',
+      });
+    }
+  };
+
+  // ==================== BENCHMARK HANDLERS ====================
+
+  const getRunOptions = () => ({
+    warmup: parseRunCount(benchmarkWarmup, 0, 0),
+    repetitions: parseRunCount(benchmarkRepetitions, 1, 1),
+  });
+
+  // Parameters typed in the Perf tab override the benchmark's defaults
+  const getBenchmarkParams = (id: string) => {
+    const params = defaultParams(getBenchmark(id)!);
+    Object.keys(params).forEach(name => {
+      const override = Number(benchmarkParams[`${id}.${name}`]);
+      if (override > 0) {
+        params[name] = override;
+      }
+    });
+    return params;
+  };
+
+  const storeBenchmarkResult = (result: BenchmarkResult) => {
+    setBenchmarkResults(results => [
+      result,
+      ...results.filter(existing => existing.id !== result.id),
+    ]);
+    logEvent(
+      'PERFORMANCE',
+      `${result.name} x${result.repetitions}: ${formatStats(result.stats)}`,
+      {payload: result},
+    );
+  };
+
+  const handleRunBenchmarks = async (ids: string[]) => {
+    const options = getRunOptions();
+    logEvent(
+      'PERFORMANCE',
+      `Running ${ids.join(', ')} (warm-up ${options.warmup}, repetitions ${
+        options.repetitions
+      })`,
+    );
+    setBenchmarkStatus(`Running ${ids.length} benchmark(s)...`);
+
+    try {
+      const results = await runBenchmarkJob(
+        ids.map(id => ({id, params: getBenchmarkParams(id), options})),
+      );
+      if (!results) {
+        setBenchmarkStatus('✗ Cancelled');
+        return;
+      }
+      results.forEach(storeBenchmarkResult);
+      setBenchmarkStatus(`✓ Completed ${ids.length} benchmark(s)`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBenchmarkStatus(`✗ Error: ${errorMsg}`);
+      logEvent('PERFORMANCE', `Benchmark failed: ${errorMsg}`, {
+        level: 'error',
+      });
+    }
+  };
+
+  const handleExportBenchmarks = async () => {
+    try {
+      const path = await exportBenchmarkSuite(benchmarkResults);
+      setBenchmarkStatus(`✓ Exported: ${path}`);
+      logEvent('PERFORMANCE', `Benchmark suite exported to ${path}`);
+      Alert.alert('Benchmarks Exported', `Results saved to:\n${path}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBenchmarkStatus(`✗ Error: ${errorMsg}`);
+      Alert.alert('Error', `Failed to export benchmarks: ${errorMsg}`);
+    }
+  };
+
+  useDeepLinkContribution('performance', {
+    actions: {
+      'cpu-test': handleCPUTest,
+      'memory-test': handleMemoryTest,
+      'cancel-benchmark': handleCancelBenchmark,
+      'benchmark-suite': () =>
+        handleRunBenchmarks(getBenchmarks().map(benchmark => benchmark.id)),
+      'export-benchmarks': handleExportBenchmarks,
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Performance Testing</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleCPUTest}
+          testID="cpu-test-button"
+          disabled={isPerformanceLoading}>
+          <Text style={styles.buttonText}>Run CPU Test (Fibonacci 40)</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handleMemoryTest}
+          testID="memory-test-button"
+          disabled={isPerformanceLoading}>
+          <Text style={styles.buttonText}>Run Memory Test (Sort 1M)</Text>
+        </TouchableOpacity>
+
+        {isPerformanceLoading ? (
+          <View style={styles.loaderBox}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loaderText} testID="performance-progress">
+              Running test... {Math.round(performanceProgress * 100)}%
+            </Text>
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {width: `${Math.round(performanceProgress * 100)}%`},
+                ]}
+              />
+            </View>
+            <TouchableOpacity
+              style={[styles.button, styles.stackedButton, styles.dangerButton]}
+              onPress={handleCancelBenchmark}
+              testID="cancel-benchmark-button">
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {performanceResult && !isPerformanceLoading ? (
+          <View style={styles.resultBox}>
+            <Text style={styles.resultText} testID="performance-result">
+              {performanceResult}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      {/* Benchmark Registry */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Benchmarks</Text>
+
+        <View style={styles.chipRow}>
+          {getBenchmarks().map(benchmark => (
+            <TouchableOpacity
+              key={benchmark.id}
+              style={[
+                styles.chip,
+                selectedBenchmarkId === benchmark.id && styles.activeChip,
+              ]}
+              onPress={() => setSelectedBenchmarkId(benchmark.id)}
+              testID={`benchmark-select-${benchmark.id}`}>
+              <Text
+                style={[
+                  styles.chipText,
+                  selectedBenchmarkId === benchmark.id && styles.activeChipText,
+                ]}>
+                {benchmark.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.infoText}>
+          {getBenchmark(selectedBenchmarkId)!.description}
+        </Text>
+
+        {getBenchmark(selectedBenchmarkId)!.params.map(param => {
+          const key = `${selectedBenchmarkId}.${param.name}`;
+          return (
+            <View key={key}>
+              <Text style={styles.label}>{param.label}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={benchmarkParams[key] ?? ''}
+                placeholder={String(param.defaultValue)}
+                onChangeText={text =>
+                  setBenchmarkParams({...benchmarkParams, [key]: text})
+                }
+                keyboardType="number-pad"
+                testID={`benchmark-param-${key}`}
+              />
+            </View>
+          );
+        })}
+
+        <Text style={styles.label}>Warm-up runs</Text>
+        <TextInput
+          style={styles.textInput}
+          value={benchmarkWarmup}
+          onChangeText={setBenchmarkWarmup}
+          keyboardType="number-pad"
+          testID="benchmark-warmup-input"
+        />
+
+        <Text style={styles.label}>Measured repetitions</Text>
+        <TextInput
+          style={styles.textInput}
+          value={benchmarkRepetitions}
+          onChangeText={setBenchmarkRepetitions}
+          keyboardType="number-pad"
+          testID="benchmark-repetitions-input"
+        />
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => handleRunBenchmarks([selectedBenchmarkId])}
+          disabled={isPerformanceLoading}
+          testID="run-benchmark-button">
+          <Text style={styles.buttonText}>Run Selected Benchmark</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() =>
+            handleRunBenchmarks(getBenchmarks().map(benchmark => benchmark.id))
+          }
+          disabled={isPerformanceLoading}
+          testID="run-suite-button">
+          <Text style={styles.buttonText}>Run Full Suite</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleExportBenchmarks}
+          disabled={isPerformanceLoading || benchmarkResults.length === 0}
+          testID="export-benchmarks-button">
+          <Text style={styles.buttonText}>Export Suite JSON</Text>
+        </TouchableOpacity>
+
+        {benchmarkStatus ? (
+          <Text style={styles.infoText} testID="benchmark-status">
+            {benchmarkStatus}
+          </Text>
+        ) : null}
+
+        {benchmarkResults.map(result => (
+          <View
+            key={result.id}
+            style={styles.resultBox}
+            testID={`benchmark-result-${result.id}`}>
+            <Text style={styles.fileName}>
+              {result.name} (
+              {Object.entries(result.params)
+                .map(([name, value]) => `${name}=${value}`)
+                .join(', ')}
+              )
+            </Text>
+            <Text style={styles.resultText}>
+              Warm-up {result.warmup} | Repetitions {result.repetitions}
+            </Text>
+            <Text
+              style={styles.dataText}
+              testID={`benchmark-stats-${result.id}`}>
+              {formatStats(result.stats)}
+            </Text>
+            <Text
+              style={styles.dataText}
+              testID={`benchmark-frames-${result.id}`}>
+              {formatFrameStats(result.frames)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'performance',
+  label: 'Perf',
+  testID: 'tab-performance',
+  Screen: PerformanceScreen,
+});
@@ -0,0 +1,280 @@
+/**
+ * NativeBridge Permissions Tab
+ *
+ * Live status grid for every manifest permission, plus the system features
+ * (vibration, browser, phone, email) that need no permission dialog.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  AppState,
+  Linking,
+  Platform,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  Vibration,
+  View,
+} from 'react-native';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {
+  checkAllPermissions,
+  getApiLevel,
+  getPermissionSpec,
+  PERMISSION_SPECS,
+  PermissionStatus,
+  requestPermission,
+  requestPermissions,
+  resolvePermissions,
+} from '../permissions/permissionEngine';
+import {styles} from '../theme/styles';
+import {registerTab} from './tabRegistry';
+
+function PermissionsScreen() {
+  // Permissions Tab state
+  const [permissionStatuses, setPermissionStatuses] = useState<
+    Record<string, PermissionStatus>
+  >({});
+
+  // Permissions can change in system Settings while the app is backgrounded
+  useEffect(() => {
+    refreshPermissionStatuses();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refreshPermissionStatuses();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // ==================== PERMISSIONS TAB HANDLERS ====================
+
+  const refreshPermissionStatuses = async () => {
+    try {
+      setPermissionStatuses(await checkAllPermissions());
+    } catch (error) {
+      logEvent('PERMISSION', `Permission check error: ${error}`, {
+        level: 'error',
+      });
+    }
+  };
+
+  const handleCheckAllPermissions = async () => {
+    logEvent('PERMISSION', 'Checking all permissions');
+    const statuses = await checkAllPermissions();
+    setPermissionStatuses(statuses);
+    logEvent('PERMISSION', 'Permission statuses checked', {payload: statuses});
+  };
+
+  const handleRequestPermission = async (id: string) => {
+    const spec = getPermissionSpec(id);
+    try {
+      logEvent(
+        'PERMISSION',
+        `Requesting ${spec.label.toLowerCase()} permission`,
+        {payload: {id, permissions: resolvePermissions(spec)}},
+      );
+      const status = await requestPermission(spec);
+      setPermissionStatuses(statuses => ({...statuses, [id]: status}));
+
+      if (status === 'granted' || status === 'not_required') {
+        logEvent('PERMISSION', `${spec.label} permission ${status}`);
+        Alert.alert('Permission Granted', `${spec.label} access granted`);
+      } else if (status === 'partial') {
+        logEvent('PERMISSION', `${spec.label} permission partially granted`, {
+          level: 'warn',
+        });
+        Alert.alert(
+          'Permission Partially Granted',
+          `${spec.label} access was only granted in part (e.g. approximate location)`,
+        );
+      } else if (status === 'never_ask_again') {
+        logEvent('PERMISSION', `${spec.label} permission denied permanently`, {
+          level: 'warn',
+        });
+        Alert.alert(
+          'Permission Blocked',
+          `${spec.label} access was denied with "Don't ask again". Enable it in Settings.`,
+          [
+            {text: 'Cancel', style: 'cancel'},
+            {text: 'Open Settings', onPress: () => Linking.openSettings()},
+          ],
+        );
+      } else {
+        logEvent('PERMISSION', `${spec.label} permission ${status}`, {
+          level: 'warn',
+        });
+        Alert.alert('Permission Denied', `${spec.label} access denied`);
+      }
+    } catch (error) {
+      logEvent('PERMISSION', `${spec.label} permission error: ${error}`, {
+        level: 'error',
+      });
+    }
+  };
+
+  const handleRequestAllPermissions = async () => {
+    try {
+      logEvent('PERMISSION', 'Requesting all runtime permissions');
+      const statuses = await requestPermissions(PERMISSION_SPECS);
+      setPermissionStatuses(statuses);
+      logEvent('PERMISSION', 'Request-all completed', {payload: statuses});
+    } catch (error) {
+      logEvent('PERMISSION', `Request-all error: ${error}`, {level: 'error'});
+    }
+  };
+
+  // System Feature Handlers
+  const handleVibration = () => {
+    logEvent('SYSTEM', 'Triggering vibration pattern');
+    Vibration.vibrate([0, 100, 200, 100, 200]);
+    Alert.alert('Vibration', 'Device vibrating with pattern');
+  };
+
+  const handleOpenBrowser = () => {
+    const url = 'https://www.google.com';
+    logEvent('SYSTEM', `Opening browser: ${url}`);
+    Linking.openURL(url).catch(err => {
+      logEvent('SYSTEM', `Failed to open URL: ${err}`);
+    });
+  };
+
+  const handleMakePhoneCall = () => {
+    const phoneNumber = 'tel:1234567890';
+    logEvent('SYSTEM', `Initiating phone call to: ${phoneNumber}`);
+    Linking.openURL(phoneNumber).catch(err => {
+      logEvent('SYSTEM', `Failed to make call: ${err}`);
+    });
+  };
+
+  const handleSendEmail = () => {
+    const email = 'mailto:test@example.com?subject=Test&body=Hello';
+    logEvent('SYSTEM', `Opening email client: ${email}`);
+    Linking.openURL(email).catch(err => {
+      logEvent('SYSTEM', `Failed to open email: ${err}`);
+    });
+  };
+
+  useDeepLinkContribution('permissions', {
+    actions: {
+      ...Object.fromEntries(
+        PERMISSION_SPECS.map(spec => [
+          `request-${spec.id}`,
+          () => handleRequestPermission(spec.id),
+        ]),
+      ),
+      'check-permissions': handleCheckAllPermissions,
+      'request-all-permissions': handleRequestAllPermissions,
+      vibrate: handleVibration,
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Permission Status */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Permission Status</Text>
+        <Text style={styles.infoText} testID="permission-api-level">
+          {Platform.OS === 'android'
+            ? `Android API level ${getApiLevel()}`
+            : `Platform: ${Platform.OS}`}
+        </Text>
+
+        {PERMISSION_SPECS.map(spec => {
+          const status = permissionStatuses[spec.id];
+          return (
+            <View
+              key={spec.id}
+              style={styles.fileItem}
+              testID={`permission-row-${spec.id}`}>
+              <View style={styles.flexFill}>
+                <Text style={styles.fileName}>{spec.label}</Text>
+                <Text style={styles.fileInfo}>
+                  {spec.kind === 'runtime' && resolvePermissions(spec).length
+                    ? resolvePermissions(spec)
+                        .map(permission => permission.split('.').pop())
+                        .join(', ')
+                    : spec.manifest.join(', ')}
+                </Text>
+                <Text
+                  style={[
+                    styles.permissionStatus,
+                    status === 'granted' && styles.permissionGranted,
+                    (status === 'denied' || status === 'never_ask_again') &&
+                      styles.permissionDenied,
+                  ]}
+                  testID={`permission-status-${spec.id}`}>
+                  {status ?? 'unknown'}
+                </Text>
+              </View>
+              {spec.kind === 'runtime' ? (
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => handleRequestPermission(spec.id)}
+                  testID={`request-${spec.id}-button`}>
+                  <Text style={styles.deleteButtonText}>Request</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          );
+        })}
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleCheckAllPermissions}
+          testID="check-all-permissions-button">
+          <Text style={styles.buttonText}>Check All (no prompt)</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleRequestAllPermissions}
+          testID="request-all-permissions-button">
+          <Text style={styles.buttonText}>Request All Runtime Permissions</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* System Features */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>System Features</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleVibration}
+          testID="vibrate-button">
+          <Text style={styles.buttonText}>Vibrate Device</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handleOpenBrowser}
+          testID="open-browser-button">
+          <Text style={styles.buttonText}>Open Browser</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handleMakePhoneCall}
+          testID="call-phone-button">
+          <Text style={styles.buttonText}>Make Phone Call</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handleSendEmail}
+          testID="send-email-button">
+          <Text style={styles.buttonText}>Send Email</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'permissions',
+  label: 'Perms',
+  testID: 'tab-permissions',
+  Screen: PermissionsScreen,
+});
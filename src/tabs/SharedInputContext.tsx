@@ -0,0 +1,29 @@
+/**
+ * NativeBridge Shared Input
+ *
+ * The UI tab's text input doubles as the default payload for other tabs
+ * (e.g. clipboard copy and storage save), so it lives above the screens.
+ */
+
+import React, {createContext, ReactNode, useContext, useState} from 'react';
+
+interface SharedInput {
+  textInput: string;
+  setTextInput: (text: string) => void;
+}
+
+const SharedInputContext = createContext<SharedInput>({
+  textInput: '',
+  setTextInput: () => {},
+});
+
+export function SharedInputProvider({children}: {children: ReactNode}) {
+  const [textInput, setTextInput] = useState('');
+  return (
+    <SharedInputContext.Provider value={{textInput, setTextInput}}>
+      {children}
+    </SharedInputContext.Provider>
+  );
+}
+
+export const useSharedInput = () => useContext(SharedInputContext);
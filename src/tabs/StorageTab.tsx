@@ -0,0 +1,601 @@
+/**
+ * NativeBridge Storage Tab
+ *
+ * Clipboard copy/paste with a change monitor (history, content types and
+ * preset payloads), and the persistent key-value store, browsable by
+ * namespace with optional TTLs.
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import {
+  CLIPBOARD_PRESETS,
+  CLIPBOARD_TYPE_LABELS,
+  ClipboardEntry,
+  createClipboardMonitor,
+  MAX_CLIPBOARD_HISTORY,
+} from '../clipboard/clipboardMonitor';
+import {DeepLinkError} from '../deeplink/commandRouter';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {
+  clearAll as clearKeyValueStore,
+  clearNamespace,
+  DEFAULT_NAMESPACE,
+  getItem,
+  listEntries,
+  listNamespaces,
+  removeItem,
+  setItem,
+  StoredEntry,
+} from '../storage/keyValueStore';
+import {styles} from '../theme/styles';
+import {useSharedInput} from './SharedInputContext';
+import {registerTab} from './tabRegistry';
+
+type ClipboardMonitor = ReturnType<typeof createClipboardMonitor>;
+
+// Characters of clipboard text shown in the latest entry and the history
+const CLIPBOARD_PREVIEW_LENGTH = 500;
+const CLIPBOARD_HISTORY_PREVIEW_LENGTH = 80;
+
+const previewText = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+function StorageScreen() {
+  // Storage Tab state
+  const {textInput} = useSharedInput();
+  const [storageData, setStorageData] = useState('');
+  const [clipboardText, setClipboardText] = useState('');
+
+  // Clipboard monitor state
+  const [isMonitoring, setIsMonitoring] = useState(true);
+  const [clipboardHistory, setClipboardHistory] = useState<ClipboardEntry[]>(
+    [],
+  );
+  const monitorRef = useRef<ClipboardMonitor | null>(null);
+
+  // Persistent key-value store state
+  const [storageNamespace, setStorageNamespace] = useState(DEFAULT_NAMESPACE);
+  const [storageKey, setStorageKey] = useState('testData');
+  const [storageValue, setStorageValue] = useState('');
+  const [storageTtl, setStorageTtl] = useState('');
+  const [storageEntries, setStorageEntries] = useState<StoredEntry[]>([]);
+  const [storageNamespaces, setStorageNamespaces] = useState<string[]>([]);
+
+  useEffect(() => {
+    refreshStorageEntries(DEFAULT_NAMESPACE);
+    // Only the initial listing; later refreshes follow storage operations
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ==================== STORAGE TAB HANDLERS ====================
+
+  const handleCopyToClipboard = () => {
+    const textToCopy = textInput || 'NativeBridge Test Data';
+    Clipboard.setString(textToCopy);
+    logEvent('CLIPBOARD', `Copied to clipboard: ${textToCopy}`);
+    Alert.alert('Copied', `"${textToCopy}" copied to clipboard`);
+  };
+
+  const handlePasteFromClipboard = async () => {
+    try {
+      const text = await Clipboard.getString();
+      setClipboardText(text);
+      logEvent('CLIPBOARD', `Pasted from clipboard: ${text}`);
+      Alert.alert('Pasted', `Clipboard content: "${text}"`);
+    } catch (error) {
+      logEvent('CLIPBOARD', `Failed to read clipboard: ${error}`);
+      Alert.alert('Error', 'Failed to read from clipboard');
+    }
+  };
+
+  const recordClipboardEntry = (entry: ClipboardEntry) => {
+    setClipboardHistory(previous =>
+      [entry, ...previous].slice(0, MAX_CLIPBOARD_HISTORY),
+    );
+    logEvent(
+      'CLIPBOARD',
+      `Change (${entry.source}): ${CLIPBOARD_TYPE_LABELS[entry.type]}, ${
+        entry.length
+      } chars${
+        entry.latencyMs !== undefined ? `, ${entry.latencyMs}ms after copy` : ''
+      }`,
+      {
+        payload: {
+          at: entry.at,
+          source: entry.source,
+          type: entry.type,
+          length: entry.length,
+          codePoints: entry.codePoints,
+          utf8Bytes: entry.utf8Bytes,
+          sha256: entry.sha256,
+          latencyMs: entry.latencyMs,
+          preview: previewText(entry.text, CLIPBOARD_HISTORY_PREVIEW_LENGTH),
+        },
+      },
+    );
+  };
+
+  useEffect(() => {
+    if (!isMonitoring) {
+      return;
+    }
+    const monitor = createClipboardMonitor(recordClipboardEntry);
+    monitorRef.current = monitor;
+    // Baseline, so the first entry is the content when monitoring started
+    monitor.check('read').catch(() => {});
+    logEvent('CLIPBOARD', 'Clipboard monitor started');
+    return () => {
+      monitor.stop();
+      monitorRef.current = null;
+      logEvent('CLIPBOARD', 'Clipboard monitor stopped');
+    };
+  }, [isMonitoring]);
+
+  const handleCopyPreset = (presetId: string) => {
+    const preset = CLIPBOARD_PRESETS.find(({id}) => id === presetId);
+    if (!preset) {
+      throw new DeepLinkError(
+        `Unknown preset "${presetId}". Available: ${CLIPBOARD_PRESETS.map(
+          ({id}) => id,
+        ).join(', ')}`,
+      );
+    }
+    copyClipboardText(preset.text(), preset.label);
+  };
+
+  // Goes through the monitor when it runs, so the change records latency
+  const copyClipboardText = (text: string, label: string) => {
+    if (monitorRef.current) {
+      monitorRef.current.copy(text);
+    } else {
+      Clipboard.setString(text);
+    }
+    logEvent('CLIPBOARD', `Copied ${label} (${text.length} chars)`);
+  };
+
+  const handleReadClipboard = async () => {
+    try {
+      const entry = monitorRef.current
+        ? await monitorRef.current.check('read', true)
+        : null;
+      if (!entry) {
+        // Monitor off: read once without recording history
+        const text = await Clipboard.getString();
+        setClipboardText(text);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('CLIPBOARD', `Failed to read clipboard: ${errorMsg}`, {
+        level: 'error',
+      });
+      Alert.alert('Error', 'Failed to read from clipboard');
+    }
+  };
+
+  const refreshStorageEntries = async (namespace = storageNamespace) => {
+    try {
+      setStorageEntries(await listEntries(namespace));
+      setStorageNamespaces(await listNamespaces());
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('STORAGE', `Failed to list entries: ${errorMsg}`, {
+        level: 'error',
+      });
+    }
+  };
+
+  const handleSaveToStorage = async () => {
+    const key = storageKey.trim() || 'testData';
+    const value = storageValue || textInput || 'Default test data';
+    const ttlSeconds = Number(storageTtl);
+
+    try {
+      const entry = await setItem(storageNamespace, key, value, {
+        ttlMs: ttlSeconds > 0 ? ttlSeconds * 1000 : undefined,
+      });
+      await refreshStorageEntries();
+      logEvent(
+        'STORAGE',
+        `Saved to storage - Namespace: ${storageNamespace}, Key: ${key}, Value: ${value}`,
+        {payload: entry},
+      );
+      Alert.alert('Saved', `Data saved: "${value}"`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('STORAGE', `Save failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to save: ${errorMsg}`);
+    }
+  };
+
+  const handleLoadFromStorage = async () => {
+    const key = storageKey.trim() || 'testData';
+
+    try {
+      const value = (await getItem(storageNamespace, key)) ?? 'No data found';
+      setStorageData(value);
+      await refreshStorageEntries();
+      logEvent(
+        'STORAGE',
+        `Loaded from storage - Namespace: ${storageNamespace}, Key: ${key}, Value: ${value}`,
+      );
+      Alert.alert('Loaded', `Data loaded: "${value}"`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('STORAGE', `Load failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to load: ${errorMsg}`);
+    }
+  };
+
+  const handleDeleteStorageKey = async (key: string) => {
+    try {
+      await removeItem(storageNamespace, key);
+      await refreshStorageEntries();
+      logEvent(
+        'STORAGE',
+        `Deleted key - Namespace: ${storageNamespace}, Key: ${key}`,
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('STORAGE', `Delete failed: ${errorMsg}`, {level: 'error'});
+      Alert.alert('Error', `Failed to delete key: ${errorMsg}`);
+    }
+  };
+
+  const handleClearNamespace = async () => {
+    try {
+      await clearNamespace(storageNamespace);
+      await refreshStorageEntries();
+      logEvent('STORAGE', `Namespace cleared: ${storageNamespace}`);
+      Alert.alert('Cleared', `Namespace "${storageNamespace}" cleared`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('STORAGE', `Clear namespace failed: ${errorMsg}`, {
+        level: 'error',
+      });
+      Alert.alert('Error', `Failed to clear namespace: ${errorMsg}`);
+    }
+  };
+
+  const handleClearStorage = async () => {
+    try {
+      await clearKeyValueStore();
+      setStorageData('');
+      await refreshStorageEntries();
+      logEvent('STORAGE', 'Storage cleared');
+      Alert.alert('Cleared', 'All storage data cleared');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      logEvent('STORAGE', `Clear storage failed: ${errorMsg}`, {
+        level: 'error',
+      });
+      Alert.alert('Error', `Failed to clear storage: ${errorMsg}`);
+    }
+  };
+
+  const handleSelectNamespace = (namespace: string) => {
+    setStorageNamespace(namespace);
+    refreshStorageEntries(namespace);
+  };
+
+  useDeepLinkContribution('storage', {
+    commands: {
+      // nativebridge://clipboard-copy?preset=emoji or ?text=hello
+      'clipboard-copy': {
+        primaryArg: 'preset',
+        run: ({preset, text}) => {
+          if (text !== undefined) {
+            copyClipboardText(text, 'deep-link text');
+            return `copied ${text.length} chars`;
+          }
+          if (preset === undefined) {
+            throw new DeepLinkError('Pass preset or text');
+          }
+          handleCopyPreset(preset);
+          return `copied preset ${preset}`;
+        },
+      },
+      // nativebridge://clipboard-monitor/off
+      'clipboard-monitor': {
+        primaryArg: 'state',
+        requiredArgs: ['state'],
+        run: ({state}) => {
+          if (!['on', 'off'].includes(state)) {
+            throw new DeepLinkError(`State must be on or off, got "${state}"`);
+          }
+          setIsMonitoring(state === 'on');
+          return `clipboard monitor ${state}`;
+        },
+      },
+      storage: {
+        requiredArgs: ['key', 'value'],
+        run: async ({namespace = DEFAULT_NAMESPACE, key, value, ttl}) => {
+          const ttlSeconds = Number(ttl);
+          await setItem(namespace, key, value, {
+            ttlMs: ttlSeconds > 0 ? ttlSeconds * 1000 : undefined,
+          });
+          await refreshStorageEntries(storageNamespace);
+          return `seeded ${namespace}/${key}`;
+        },
+      },
+    },
+    actions: {
+      'copy-clipboard': handleCopyToClipboard,
+      'paste-clipboard': handlePasteFromClipboard,
+      'read-clipboard': handleReadClipboard,
+      'clear-clipboard-history': () => setClipboardHistory([]),
+      'save-storage': handleSaveToStorage,
+      'load-storage': handleLoadFromStorage,
+      'clear-storage': handleClearStorage,
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Clipboard Operations */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Clipboard Operations</Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleCopyToClipboard}
+          testID="copy-clipboard-button">
+          <Text style={styles.buttonText}>Copy to Clipboard</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, {marginTop: 10}]}
+          onPress={handlePasteFromClipboard}
+          testID="paste-clipboard-button">
+          <Text style={styles.buttonText}>Paste from Clipboard</Text>
+        </TouchableOpacity>
+
+        {clipboardText ? (
+          <Text
+            style={[styles.label, {marginTop: 20}]}
+            testID="clipboard-content">
+            Clipboard: {clipboardText}
+          </Text>
+        ) : null}
+      </View>
+
+      {/* Clipboard Monitor */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Clipboard Monitor</Text>
+
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Record changes:</Text>
+          <Switch
+            value={isMonitoring}
+            onValueChange={setIsMonitoring}
+            testID="clipboard-monitor-switch"
+          />
+        </View>
+
+        <Text style={styles.label}>Copy preset</Text>
+        <View style={styles.chipRow}>
+          {CLIPBOARD_PRESETS.map(preset => (
+            <TouchableOpacity
+              key={preset.id}
+              style={styles.chip}
+              onPress={() => handleCopyPreset(preset.id)}
+              testID={`clipboard-preset-${preset.id}`}>
+              <Text style={styles.chipText}>{preset.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleReadClipboard}
+          testID="clipboard-read-button">
+          <Text style={styles.buttonText}>Read Now</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() => setClipboardHistory([])}
+          testID="clipboard-clear-history-button">
+          <Text style={styles.buttonText}>Clear History</Text>
+        </TouchableOpacity>
+
+        {clipboardHistory.length > 0 ? (
+          <View style={styles.resultBox}>
+            <Text style={styles.verdict} testID="clipboard-latest-type">
+              {CLIPBOARD_TYPE_LABELS[clipboardHistory[0].type]}
+            </Text>
+            <Text style={styles.resultText} testID="clipboard-latest-meta">
+              {clipboardHistory[0].length} chars ·{' '}
+              {clipboardHistory[0].codePoints} code points ·{' '}
+              {clipboardHistory[0].utf8Bytes} UTF-8 bytes
+            </Text>
+            <Text style={styles.dataText} testID="clipboard-latest-sha256">
+              {clipboardHistory[0].sha256}
+            </Text>
+            <Text style={styles.resultText} testID="clipboard-latest-text">
+              {previewText(clipboardHistory[0].text, CLIPBOARD_PREVIEW_LENGTH)}
+            </Text>
+          </View>
+        ) : null}
+
+        <Text
+          style={[styles.sectionTitle, styles.spacedTitle]}
+          testID="clipboard-history-count">
+          History: {clipboardHistory.length}
+        </Text>
+        {clipboardHistory.map((entry, index) => (
+          <View
+            key={entry.id}
+            style={styles.logItem}
+            testID={`clipboard-history-${index}`}>
+            <Text style={styles.logMeta}>
+              {new Date(entry.at).toISOString()} · {entry.source} ·{' '}
+              {CLIPBOARD_TYPE_LABELS[entry.type]} · {entry.length} chars
+              {entry.latencyMs !== undefined ? ` · ${entry.latencyMs}ms` : ''}
+            </Text>
+            <Text style={styles.resultText}>
+              {previewText(entry.text, CLIPBOARD_HISTORY_PREVIEW_LENGTH)}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Storage Operations */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Storage Operations</Text>
+
+        <Text style={styles.label}>Namespace</Text>
+        <TextInput
+          style={styles.textInput}
+          value={storageNamespace}
+          onChangeText={setStorageNamespace}
+          onEndEditing={() => refreshStorageEntries()}
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="storage-namespace-input"
+        />
+
+        <Text style={styles.label}>Key</Text>
+        <TextInput
+          style={styles.textInput}
+          value={storageKey}
+          onChangeText={setStorageKey}
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="storage-key-input"
+        />
+
+        <Text style={styles.label}>Value (defaults to the UI tab text)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={storageValue}
+          onChangeText={setStorageValue}
+          testID="storage-value-input"
+        />
+
+        <Text style={styles.label}>TTL in seconds (empty = never expires)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={storageTtl}
+          onChangeText={setStorageTtl}
+          keyboardType="number-pad"
+          testID="storage-ttl-input"
+        />
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleSaveToStorage}
+          testID="save-storage-button">
+          <Text style={styles.buttonText}>Save to Storage</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleLoadFromStorage}
+          testID="load-storage-button">
+          <Text style={styles.buttonText}>Load from Storage</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={handleClearNamespace}
+          testID="clear-namespace-button">
+          <Text style={styles.buttonText}>Clear Namespace</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton, styles.dangerButton]}
+          onPress={handleClearStorage}
+          testID="clear-storage-button">
+          <Text style={styles.buttonText}>Clear Storage</Text>
+        </TouchableOpacity>
+
+        {storageData ? (
+          <Text
+            style={[styles.label, styles.spacedTitle]}
+            testID="storage-content">
+            Stored Data: {storageData}
+          </Text>
+        ) : null}
+      </View>
+
+      {/* Stored Entries */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle} testID="storage-entry-count">
+          Entries in "{storageNamespace}": {storageEntries.length}
+        </Text>
+
+        {storageNamespaces.length > 0 ? (
+          <View style={styles.chipRow}>
+            {storageNamespaces.map(namespace => (
+              <TouchableOpacity
+                key={namespace}
+                style={[
+                  styles.chip,
+                  storageNamespace === namespace && styles.activeChip,
+                ]}
+                onPress={() => handleSelectNamespace(namespace)}
+                testID={`storage-namespace-${namespace}`}>
+                <Text
+                  style={[
+                    styles.chipText,
+                    storageNamespace === namespace && styles.activeChipText,
+                  ]}>
+                  {namespace}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+
+        {storageEntries.map(entry => (
+          <View
+            key={entry.key}
+            style={styles.fileItem}
+            testID={`storage-entry-${entry.key}`}>
+            <View style={styles.flexFill}>
+              <Text style={styles.fileName}>{entry.key}</Text>
+              <Text style={styles.dataText}>{entry.value}</Text>
+              <Text style={styles.fileInfo}>
+                Updated: {entry.updatedAt}
+                {entry.expiresAt
+                  ? ` | Expires: ${new Date(entry.expiresAt).toISOString()}`
+                  : ''}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => handleDeleteStorageKey(entry.key)}
+              testID={`delete-storage-entry-${entry.key}`}>
+              <Text style={styles.deleteButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TouchableOpacity
+          style={[styles.button, styles.stackedButton]}
+          onPress={() => refreshStorageEntries()}
+          testID="refresh-storage-button">
+          <Text style={styles.buttonText}>Refresh Entries</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'storage',
+  label: 'Storage',
+  testID: 'tab-storage',
+  Screen: StorageScreen,
+});
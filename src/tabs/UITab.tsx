@@ -0,0 +1,148 @@
+/**
+ * NativeBridge UI Tab
+ *
+ * Basic interaction targets: a counter button with long press, a text
+ * input, a switch and a scrollable list.
+ */
+
+import React, {useState} from 'react';
+import {
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Vibration,
+  View,
+} from 'react-native';
+import {useDeepLinkContribution} from '../deeplink/contributions';
+import {logEvent} from '../logging/eventLog';
+import {styles} from '../theme/styles';
+import {useSharedInput} from './SharedInputContext';
+import {registerTab} from './tabRegistry';
+
+function UIScreen() {
+  // UI Tab state
+  const {textInput, setTextInput} = useSharedInput();
+  const [buttonPressCount, setButtonPressCount] = useState(0);
+  const [switchValue, setSwitchValue] = useState(false);
+
+  // ==================== UI TAB HANDLERS ====================
+
+  const handleButtonPress = () => {
+    logEvent('UI', `Button pressed - count: ${buttonPressCount + 1}`);
+    setButtonPressCount(buttonPressCount + 1);
+    Alert.alert('Button Pressed', `Count: ${buttonPressCount + 1}`);
+  };
+
+  const handleLongPress = () => {
+    logEvent('UI', 'Long press detected');
+    Vibration.vibrate(100);
+    Alert.alert('Long Press', 'You performed a long press!');
+  };
+
+  const handleSwitchToggle = (value: boolean) => {
+    logEvent('UI', `Switch toggled to: ${value}`);
+    setSwitchValue(value);
+  };
+
+  useDeepLinkContribution('ui', {
+    commands: {
+      input: {
+        primaryArg: 'text',
+        requiredArgs: ['text'],
+        run: ({text}) => {
+          setTextInput(text);
+          return `textInput = "${text}"`;
+        },
+      },
+      switch: {
+        primaryArg: 'value',
+        run: ({value = 'toggle'}) => {
+          const next =
+            value === 'toggle'
+              ? !switchValue
+              : ['on', 'true', '1'].includes(value);
+          handleSwitchToggle(next);
+          return `switch = ${next ? 'ON' : 'OFF'}`;
+        },
+      },
+    },
+    actions: {
+      'button-press': handleButtonPress,
+    },
+  });
+
+  return (
+    <ScrollView style={styles.tabContent}>
+      {/* Button Testing */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Button Testing</Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleButtonPress}
+          onLongPress={handleLongPress}
+          testID="test-button">
+          <Text style={styles.buttonText}>Tap Me (or Long Press)!</Text>
+        </TouchableOpacity>
+        <Text style={styles.infoText} testID="button-counter">
+          Button pressed: {buttonPressCount} times
+        </Text>
+      </View>
+
+      {/* Text Input Testing */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Text Input</Text>
+        <TextInput
+          style={styles.textInput}
+          placeholder="Enter some text"
+          value={textInput}
+          onChangeText={setTextInput}
+          testID="text-input"
+        />
+        <Text style={styles.infoText} testID="input-display">
+          Current text: {textInput}
+        </Text>
+      </View>
+
+      {/* Switch Testing */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Switch Testing</Text>
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Toggle Switch:</Text>
+          <Switch
+            value={switchValue}
+            onValueChange={handleSwitchToggle}
+            testID="test-switch"
+          />
+        </View>
+        <Text style={styles.infoText} testID="switch-status">
+          Switch is: {switchValue ? 'ON' : 'OFF'}
+        </Text>
+      </View>
+
+      {/* Scrollable Area */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Scrollable Area</Text>
+        <ScrollView
+          style={styles.scrollView}
+          testID="scrollable-area"
+          showsVerticalScrollIndicator={true}>
+          {Array.from({length: 20}, (_, i) => (
+            <View key={i} style={styles.scrollItem} testID={`scroll-item-${i}`}>
+              <Text>Scrollable Item {i + 1}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </ScrollView>
+  );
+}
+
+registerTab({
+  id: 'ui',
+  label: 'UI',
+  testID: 'tab-ui',
+  Screen: UIScreen,
+});
@@ -0,0 +1,21 @@
+/**
+ * NativeBridge Tabs
+ *
+ * Importing a tab module registers it. To add a tab, create its module,
+ * import it here and list its id in tabs.config.json.
+ */
+
+import './UITab';
+import './NetworkTab';
+import './PerformanceTab';
+import './PermissionsTab';
+import './StorageTab';
+import './FilesTab';
+import './FileManagerTab';
+import './BiometricTab';
+import './CameraTab';
+import './LocationTab';
+import './DeviceTab';
+import './LogsTab';
+
+export * from './tabRegistry';
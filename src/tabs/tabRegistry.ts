@@ -0,0 +1,66 @@
+/**
+ * NativeBridge Tab Registry
+ *
+ * Each tab is a self-contained module that registers its id, label, testID
+ * and screen here. Which tabs a build shows, and in which order, comes from
+ * tabs.config.json at the repository root, so per-customer builds can ship
+ * a trimmed tab bar without touching App.
+ */
+
+import type {ComponentType} from 'react';
+import {logEvent} from '../logging/eventLog';
+
+export interface TabScreenProps {
+  // Screens stay mounted while hidden so their state survives tab switches
+  isActive: boolean;
+}
+
+export interface TabDefinition {
+  id: string;
+  // Caption shown in the tab bar
+  label: string;
+  testID: string;
+  Screen: ComponentType<TabScreenProps>;
+}
+
+export interface TabConfig {
+  // Enabled tab ids, in tab bar order
+  tabs: string[];
+  initialTab?: string;
+}
+
+const registry = new Map<string, TabDefinition>();
+
+export const registerTab = (definition: TabDefinition) => {
+  registry.set(definition.id, definition);
+};
+
+export const getTabs = () => Array.from(registry.values());
+
+export const getTab = (id: string) => registry.get(id);
+
+// Unknown or duplicate ids in the config are logged and skipped; a config
+// that enables nothing falls back to every registered tab
+export const resolveEnabledTabs = (config: TabConfig) => {
+  const ids = Array.from(new Set(config.tabs));
+  const unknown = ids.filter(id => !registry.has(id));
+  if (unknown.length > 0) {
+    logEvent('TABS', `Ignoring unknown tabs in config: ${unknown.join(', ')}`, {
+      level: 'warn',
+    });
+  }
+
+  const enabled = ids
+    .map(id => registry.get(id))
+    .filter((tab): tab is TabDefinition => tab !== undefined);
+  if (enabled.length === 0) {
+    logEvent('TABS', 'No known tabs enabled in config, showing all', {
+      level: 'error',
+    });
+    return getTabs();
+  }
+  return enabled;
+};
+
+export const resolveInitialTab = (config: TabConfig, tabs: TabDefinition[]) =>
+  tabs.find(tab => tab.id === config.initialTab)?.id ?? tabs[0].id;
@@ -0,0 +1,372 @@
+/**
+ * NativeBridge Shared Styles
+ *
+ * One stylesheet for the app shell and every tab screen, so tabs keep the
+ * same look without each defining its own buttons and sections.
+ */
+
+import {Platform, StyleSheet} from 'react-native';
+
+export const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: 50,
+    marginBottom: 15,
+    color: '#333',
+  },
+  tabBar: {
+    flexGrow: 0,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  tabBarContent: {
+    flexGrow: 1,
+  },
+  tab: {
+    flexGrow: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#007AFF',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  tabContent: {
+    flex: 1,
+    padding: 15,
+  },
+  section: {
+    marginBottom: 20,
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 8,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+    color: '#333',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    backgroundColor: '#fafafa',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 5,
+  },
+  switchContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  scrollView: {
+    height: 150,
+    backgroundColor: '#fafafa',
+    borderRadius: 8,
+    padding: 8,
+  },
+  scrollItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  dataDisplay: {
+    marginTop: 15,
+    backgroundColor: '#fafafa',
+    padding: 10,
+    borderRadius: 8,
+    maxHeight: 200,
+  },
+  dataText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    color: '#333',
+  },
+  resultBox: {
+    marginTop: 15,
+    backgroundColor: '#e8f4f8',
+    padding: 15,
+    borderRadius: 8,
+  },
+  qrKind: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 8,
+  },
+  verdict: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  qrCanvas: {
+    alignSelf: 'center',
+    backgroundColor: 'white',
+    marginTop: 15,
+  },
+  qrRow: {
+    flexDirection: 'row',
+  },
+  qrDark: {
+    backgroundColor: 'black',
+  },
+  qrLight: {
+    backgroundColor: 'white',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d0e4ec',
+  },
+  fieldLabel: {
+    width: 110,
+    fontSize: 13,
+    color: '#666',
+  },
+  fieldValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  resultText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  loaderBox: {
+    marginTop: 20,
+    padding: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loaderText: {
+    marginTop: 10,
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  fileList: {
+    maxHeight: 200,
+    backgroundColor: '#fafafa',
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 10,
+  },
+  fileItem: {
+    flexDirection: 'row',
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+    alignItems: 'center',
+  },
+  selectedFileItem: {
+    backgroundColor: '#e8f4f8',
+  },
+  filePreviewImage: {
+    width: '100%',
+    height: 200,
+    marginTop: 10,
+    backgroundColor: '#fafafa',
+    borderRadius: 8,
+  },
+  fileName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  fileInfo: {
+    fontSize: 11,
+    color: '#666',
+  },
+  deleteButton: {
+    backgroundColor: '#FF3B30',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginLeft: 10,
+  },
+  deleteButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  cameraContainer: {
+    height: 400,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#000',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraOverlay: {
+    flex: 1,
+    backgroundColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: 250,
+    height: 250,
+    borderWidth: 2,
+    borderColor: '#00FF00',
+    backgroundColor: 'transparent',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  flexFill: {
+    flex: 1,
+  },
+  hiddenTab: {
+    display: 'none',
+  },
+  lockScreen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+    padding: 30,
+  },
+  lockTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 20,
+    color: '#333',
+  },
+  smallButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginLeft: 10,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 8,
+    marginTop: 10,
+    borderRadius: 4,
+    backgroundColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#007AFF',
+  },
+  permissionStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 4,
+  },
+  permissionGranted: {
+    color: '#34C759',
+  },
+  permissionDenied: {
+    color: '#FF3B30',
+  },
+  stackedButton: {
+    marginTop: 10,
+  },
+  dangerButton: {
+    backgroundColor: '#FF3B30',
+  },
+  spacedTitle: {
+    marginTop: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  activeChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  activeChipText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  logItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  logMeta: {
+    fontSize: 11,
+    color: '#999',
+    marginBottom: 2,
+  },
+  cameraText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 20,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    padding: 10,
+    borderRadius: 5,
+  },
+});